@@ -9,6 +9,7 @@ import StudentDashboard from './pages/StudentDashboard';
 import FacultyDashboard from './pages/FacultyDashboard';
 import AdminPanel from './pages/AdminPanel';
 import ContactSupport from './pages/ContactSupport';
+import ProtectedRoute from './components/ProtectedRoute';
 import './App.css';
 
 function App() {
@@ -21,9 +22,30 @@ function App() {
               <Route path="/" element={<Homepage />} />
               <Route path="/login" element={<Login />} />
               <Route path="/register" element={<Register />} />
-              <Route path="/student" element={<StudentDashboard />} />
-              <Route path="/faculty" element={<FacultyDashboard />} />
-              <Route path="/admin" element={<AdminPanel />} />
+              <Route
+                path="/student"
+                element={
+                  <ProtectedRoute allowedRoles={['student']}>
+                    <StudentDashboard />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/faculty"
+                element={
+                  <ProtectedRoute allowedRoles={['faculty']}>
+                    <FacultyDashboard />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/admin"
+                element={
+                  <ProtectedRoute allowedRoles={['admin']}>
+                    <AdminPanel />
+                  </ProtectedRoute>
+                }
+              />
               <Route path="/contact-support" element={<ContactSupport />} />
             </Routes>
           </div>
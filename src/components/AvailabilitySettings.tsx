@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { Clock, Plus, Trash2, X } from 'lucide-react';
+import type { AvailabilityStatus, OfficeHoursSlot } from '../contexts/UserContext';
+
+// What gets saved (see `setAvailability`)
+export interface AvailabilitySettingsValue {
+  status: AvailabilityStatus;
+  officeHours: OfficeHoursSlot[];
+  timezone: string;
+  autoReply: string;
+}
+
+interface AvailabilitySettingsProps {
+  initial: AvailabilitySettingsValue;
+  accentColor: string;
+  /** Saves the settings; resolves to an error message, or null on success */
+  onSave: (settings: AvailabilitySettingsValue) => Promise<string | null>;
+  onClose: () => void;
+}
+
+const AVAILABILITY_LABELS: Record<AvailabilityStatus, string> = {
+  available: 'Available',
+  busy: 'Busy',
+  away: 'Away',
+  out_of_office: 'Out of office'
+};
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * FacultyDashboard dialog for availability: status, weekly office hours (in
+ * a chosen time zone) and the auto-reply students get while the faculty
+ * member can't answer within hours.
+ */
+const AvailabilitySettings: React.FC<AvailabilitySettingsProps> = ({ initial, accentColor, onSave, onClose }) => {
+  const [status, setStatus] = useState<AvailabilityStatus>(initial.status);
+  const [officeHours, setOfficeHours] = useState<OfficeHoursSlot[]>(initial.officeHours);
+  const [timezone, setTimezone] = useState(initial.timezone);
+  const [autoReply, setAutoReply] = useState(initial.autoReply);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateSlot = (index: number, changes: Partial<OfficeHoursSlot>) => {
+    setOfficeHours(prev => prev.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)));
+  };
+
+  const addSlot = () => {
+    setOfficeHours(prev => [...prev, { day: 1, start: '10:00', end: '12:00' }]);
+  };
+
+  const removeSlot = (index: number) => {
+    setOfficeHours(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    if (officeHours.some(slot => slot.start >= slot.end)) {
+      setError('Each office hours slot must end after it starts.');
+      return;
+    }
+
+    setError('');
+    setIsSaving(true);
+    try {
+      const saveError = await onSave({ status, officeHours, timezone: timezone.trim(), autoReply });
+      if (saveError) {
+        setError(saveError);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClassName = 'bg-gray-800/50 border border-gray-600/50 rounded-lg px-3 py-2 text-white placeholder-gray-400 focus:outline-none transition-colors text-sm';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative bg-gray-900/95 border border-gray-700 rounded-xl p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto shadow-2xl">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-orbitron text-lg font-bold text-white flex items-center gap-2">
+            <Clock className="w-5 h-5" style={{ color: accentColor }} />
+            Availability
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-lg hover:bg-gray-800 transition-colors"
+          >
+            <X className="w-4 h-4 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Status</label>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(AVAILABILITY_LABELS) as AvailabilityStatus[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setStatus(option)}
+                  className={`px-3 py-2 rounded-lg border text-sm transition-colors ${
+                    status === option ? 'text-white' : 'border-gray-600/50 text-gray-400 hover:text-white'
+                  }`}
+                  style={status === option ? { borderColor: accentColor, backgroundColor: `${accentColor}20` } : undefined}
+                >
+                  {AVAILABILITY_LABELS[option]}
+                </button>
+              ))}
+            </div>
+            {status === 'out_of_office' && (
+              <p className="mt-2 text-xs text-gray-400">New chats won't be routed to you while you're out of office.</p>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-gray-300">Office hours</label>
+              <button
+                onClick={addSlot}
+                className="flex items-center gap-1 px-2 py-0.5 rounded bg-gray-800/50 text-xs text-gray-300 hover:text-white transition-colors"
+              >
+                <Plus className="w-3 h-3" />
+                Add slot
+              </button>
+            </div>
+            {officeHours.length === 0 ? (
+              <p className="text-xs text-gray-500">No office hours set - students see you as reachable whenever you're available.</p>
+            ) : (
+              <ul className="space-y-2">
+                {officeHours.map((slot, index) => (
+                  <li key={index} className="flex items-center gap-2">
+                    <select
+                      value={slot.day}
+                      onChange={(e) => updateSlot(index, { day: Number(e.target.value) })}
+                      className={`${inputClassName} flex-1`}
+                    >
+                      {DAY_NAMES.map((name, day) => (
+                        <option key={name} value={day}>{name}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="time"
+                      value={slot.start}
+                      onChange={(e) => updateSlot(index, { start: e.target.value })}
+                      className={inputClassName}
+                    />
+                    <span className="text-gray-500 text-sm">–</span>
+                    <input
+                      type="time"
+                      value={slot.end}
+                      onChange={(e) => updateSlot(index, { end: e.target.value })}
+                      className={inputClassName}
+                    />
+                    <button
+                      onClick={() => removeSlot(index)}
+                      className="p-1 rounded-lg text-gray-400 hover:text-red-400 transition-colors"
+                      title="Remove slot"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <input
+              type="text"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              placeholder="Time zone, e.g. Asia/Kolkata"
+              className={`${inputClassName} w-full mt-2`}
+              title="Time zone your office hours are in"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Auto-reply</label>
+            <textarea
+              value={autoReply}
+              onChange={(e) => setAutoReply(e.target.value)}
+              placeholder="Sent to students who write while you can't reply within hours. Leave empty to turn off."
+              maxLength={500}
+              rows={3}
+              className={`${inputClassName} w-full resize-none`}
+            />
+          </div>
+
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !timezone.trim()}
+            className="flex-1 px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            style={{ backgroundColor: accentColor }}
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AvailabilitySettings;
@@ -1,9 +1,14 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Send, Flag, MoreVertical, User, Shield, Clock, Paperclip, Smile, X, AlertTriangle } from 'lucide-react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Send, Flag, MoreVertical, User, Shield, Clock, Paperclip, Smile, X, AlertTriangle, RotateCcw, Pencil, Trash2, UserCheck, EyeOff } from 'lucide-react';
 import { useTheme } from '../contexts/ThemeContext';
 import { useUser } from '../contexts/UserContext';
-import { appendMessage, getChatMessages, markMessagesAsRead } from '../lib/database';
-import { reportIssue } from '../lib/database';
+import { getChatMessages, editMessage, deleteMessage, MESSAGE_EDIT_WINDOW_MS, markMessagesAsRead, markMessagesAsDelivered, subscribeToChatMessages, subscribeToTyping, queueMessage, getQueuedMessages, requeueMessage, discardMessage, startOutboxSync, checkMessageContent, logModerationDecisions, detectPII, redactPII, PII_DETECTED_ERROR } from '../lib/database';
+import { reportIssue, getMyReports, subscribeToMyReports, getMyWarnings, acknowledgeWarning, uploadAttachment, validateAttachment, ALLOWED_ATTACHMENT_TYPES, getChatReactions, addReaction, removeReaction, subscribeToReactions, getIdentityReveal, requestIdentityReveal, revealIdentity, declineIdentityReveal, revokeIdentityReveal, subscribeToIdentityReveal, REVEAL_FIELDS } from '../lib/database';
+import MessageAttachment, { Attachment } from './MessageAttachment';
+import MessageReactions, { Reaction } from './MessageReactions';
+import EmojiPicker from './EmojiPicker';
+import MessageContent from './MessageContent';
+import PIIWarningPanel, { PIIMatch } from './PIIWarningPanel';
 
 interface Message {
   id: string;
@@ -11,15 +16,100 @@ interface Message {
   sender: 'user' | 'other';
   timestamp: Date;
   anonymousId: string;
-  reported?: boolean;
   type: 'text' | 'file' | 'image';
-  status: 'sending' | 'sent' | 'delivered' | 'read';
+  attachment?: Attachment | null;
+  editedAt?: Date | null;
+  deletedAt?: Date | null;
+  isAutoReply?: boolean;
+  status: 'sending' | 'pending' | 'sent' | 'delivered' | 'read' | 'failed';
 }
 
+// Message shape returned by the database helpers (see `toMessage`)
+interface ChatMessageRecord {
+  id: string;
+  from: 'student' | 'faculty';
+  text: string;
+  type?: 'text' | 'file' | 'image';
+  attachment?: Attachment | null;
+  timestamp: string;
+  editedAt?: string | null;
+  deletedAt?: string | null;
+  isAutoReply?: boolean;
+  status: 'sent' | 'delivered' | 'read';
+}
+
+// Unsent message kept in the outbox (see `queueMessage`)
+interface QueuedMessage {
+  id: string;
+  chatId: string;
+  from: 'student' | 'faculty';
+  text: string;
+  type: 'text' | 'file' | 'image';
+  attachment?: Attachment | null;
+  timestamp: string;
+  status: 'pending' | 'failed';
+  lastError?: string | null;
+}
+
+// The current user's report on a message (see `getMyReports`)
+interface MessageReport {
+  id: string;
+  message_id: string;
+  resolved: boolean;
+  resolution_note?: string | null;
+}
+
+// A moderator's warning to the current user about this chat
+interface UserWarning {
+  id: string;
+  reason: string;
+  created_at: string;
+}
+
+type RevealField = 'name' | 'department';
+
+// This chat's identity reveal state (see `getIdentityReveal`)
+interface IdentityReveal {
+  status: 'requested' | 'revealed' | 'declined' | 'revoked';
+  fields: RevealField[];
+  request_note: string | null;
+}
+
+// What the student shared; only the chosen fields are present
+interface RevealedIdentity {
+  name?: string;
+  department?: string | null;
+  year?: string | null;
+}
+
+interface OutboxResult {
+  entry: QueuedMessage;
+  message?: ChatMessageRecord | null;
+}
+
+interface OutboxSync {
+  flush: (options?: { force?: boolean }) => Promise<void>;
+  stop: () => void;
+}
+
+interface TypingSubscription {
+  notifyTyping: () => void;
+  stopTyping: () => void;
+  unsubscribe: () => void;
+}
+
+// Stop broadcasting "typing" after this long without a keystroke
+const TYPING_IDLE_MS = 3000;
+
+// Offered in the per-message reaction bar; the composer picker has the rest
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
 interface ChatBoxProps {
   role: 'student' | 'faculty';
   threadId?: string;
   recipientId?: string;
+  /** Names shown for each side of this chat (the student's may be a per-chat alias) */
+  participants?: { student: string; faculty: string };
   onNewMessage?: (message: string) => void;
   onClose?: () => void;
 }
@@ -32,21 +122,117 @@ function isValidUUID(str: string): boolean {
   return uuidRegex.test(str);
 }
 
-const ChatBox: React.FC<ChatBoxProps> = ({ role, threadId, recipientId, onNewMessage, onClose }) => {
+const statusRank: Record<Message['status'], number> = {
+  failed: 0,
+  sending: 0,
+  pending: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3
+};
+
+/**
+ * Adds a message to the list, or updates the existing copy when the same id
+ * arrives twice (optimistic send + realtime echo), keeping the further status
+ */
+function mergeMessage(messages: Message[], incoming: Message): Message[] {
+  const existing = messages.find(msg => msg.id === incoming.id);
+
+  if (!existing) {
+    return [...messages, incoming].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  return messages.map(msg => 
+    msg.id === incoming.id
+      ? { 
+          ...msg, 
+          ...incoming, 
+          status: statusRank[incoming.status] > statusRank[msg.status] ? incoming.status : msg.status 
+        }
+      : msg
+  );
+}
+
+const REVEAL_FIELD_LABELS: Record<RevealField, string> = {
+  name: 'Name',
+  department: 'Department and year'
+};
+
+const describeIdentity = (identity: RevealedIdentity) => {
+  const department = identity.department && (identity.year ? `${identity.department}, year ${identity.year}` : identity.department);
+  return [identity.name, department].filter(Boolean).join(' • ');
+};
+
+// Shown until the dashboard passes the chat's real participants (and for sample chats)
+const SAMPLE_PARTICIPANTS = { student: 'Student#128', faculty: 'Faculty#42' };
+
+const ChatBox: React.FC<ChatBoxProps> = ({ role, threadId, recipientId, participants = SAMPLE_PARTICIPANTS, onNewMessage, onClose }) => {
   const { currentTheme, themes } = useTheme();
   const { user } = useUser();
+  const { student: studentName, faculty: facultyName } = participants;
+  const ownName = role === 'student' ? studentName : facultyName;
   const theme = themes.find(t => t.id === currentTheme) || themes[0];
   
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState('');
-  const [isTyping, setIsTyping] = useState(false);
-  const [otherUserTyping, setOtherUserTyping] = useState(false);
+  const [otherUserTyping, setOtherUserTyping] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [reactions, setReactions] = useState<Reaction[]>([]);
+  const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(null);
+  const [showEmojiPicker, setShowEmojiPicker] = useState(false);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [composerError, setComposerError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [showReportModal, setShowReportModal] = useState(false);
   const [reportReason, setReportReason] = useState('');
   const [reportComment, setReportComment] = useState('');
+  const [reportingMessageId, setReportingMessageId] = useState<string | null>(null);
+  const [myReports, setMyReports] = useState<MessageReport[]>([]);
+  const [reportNotice, setReportNotice] = useState('');
+  const [warnings, setWarnings] = useState<UserWarning[]>([]);
+  const [piiWarning, setPiiWarning] = useState<{ content: string; matches: PIIMatch[] } | null>(null);
+  const [editPiiWarning, setEditPiiWarning] = useState<{ messageId: string; content: string; matches: PIIMatch[] } | null>(null);
+  const [identityReveal, setIdentityReveal] = useState<IdentityReveal | null>(null);
+  const [revealedIdentity, setRevealedIdentity] = useState<RevealedIdentity | null>(null);
+  const [revealFields, setRevealFields] = useState<RevealField[] | null>(null);
+  const [isRevealSaving, setIsRevealSaving] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const onNewMessageRef = useRef(onNewMessage);
+  const typingRef = useRef<TypingSubscription | null>(null);
+  const typingIdleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const outboxRef = useRef<OutboxSync | null>(null);
+
+  useEffect(() => {
+    onNewMessageRef.current = onNewMessage;
+  }, [onNewMessage]);
+
+  const formatMessage = useCallback((msg: ChatMessageRecord): Message => ({
+    id: msg.id,
+    content: msg.text,
+    sender: msg.from === role ? 'user' : 'other',
+    timestamp: new Date(msg.timestamp),
+    anonymousId: msg.from === 'student' ? studentName : facultyName,
+    type: msg.type || 'text',
+    attachment: msg.attachment,
+    editedAt: msg.editedAt ? new Date(msg.editedAt) : null,
+    deletedAt: msg.deletedAt ? new Date(msg.deletedAt) : null,
+    isAutoReply: msg.isAutoReply,
+    status: msg.status
+  }), [role, studentName, facultyName]);
+
+  const formatQueuedMessage = useCallback((entry: QueuedMessage): Message => ({
+    id: entry.id,
+    content: entry.text,
+    sender: 'user',
+    timestamp: new Date(entry.timestamp),
+    anonymousId: ownName,
+    type: entry.type,
+    attachment: entry.attachment,
+    status: entry.status
+  }), [ownName]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -94,16 +280,9 @@ const ChatBox: React.FC<ChatBoxProps> = ({ role, threadId, recipientId, onNewMes
           const { data: chatMessages, error } = await getChatMessages(threadId);
           
           if (chatMessages && !error) {
-            const formattedMessages: Message[] = chatMessages.map((msg: any) => ({
-              id: msg.id,
-              content: msg.text,
-              sender: msg.from === role ? 'user' : 'other',
-              timestamp: new Date(msg.timestamp),
-              anonymousId: msg.from === 'student' ? 'Student#128' : 'Faculty#42',
-              type: msg.type || 'text',
-              status: 'read'
-            }));
-            setMessages(formattedMessages);
+            // Unsent messages from an earlier visit are still waiting in the outbox
+            const { data: queued } = await getQueuedMessages(threadId);
+            setMessages((queued || []).map(formatQueuedMessage).reduce(mergeMessage, chatMessages.map(formatMessage)));
           } else {
             // Initialize with sample messages if no data
             const sampleMessages: Message[] = [
@@ -137,79 +316,472 @@ const ChatBox: React.FC<ChatBoxProps> = ({ role, threadId, recipientId, onNewMes
     };
 
     loadMessages();
-  }, [threadId, user, role]);
+  }, [threadId, user, role, formatMessage, formatQueuedMessage]);
+
+  // Record receipts for the other party's messages: read while this thread
+  // is actually on screen, otherwise only delivered
+  const updateReceipts = useCallback(async () => {
+    if (!threadId || !user) return;
+
+    try {
+      if (document.visibilityState === 'visible') {
+        await markMessagesAsRead(threadId);
+      } else {
+        await markMessagesAsDelivered(threadId);
+      }
+    } catch (error) {
+      console.error('Error updating message receipts:', error);
+    }
+  }, [threadId, user]);
 
-  // Mark messages as read when chat is opened
   useEffect(() => {
-    const markAsRead = async () => {
-      if (threadId && user) {
-        try {
-          await markMessagesAsRead(threadId, role);
-        } catch (error) {
-          console.error('Error marking messages as read:', error);
+    updateReceipts();
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        updateReceipts();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [updateReceipts]);
+
+  // Live updates: push new messages from the other party into the thread
+  useEffect(() => {
+    if (!threadId || !user || !isValidUUID(threadId)) return;
+
+    let hasDisconnected = false;
+
+    // After a drop, fetch the latest page to pick up anything missed
+    const catchUp = async () => {
+      const { data: latest, error } = await getChatMessages(threadId);
+      if (latest && !error) {
+        setMessages(prev => latest.map(formatMessage).reduce(mergeMessage, prev));
+      }
+    };
+
+    const unsubscribe = subscribeToChatMessages(threadId, {
+      onInsert: (msg: ChatMessageRecord) => {
+        const incoming = formatMessage(msg);
+        setMessages(prev => mergeMessage(prev, incoming));
+
+        if (incoming.sender === 'other') {
+          setOtherUserTyping(null);
+          updateReceipts();
+          if (onNewMessageRef.current) {
+            onNewMessageRef.current(incoming.content);
+          }
+        }
+      },
+      onUpdate: (msg: ChatMessageRecord) => {
+        setMessages(prev => mergeMessage(prev, formatMessage(msg)));
+      },
+      onStatusChange: (status: string) => {
+        if (status === 'SUBSCRIBED' && hasDisconnected) {
+          hasDisconnected = false;
+          catchUp();
+        } else if (status !== 'SUBSCRIBED') {
+          hasDisconnected = true;
         }
       }
+    });
+
+    return unsubscribe;
+  }, [threadId, user, formatMessage, updateReceipts]);
+
+  // Outbox: queued sends are retried with backoff and survive a reload
+  useEffect(() => {
+    if (!threadId || !user) return;
+
+    // Only messages still waiting on the outbox change state here
+    const setUnsentStatus = (id: string, status: 'pending' | 'failed') => {
+      setMessages(prev => prev.map(msg => 
+        msg.id === id && statusRank[msg.status] === 0 ? { ...msg, status } : msg
+      ));
     };
 
-    markAsRead();
-  }, [threadId, user, role]);
+    const outbox: OutboxSync = startOutboxSync(threadId, {
+      onSent: ({ entry, message }: OutboxResult) => {
+        const sent = message
+          ? formatMessage(message)
+          : { ...formatQueuedMessage(entry), status: 'sent' as const };
+        setMessages(prev => mergeMessage(prev, sent));
 
-  const handleSendMessage = async () => {
-    if (!newMessage.trim() || !user || !threadId) return;
+        // Call parent callback
+        if (onNewMessageRef.current) {
+          onNewMessageRef.current(entry.text);
+        }
+      },
+      onPending: ({ entry }: OutboxResult) => setUnsentStatus(entry.id, 'pending'),
+      onFailed: ({ entry }: OutboxResult) => {
+        setUnsentStatus(entry.id, 'failed');
+        if (entry.lastError) {
+          setComposerError(entry.lastError);
+        }
+      }
+    });
+    outboxRef.current = outbox;
+
+    return () => {
+      outbox.stop();
+      outboxRef.current = null;
+    };
+  }, [threadId, user, formatMessage, formatQueuedMessage]);
+
+  // Reactions: load the thread's reactions and follow changes from both sides
+  useEffect(() => {
+    if (!threadId || !user) return;
+
+    let hasDisconnected = false;
+
+    const loadReactions = async () => {
+      const { data, error } = await getChatReactions(threadId);
+      if (data && !error) {
+        setReactions(data);
+      }
+    };
+
+    setReactions([]);
+    loadReactions();
+
+    const isSameReaction = (a: Reaction, b: Reaction) =>
+      a.id === b.id || (a.messageId === b.messageId && a.from === b.from && a.emoji === b.emoji);
+
+    const unsubscribe = subscribeToReactions(threadId, {
+      onAdd: (reaction: Reaction) => {
+        setReactions(prev => prev.some(r => isSameReaction(r, reaction)) ? prev : [...prev, reaction]);
+      },
+      // Removals from any chat arrive here; only ids loaded for this one match
+      onRemove: (reactionId: string) => {
+        setReactions(prev => prev.filter(r => r.id !== reactionId));
+      },
+      onStatusChange: (status: string) => {
+        if (status === 'SUBSCRIBED' && hasDisconnected) {
+          hasDisconnected = false;
+          loadReactions();
+        } else if (status !== 'SUBSCRIBED') {
+          hasDisconnected = true;
+        }
+      }
+    });
+
+    return unsubscribe;
+  }, [threadId, user]);
+
+  // The user's own reports in this thread, and word back when one is resolved
+  useEffect(() => {
+    if (!threadId || !user) return;
+
+    setMyReports([]);
+    getMyReports(user.id, threadId).then(({ data }: { data: MessageReport[] | null }) => {
+      if (data) {
+        setMyReports(data);
+      }
+    });
+
+    return subscribeToMyReports(user.id, (report: MessageReport & { chat_id: string | null }) => {
+      if (report.chat_id !== threadId) return;
+
+      setMyReports(prev => prev.map(r => r.id === report.id ? report : r));
+      if (report.resolved) {
+        setReportNotice(
+          `A moderator has reviewed your report${report.resolution_note ? `: ${report.resolution_note}` : '.'}`
+        );
+      }
+    });
+  }, [threadId, user]);
+
+  // Moderator warnings about this thread, until the user dismisses them
+  useEffect(() => {
+    if (!threadId || !user) return;
+
+    setWarnings([]);
+    getMyWarnings(user.id, threadId).then(({ data }: { data: UserWarning[] | null }) => {
+      if (data) {
+        setWarnings(data);
+      }
+    });
+  }, [threadId, user]);
+
+  const handleDismissWarning = async (warningId: string) => {
+    setWarnings(prev => prev.filter(warning => warning.id !== warningId));
+    await acknowledgeWarning(warningId);
+  };
+
+  // Identity reveal state for this thread, kept current for both sides
+  const loadIdentityReveal = useCallback(async () => {
+    if (!threadId) return;
+
+    const { data } = await getIdentityReveal(threadId);
+    if (data) {
+      setIdentityReveal(data.reveal);
+      setRevealedIdentity(data.identity);
+    }
+  }, [threadId]);
+
+  useEffect(() => {
+    if (!threadId || !user) return;
+
+    setIdentityReveal(null);
+    setRevealedIdentity(null);
+    setRevealFields(null);
+    loadIdentityReveal();
 
+    if (!isValidUUID(threadId)) return;
+
+    return subscribeToIdentityReveal(threadId, loadIdentityReveal);
+  }, [threadId, user, loadIdentityReveal]);
+
+  const runRevealStep = async (step: () => Promise<{ error: { message: string } | null }>) => {
+    setIsRevealSaving(true);
+    try {
+      const { error } = await step();
+      if (error) {
+        alert(error.message);
+        return false;
+      }
+      await loadIdentityReveal();
+      return true;
+    } finally {
+      setIsRevealSaving(false);
+    }
+  };
+
+  const handleRequestReveal = () => {
+    if (!threadId) return;
+
+    const note = window.prompt('Ask the student to reveal their identity. They can decline. Add a reason (optional):', '');
+    if (note === null) return;
+
+    runRevealStep(() => requestIdentityReveal(threadId, note));
+  };
+
+  const handleToggleRevealField = (field: RevealField) => {
+    setRevealFields(prev => prev && (prev.includes(field) ? prev.filter(f => f !== field) : [...prev, field]));
+  };
+
+  const handleConfirmReveal = async () => {
+    if (!threadId || !revealFields?.length) return;
+
+    if (await runRevealStep(() => revealIdentity(threadId, revealFields))) {
+      setRevealFields(null);
+    }
+  };
+
+  const handleDeclineReveal = () => {
+    if (!threadId) return;
+
+    runRevealStep(() => declineIdentityReveal(threadId));
+  };
+
+  const handleRevokeReveal = () => {
+    if (!threadId) return;
+    if (!window.confirm('Stop sharing your identity in this chat? The faculty member will no longer see it, but may already have noted it.')) return;
+
+    runRevealStep(() => revokeIdentityReveal(threadId));
+  };
+
+  // Typing presence for this thread; only the name shown in this chat is shared
+  useEffect(() => {
+    if (!threadId || !user || !isValidUUID(threadId)) return;
+
+    const typing: TypingSubscription = subscribeToTyping(
+      threadId,
+      { role, anonymousId: ownName },
+      setOtherUserTyping
+    );
+    typingRef.current = typing;
+
+    return () => {
+      if (typingIdleTimerRef.current) {
+        clearTimeout(typingIdleTimerRef.current);
+      }
+      typing.unsubscribe();
+      typingRef.current = null;
+      setOtherUserTyping(null);
+    };
+  }, [threadId, user, role, ownName]);
+
+  const stopTyping = () => {
+    if (typingIdleTimerRef.current) {
+      clearTimeout(typingIdleTimerRef.current);
+      typingIdleTimerRef.current = null;
+    }
+    typingRef.current?.stopTyping();
+  };
+
+  // Muted users can read but not send, edit or delete; the server enforces this too
+  const muteRestriction = user?.restriction?.status === 'muted' &&
+    (!user.restriction.expiresAt || new Date(user.restriction.expiresAt) > new Date())
+    ? user.restriction
+    : null;
+
+  // Show the message right away and hand it to the outbox
+  const sendMessage = async (content: string, type: Message['type'], attachment: Attachment | null = null, piiAcknowledged = false) => {
+    if (!user || !threadId || muteRestriction) return;
+
+    // Client-generated id lets the realtime echo be matched to this message
     const tempMessage: Message = {
-      id: Date.now().toString(),
-      content: newMessage.trim(),
+      id: crypto.randomUUID(),
+      content,
       sender: 'user',
       timestamp: new Date(),
-      anonymousId: user.anonymousId,
-      type: 'text',
+      anonymousId: ownName,
+      type,
+      attachment,
       status: 'sending'
     };
 
     setMessages(prev => [...prev, tempMessage]);
-    const messageText = newMessage.trim();
+
+    // Queue first so the message survives a reload, then try to send it
+    const { error } = await queueMessage({
+      id: tempMessage.id,
+      chatId: threadId,
+      from: role,
+      text: content,
+      type,
+      attachment,
+      timestamp: tempMessage.timestamp.toISOString(),
+      piiAcknowledged
+    });
+
+    if (error) {
+      setMessages(prev => prev.map(msg => 
+        msg.id === tempMessage.id ? { ...msg, status: 'failed' } : msg
+      ));
+      return;
+    }
+
+    await outboxRef.current?.flush();
+  };
+
+  // Run the content filter before a message (or an edit) leaves the browser:
+  // block rules refuse it, warn rules ask the sender to confirm
+  const passesContentFilter = async (content: string, verb: 'sent' | 'saved') => {
+    if (!threadId) return false;
+
+    const { data: verdict } = await checkMessageContent(content);
+    if (!verdict) return true;
+
+    const ruleNames = (action: string) => verdict.decisions
+      .filter((decision: { action: string }) => decision.action === action)
+      .map((decision: { rule_name: string }) => decision.rule_name)
+      .join(', ');
+
+    if (verdict.action === 'block') {
+      await logModerationDecisions(threadId, 'blocked', verdict.decisions);
+      setComposerError(`This message can't be ${verb}: it breaks the community guidelines (${ruleNames('block')}).`);
+      return false;
+    }
+
+    const warnedRules = ruleNames('warn');
+    if (warnedRules && !window.confirm(`This message may break the community guidelines (${warnedRules}). ${verb === 'sent' ? 'Send' : 'Save'} it anyway?`)) {
+      await logModerationDecisions(threadId, 'withdrawn', verdict.decisions);
+      return false;
+    }
+
+    return true;
+  };
+
+  const handleSendMessage = async () => {
+    if (!newMessage.trim() || !user || !threadId) return;
+
+    const content = newMessage.trim();
+    setComposerError('');
+
+    if (!await passesContentFilter(content, 'sent')) return;
+
+    // Personal details: let the sender redact them, send anyway or edit
+    const { data: piiMatches } = await detectPII(content);
+    if (piiMatches && piiMatches.length > 0) {
+      setPiiWarning({ content, matches: piiMatches });
+      return;
+    }
+
+    await sendComposedMessage(content);
+  };
+
+  const sendComposedMessage = async (content: string, piiAcknowledged = false) => {
     setNewMessage('');
+    setPiiWarning(null);
+    stopTyping();
     
     // Auto-resize textarea
     if (textareaRef.current) {
       textareaRef.current.style.height = 'auto';
     }
 
-    try {
-      // Send to Supabase
-      const { data, error } = await appendMessage({
-        chatId: threadId,
-        from: role,
-        text: messageText
-      });
+    await sendMessage(content, 'text', null, piiAcknowledged);
+  };
 
-      if (data && !error) {
-        // Update message status to sent
-        setMessages(prev => prev.map(msg => 
-          msg.id === tempMessage.id ? { ...msg, status: 'sent' } : msg
-        ));
+  const handleSendWithPII = async (redact: boolean) => {
+    if (!piiWarning) return;
 
-        // Call parent callback
-        if (onNewMessage) {
-          onNewMessage(messageText);
-        }
+    const { content, matches } = piiWarning;
+    await sendComposedMessage(redact ? redactPII(content, matches) : content, true);
+  };
 
-        // Simulate delivery status update
-        setTimeout(() => {
-          setMessages(prev => prev.map(msg => 
-            msg.id === tempMessage.id ? { ...msg, status: 'delivered' } : msg
-          ));
-        }, 1000);
-      } else {
-        console.error('Error sending message:', error);
-        // Update message status to failed (you could add this status)
-        setMessages(prev => prev.map(msg => 
-          msg.id === tempMessage.id ? { ...msg, status: 'sent' } : msg
-        ));
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again after an error
+    e.target.value = '';
+    if (!file || !user || !threadId) return;
+
+    const validationError = validateAttachment(file);
+    if (validationError) {
+      setComposerError(validationError);
+      return;
+    }
+
+    setComposerError('');
+    setIsUploading(true);
+    try {
+      const { data: attachment, error } = await uploadAttachment(threadId, file);
+      if (error || !attachment) {
+        setComposerError(error?.message || 'Failed to upload attachment');
+        return;
       }
-    } catch (error) {
-      console.error('Error sending message:', error);
+
+      // The body is only the chat preview; the file's own name is never sent
+      const { type, ...stored } = attachment;
+      await sendMessage(type === 'image' ? 'Sent an image' : 'Sent a file', type, stored);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  // Retry with the same id so a send that did reach the server isn't duplicated
+  const handleRetryMessage = async (messageId: string) => {
+    const failedMessage = messages.find(msg => msg.id === messageId && msg.status === 'failed');
+    if (!failedMessage || !threadId) return;
+
+    setMessages(prev => prev.map(msg => 
+      msg.id === messageId ? { ...msg, status: 'sending' } : msg
+    ));
+    await requeueMessage({
+      id: failedMessage.id,
+      chatId: threadId,
+      from: role,
+      text: failedMessage.content,
+      type: failedMessage.type,
+      attachment: failedMessage.attachment,
+      timestamp: failedMessage.timestamp.toISOString(),
+      // Already checked in the composer before the first attempt
+      piiAcknowledged: true
+    });
+    await outboxRef.current?.flush({ force: true });
+  };
+
+  // Give up on a failed message: drop it from the thread and the outbox
+  const handleDiscardMessage = async (messageId: string) => {
+    setMessages(prev => prev.filter(msg => !(msg.id === messageId && msg.status === 'failed')));
+    setComposerError('');
+
+    const { error } = await discardMessage(messageId);
+    if (error) {
+      setComposerError(error.message);
     }
   };
 
@@ -220,26 +792,165 @@ const ChatBox: React.FC<ChatBoxProps> = ({ role, threadId, recipientId, onNewMes
     }
   };
 
+  const canEditMessage = (message: Message) =>
+    message.sender === 'user' &&
+    !muteRestriction &&
+    message.type === 'text' &&
+    !message.deletedAt &&
+    statusRank[message.status] > 0 &&
+    Date.now() - message.timestamp.getTime() < MESSAGE_EDIT_WINDOW_MS;
+
+  const handleStartEdit = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditText(message.content);
+  };
+
+  const handleCancelEdit = () => {
+    setEditingMessageId(null);
+    setEditText('');
+    setEditPiiWarning(null);
+  };
+
+  // Edits get the same content filter and personal details check as new messages
+  const handleSaveEdit = async () => {
+    const original = messages.find(msg => msg.id === editingMessageId);
+    const text = editText.trim();
+    if (!original || !text || text === original.content) {
+      handleCancelEdit();
+      return;
+    }
+
+    setComposerError('');
+    if (!await passesContentFilter(text, 'saved')) return;
+
+    const { data: piiMatches } = await detectPII(text);
+    if (piiMatches && piiMatches.length > 0) {
+      setEditPiiWarning({ messageId: original.id, content: text, matches: piiMatches });
+      return;
+    }
+
+    await saveEdit(original, text);
+  };
+
+  const handleSaveEditWithPII = async (redact: boolean) => {
+    const original = messages.find(msg => msg.id === editPiiWarning?.messageId);
+    if (!editPiiWarning || !original) return;
+
+    const { content, matches } = editPiiWarning;
+    await saveEdit(original, redact ? redactPII(content, matches) : content, true);
+  };
+
+  const saveEdit = async (original: Message, text: string, piiAcknowledged = false) => {
+    handleCancelEdit();
+
+    setMessages(prev => prev.map(msg => 
+      msg.id === original.id ? { ...msg, content: text, editedAt: new Date() } : msg
+    ));
+
+    const { error } = await editMessage(original.id, text, { piiAcknowledged });
+    if (error) {
+      setMessages(prev => prev.map(msg => msg.id === original.id ? original : msg));
+
+      // The database found a name; it doesn't say which, so just ask
+      if (error.code === PII_DETECTED_ERROR && !piiAcknowledged && window.confirm(`${error.message}. Save it anyway?`)) {
+        await saveEdit(original, text, true);
+        return;
+      }
+
+      setComposerError(error.message || 'Failed to edit message');
+    }
+  };
+
+  // Deleted messages stay in the thread as "Message deleted"
+  const handleDeleteMessage = async (messageId: string) => {
+    const original = messages.find(msg => msg.id === messageId);
+    const prompt = original?.attachment
+      ? 'Delete this message and its file for everyone? Moderators can still see the file.'
+      : 'Delete this message for everyone?';
+    if (!original || !window.confirm(prompt)) return;
+
+    setMessages(prev => prev.map(msg => 
+      msg.id === messageId ? { ...msg, content: '', attachment: null, type: 'text', deletedAt: new Date() } : msg
+    ));
+
+    const { error } = await deleteMessage(messageId);
+    if (error) {
+      setMessages(prev => prev.map(msg => msg.id === messageId ? original : msg));
+      setComposerError(error.message || 'Failed to delete message');
+    }
+  };
+
+  // Add the participant's reaction, or take it back if it's already there
+  const handleToggleReaction = async (messageId: string, emoji: string) => {
+    if (!threadId) return;
+    setReactionPickerFor(null);
+
+    const existing = reactions.find(r => r.messageId === messageId && r.from === role && r.emoji === emoji);
+
+    if (existing) {
+      setReactions(prev => prev.filter(r => r !== existing));
+      const { error } = await removeReaction({ messageId, from: role, emoji });
+      if (error) {
+        setReactions(prev => [...prev, existing]);
+      }
+      return;
+    }
+
+    const reaction: Reaction = { id: crypto.randomUUID(), messageId, chatId: threadId, from: role, emoji };
+    setReactions(prev => [...prev, reaction]);
+    const { error } = await addReaction(reaction);
+    if (error) {
+      setReactions(prev => prev.filter(r => r.id !== reaction.id));
+    }
+  };
+
+  // Insert at the cursor so the emoji lands where the user is typing
+  const handleInsertEmoji = (emoji: string) => {
+    const textarea = textareaRef.current;
+    const start = textarea ? textarea.selectionStart : newMessage.length;
+    const end = textarea ? textarea.selectionEnd : newMessage.length;
+    const value = newMessage.slice(0, start) + emoji + newMessage.slice(end);
+
+    handleInputChange(value);
+    setShowEmojiPicker(false);
+
+    requestAnimationFrame(() => {
+      if (textarea) {
+        textarea.focus();
+        textarea.setSelectionRange(start + emoji.length, start + emoji.length);
+      }
+    });
+  };
+
   const handleInputChange = (value: string) => {
     setNewMessage(value);
     
-    // Handle typing indicators (you can implement real-time typing with websockets)
-    if (!isTyping && value.trim()) {
-      setIsTyping(true);
-      // Clear typing indicator after 1 second of no typing
-      setTimeout(() => setIsTyping(false), 1000);
+    if (!value.trim()) {
+      stopTyping();
+      return;
+    }
+
+    // Broadcast (throttled) and stop after a pause in typing
+    typingRef.current?.notifyTyping();
+    if (typingIdleTimerRef.current) {
+      clearTimeout(typingIdleTimerRef.current);
     }
+    typingIdleTimerRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
   };
 
+  const getMessageReport = (messageId: string) => myReports.find(report => report.message_id === messageId);
+
+  // Opens the report form linked to this message
   const handleReportMessage = (messageId: string) => {
-    setMessages(prev => 
-      prev.map(msg => 
-        msg.id === messageId ? { ...msg, reported: true } : msg
-      )
-    );
-    
-    // You can implement reporting functionality here
-    console.log('Message reported:', messageId);
+    if (getMessageReport(messageId)) return;
+
+    setReportingMessageId(messageId);
+    setShowReportModal(true);
+  };
+
+  const handleCloseReportModal = () => {
+    setShowReportModal(false);
+    setReportingMessageId(null);
   };
 
   const handleReportIssue = async () => {
@@ -250,6 +961,7 @@ const ChatBox: React.FC<ChatBoxProps> = ({ role, threadId, recipientId, onNewMes
         reason: reportReason,
         comment: reportComment,
         reportedBy: user?.anonymousId || 'Unknown',
+        messageId: reportingMessageId,
         threadId,
         userRole: role
       });
@@ -257,13 +969,19 @@ const ChatBox: React.FC<ChatBoxProps> = ({ role, threadId, recipientId, onNewMes
       if (error) {
         throw new Error(error.message);
       }
+
+      if (reportingMessageId) {
+        setMyReports(prev => [{ id: data.id, message_id: reportingMessageId, resolved: false }, ...prev]);
+      }
       
       // Reset form and close modal
       setReportReason('');
       setReportComment('');
-      setShowReportModal(false);
+      handleCloseReportModal();
       
-      alert('Issue reported successfully. Our team will review it shortly.');
+      alert(reportingMessageId
+        ? 'Message reported. A moderator will review it and you will be notified here when it is resolved.'
+        : 'Issue reported successfully. Our team will review it shortly.');
     } catch (error) {
       console.error('Error reporting issue:', error);
       alert('Failed to report issue. Please try again.');
@@ -280,9 +998,11 @@ const ChatBox: React.FC<ChatBoxProps> = ({ role, threadId, recipientId, onNewMes
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'sending': return '⏳';
+      case 'pending': return '⏳';
       case 'sent': return '✓';
       case 'delivered': return '✓✓';
       case 'read': return '✓✓';
+      case 'failed': return '⚠';
       default: return '';
     }
   };
@@ -316,10 +1036,13 @@ const ChatBox: React.FC<ChatBoxProps> = ({ role, threadId, recipientId, onNewMes
           </div>
           <div>
             <h3 className="font-orbitron font-semibold text-white text-sm sm:text-base">
-              {role === 'student' ? 'Faculty Support' : 'Anonymous Student'}
+              {role === 'student' ? 'Faculty Support' : revealedIdentity?.name || 'Anonymous Student'}
             </h3>
             <p className="text-xs sm:text-sm text-gray-400">
-              {role === 'student' ? 'Faculty#42' : 'Student#128'} • 
+              {role === 'student' ? facultyName : studentName} • 
+              {role === 'faculty' && revealedIdentity && (
+                <span className="mr-1 text-green-400">{describeIdentity(revealedIdentity)} •</span>
+              )}
               <span className="ml-1" style={{ color: theme.primary }}>Online</span>
             </p>
           </div>
@@ -332,6 +1055,35 @@ const ChatBox: React.FC<ChatBoxProps> = ({ role, threadId, recipientId, onNewMes
           <button className="p-2 hover:bg-gray-700/50 rounded-lg transition-colors">
             <MoreVertical className="w-3 h-3 sm:w-4 sm:h-4 text-gray-400" />
           </button>
+          {role === 'student' ? (
+            identityReveal?.status === 'revealed' ? (
+              <button
+                onClick={handleRevokeReveal}
+                disabled={isRevealSaving}
+                className="p-2 hover:bg-gray-700/50 rounded-lg transition-colors text-green-400 hover:text-green-300 disabled:opacity-50"
+                title="Stop sharing your identity"
+              >
+                <EyeOff className="w-3 h-3 sm:w-4 sm:h-4" />
+              </button>
+            ) : (
+              <button
+                onClick={() => setRevealFields([])}
+                className="p-2 hover:bg-gray-700/50 rounded-lg transition-colors text-gray-400 hover:text-white"
+                title="Reveal your identity"
+              >
+                <UserCheck className="w-3 h-3 sm:w-4 sm:h-4" />
+              </button>
+            )
+          ) : (
+            <button
+              onClick={handleRequestReveal}
+              disabled={isRevealSaving || identityReveal?.status === 'requested' || identityReveal?.status === 'revealed'}
+              className="p-2 hover:bg-gray-700/50 rounded-lg transition-colors text-gray-400 hover:text-white disabled:opacity-50"
+              title={identityReveal?.status === 'revealed' ? 'The student has shared their identity' : identityReveal?.status === 'requested' ? 'Reveal requested' : 'Ask the student to reveal their identity'}
+            >
+              <UserCheck className="w-3 h-3 sm:w-4 sm:h-4" />
+            </button>
+          )}
           <button 
             onClick={() => setShowReportModal(true)}
             className="p-2 hover:bg-gray-700/50 rounded-lg transition-colors text-yellow-400 hover:text-yellow-300"
@@ -351,6 +1103,116 @@ const ChatBox: React.FC<ChatBoxProps> = ({ role, threadId, recipientId, onNewMes
         </div>
       </div>
 
+      {/* Moderator warnings */}
+      {warnings.map(warning => (
+        <div
+          key={warning.id}
+          className="flex items-start gap-2 px-3 sm:px-4 py-2 bg-yellow-900/30 border-b border-yellow-700/40 text-xs sm:text-sm text-yellow-200"
+        >
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span className="flex-1">A moderator has warned you about this chat: {warning.reason}</span>
+          <button
+            onClick={() => handleDismissWarning(warning.id)}
+            className="p-0.5 hover:text-white transition-colors"
+            title="Dismiss"
+          >
+            <X className="w-3 h-3 sm:w-4 sm:h-4" />
+          </button>
+        </div>
+      ))}
+
+      {/* Identity reveal */}
+      {revealFields ? (
+        <div className="px-3 sm:px-4 py-3 bg-blue-900/30 border-b border-blue-700/40 text-xs sm:text-sm text-blue-100 space-y-2">
+          <p>Choose what to share with the faculty member in this chat. Nobody else will see it, and you can stop sharing at any time.</p>
+          <div className="flex flex-wrap gap-4">
+            {REVEAL_FIELDS.map((field: RevealField) => (
+              <label key={field} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={revealFields.includes(field)}
+                  onChange={() => handleToggleRevealField(field)}
+                />
+                {REVEAL_FIELD_LABELS[field]}
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setRevealFields(null)}
+              className="px-3 py-1 rounded-lg bg-gray-700/50 text-gray-300 hover:text-white transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleConfirmReveal}
+              disabled={isRevealSaving || revealFields.length === 0}
+              className="px-3 py-1 rounded-lg bg-blue-600/30 text-blue-200 border border-blue-600/50 hover:bg-blue-600/40 transition-colors disabled:opacity-50"
+            >
+              Share
+            </button>
+          </div>
+        </div>
+      ) : identityReveal && (role === 'student' || identityReveal.status !== 'revealed') && (
+        <div className="flex items-start gap-2 px-3 sm:px-4 py-2 bg-blue-900/30 border-b border-blue-700/40 text-xs sm:text-sm text-blue-100">
+          <UserCheck className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span className="flex-1">
+            {role === 'student' ? (
+              identityReveal.status === 'requested'
+                ? `The faculty member asked you to reveal your identity${identityReveal.request_note ? `: “${identityReveal.request_note}”` : ''}. Nothing is shared unless you choose to.`
+                : identityReveal.status === 'revealed'
+                  ? `You're sharing your ${identityReveal.fields.map(field => REVEAL_FIELD_LABELS[field].toLowerCase()).join(' and ')} in this chat.`
+                  : identityReveal.status === 'declined' ? 'You declined to reveal your identity.' : 'You stopped sharing your identity.'
+            ) : (
+              identityReveal.status === 'requested'
+                ? 'You asked the student to reveal their identity. They may decline.'
+                : identityReveal.status === 'declined' ? 'The student declined to reveal their identity.' : 'The student stopped sharing their identity.'
+            )}
+          </span>
+          {role === 'student' && identityReveal.status === 'requested' && (
+            <>
+              <button
+                onClick={() => setRevealFields([])}
+                className="px-2 py-0.5 rounded bg-blue-600/30 hover:bg-blue-600/40 transition-colors"
+              >
+                Choose what to share
+              </button>
+              <button
+                onClick={handleDeclineReveal}
+                disabled={isRevealSaving}
+                className="px-2 py-0.5 rounded bg-gray-700/50 hover:text-white transition-colors disabled:opacity-50"
+              >
+                Decline
+              </button>
+            </>
+          )}
+          {role === 'student' && identityReveal.status === 'revealed' && (
+            <button
+              onClick={handleRevokeReveal}
+              disabled={isRevealSaving}
+              className="px-2 py-0.5 rounded bg-gray-700/50 hover:text-white transition-colors disabled:opacity-50"
+            >
+              Stop sharing
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Report resolution notice */}
+      {reportNotice && (
+        <div className="flex items-start gap-2 px-3 sm:px-4 py-2 bg-green-900/30 border-b border-green-700/40 text-xs sm:text-sm text-green-200">
+          <Flag className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span className="flex-1">{reportNotice}</span>
+          <button
+            onClick={() => setReportNotice('')}
+            className="p-0.5 hover:text-white transition-colors"
+            title="Dismiss"
+          >
+            <X className="w-3 h-3 sm:w-4 sm:h-4" />
+          </button>
+        </div>
+      )}
+
       {/* Messages Area */}
       <div className="flex-1 overflow-y-auto p-3 sm:p-4 space-y-3 sm:space-y-4 scrollbar-thin scrollbar-thumb-gray-600 scrollbar-track-gray-800">
         {messages.map((message) => (
@@ -372,23 +1234,117 @@ const ChatBox: React.FC<ChatBoxProps> = ({ role, threadId, recipientId, onNewMes
                   borderColor: message.sender === 'other' ? theme.primary : 'transparent'
                 }}
               >
-                <p className="text-xs sm:text-sm leading-relaxed">{message.content}</p>
+                {message.deletedAt ? (
+                  <p className="text-xs sm:text-sm italic opacity-70">Message deleted</p>
+                ) : editingMessageId === message.id ? (
+                  <div className="flex flex-col gap-2 min-w-[12rem]">
+                    <textarea
+                      value={editText}
+                      onChange={(e) => setEditText(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault();
+                          handleSaveEdit();
+                        } else if (e.key === 'Escape') {
+                          handleCancelEdit();
+                        }
+                      }}
+                      className="w-full bg-black/30 border border-white/20 rounded px-2 py-1 text-xs sm:text-sm text-white resize-none focus:outline-none"
+                      rows={Math.min(editText.split('\n').length, 6)}
+                      maxLength={2000}
+                      autoFocus
+                    />
+                    {/* Personal details warning, until the edit is changed */}
+                    {editPiiWarning && editPiiWarning.messageId === message.id && editPiiWarning.content === editText.trim() && (
+                      <PIIWarningPanel
+                        content={editPiiWarning.content}
+                        matches={editPiiWarning.matches}
+                        onEdit={() => setEditPiiWarning(null)}
+                        onSend={handleSaveEditWithPII}
+                        sendLabel="Save"
+                      />
+                    )}
+                    <div className="flex justify-end gap-2 text-xs">
+                      <button onClick={handleCancelEdit} className="px-2 py-0.5 rounded hover:bg-black/20 transition-colors">
+                        Cancel
+                      </button>
+                      <button onClick={handleSaveEdit} className="px-2 py-0.5 rounded bg-black/30 hover:bg-black/40 transition-colors">
+                        Save
+                      </button>
+                    </div>
+                  </div>
+                ) : message.attachment && message.type !== 'text' ? (
+                  <MessageAttachment attachment={message.attachment} type={message.type} />
+                ) : (
+                  <MessageContent text={message.content} className="text-xs sm:text-sm leading-relaxed" />
+                )}
                 
-                {/* Message Actions - Only for other user's messages */}
-                {message.sender === 'other' && (
-                  <div className="opacity-0 group-hover:opacity-100 absolute -top-2 right-2 flex gap-1 transition-opacity">
+                {/* Message Actions - reactions once stored, edit/delete for own messages, reporting for the other user's */}
+                {statusRank[message.status] > 0 && !message.deletedAt && editingMessageId !== message.id && (
+                  <div className={`opacity-0 group-hover:opacity-100 absolute -top-2 ${message.sender === 'user' ? 'left-2' : 'right-2'} flex gap-1 transition-opacity`}>
                     <button
-                      onClick={() => handleReportMessage(message.id)}
-                      className={`p-1 bg-gray-800 rounded text-xs hover:bg-gray-700 transition-colors ${
-                        message.reported ? 'text-red-400' : 'text-gray-400'
-                      }`}
-                      title={message.reported ? 'Message reported' : 'Report message'}
+                      onClick={() => setReactionPickerFor(reactionPickerFor === message.id ? null : message.id)}
+                      className="p-1 bg-gray-800 rounded text-xs text-gray-400 hover:bg-gray-700 transition-colors"
+                      title="React"
                     >
-                      <Flag className="w-2 h-2 sm:w-3 sm:h-3" />
+                      <Smile className="w-2 h-2 sm:w-3 sm:h-3" />
                     </button>
+                    {canEditMessage(message) && (
+                      <button
+                        onClick={() => handleStartEdit(message)}
+                        className="p-1 bg-gray-800 rounded text-xs text-gray-400 hover:bg-gray-700 transition-colors"
+                        title="Edit message"
+                      >
+                        <Pencil className="w-2 h-2 sm:w-3 sm:h-3" />
+                      </button>
+                    )}
+                    {message.sender === 'user' && !muteRestriction && (
+                      <button
+                        onClick={() => handleDeleteMessage(message.id)}
+                        className="p-1 bg-gray-800 rounded text-xs text-gray-400 hover:bg-gray-700 hover:text-red-400 transition-colors"
+                        title="Delete message"
+                      >
+                        <Trash2 className="w-2 h-2 sm:w-3 sm:h-3" />
+                      </button>
+                    )}
+                    {message.sender === 'other' && (
+                      <button
+                        onClick={() => handleReportMessage(message.id)}
+                        className={`p-1 bg-gray-800 rounded text-xs hover:bg-gray-700 transition-colors ${
+                          getMessageReport(message.id)?.resolved ? 'text-green-400' : getMessageReport(message.id) ? 'text-red-400' : 'text-gray-400'
+                        }`}
+                        title={
+                          getMessageReport(message.id)?.resolved ? 'Report resolved' : getMessageReport(message.id) ? 'Report pending review' : 'Report message'
+                        }
+                      >
+                        <Flag className="w-2 h-2 sm:w-3 sm:h-3" />
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {/* Quick reaction bar */}
+                {reactionPickerFor === message.id && (
+                  <div className={`absolute -top-10 ${message.sender === 'user' ? 'right-0' : 'left-0'} z-10 flex gap-1 p-1 bg-gray-900/95 border border-gray-700 rounded-full shadow-xl`}>
+                    {QUICK_REACTIONS.map(emoji => (
+                      <button
+                        key={emoji}
+                        onClick={() => handleToggleReaction(message.id, emoji)}
+                        className="px-1 text-base rounded-full hover:bg-gray-700/50 hover:scale-125 transition-transform"
+                      >
+                        {emoji}
+                      </button>
+                    ))}
                   </div>
                 )}
               </div>
+
+              <MessageReactions
+                reactions={message.deletedAt ? [] : reactions.filter(r => r.messageId === message.id)}
+                accentColor={theme.primary}
+                role={role}
+                onToggle={(emoji) => handleToggleReaction(message.id, emoji)}
+              />
               
               {/* Timestamp, Anonymous ID, and Status */}
               <div className={`flex items-center gap-2 mt-1 text-xs text-gray-500 ${
@@ -400,12 +1356,44 @@ const ChatBox: React.FC<ChatBoxProps> = ({ role, threadId, recipientId, onNewMes
                   <Clock className="w-2 h-2 sm:w-3 sm:h-3" />
                   {formatTime(message.timestamp)}
                 </span>
+                {message.editedAt && !message.deletedAt && (
+                  <span className="italic" title={`Edited ${formatTime(message.editedAt)}`}>edited</span>
+                )}
+                {message.isAutoReply && (
+                  <span className="italic" title="Sent automatically while the faculty member is unavailable">auto-reply</span>
+                )}
                 {message.sender === 'user' && (
                   <>
                     <span>•</span>
-                    <span className={`${message.status === 'read' ? 'text-blue-400' : 'text-gray-500'}`}>
+                    <span 
+                      className={`${message.status === 'read' ? 'text-blue-400' : message.status === 'failed' ? 'text-red-400' : 'text-gray-500'}`}
+                      title={message.status === 'pending' ? 'Queued - will retry when the connection is back' : message.status}
+                    >
                       {getStatusIcon(message.status)}
                     </span>
+                    {message.status === 'pending' && (
+                      <span className="text-gray-500">Queued</span>
+                    )}
+                    {message.status === 'failed' && (
+                      <button
+                        onClick={() => handleRetryMessage(message.id)}
+                        className="flex items-center gap-1 text-red-400 hover:text-red-300 transition-colors"
+                        title="Retry sending"
+                      >
+                        <RotateCcw className="w-2 h-2 sm:w-3 sm:h-3" />
+                        Retry
+                      </button>
+                    )}
+                    {message.status === 'failed' && (
+                      <button
+                        onClick={() => handleDiscardMessage(message.id)}
+                        className="flex items-center gap-1 text-gray-500 hover:text-red-300 transition-colors"
+                        title="Delete this unsent message"
+                      >
+                        <Trash2 className="w-2 h-2 sm:w-3 sm:h-3" />
+                        Delete
+                      </button>
+                    )}
                   </>
                 )}
               </div>
@@ -423,7 +1411,9 @@ const ChatBox: React.FC<ChatBoxProps> = ({ role, threadId, recipientId, onNewMes
                   <div className="w-1.5 h-1.5 sm:w-2 sm:h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
                   <div className="w-1.5 h-1.5 sm:w-2 sm:h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
                 </div>
-                <span className="text-xs text-gray-500">typing...</span>
+                <span className="text-xs text-gray-500">
+                  <span className="font-mono" style={{ color: theme.accent }}>{otherUserTyping}</span> is typing…
+                </span>
               </div>
             </div>
           </div>
@@ -434,8 +1424,30 @@ const ChatBox: React.FC<ChatBoxProps> = ({ role, threadId, recipientId, onNewMes
 
       {/* Message Input */}
       <div className="p-3 sm:p-4 border-t border-gray-700/50 bg-gray-800/30">
+        {/* Personal details warning, until the text is changed */}
+        {piiWarning && piiWarning.content === newMessage.trim() && (
+          <PIIWarningPanel
+            content={piiWarning.content}
+            matches={piiWarning.matches}
+            onEdit={() => { setPiiWarning(null); textareaRef.current?.focus(); }}
+            onSend={handleSendWithPII}
+          />
+        )}
+
         <div className="flex items-end gap-2 sm:gap-3">
-          <button className="p-2 text-gray-400 hover:text-gray-300 transition-colors">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ALLOWED_ATTACHMENT_TYPES.join(',')}
+            onChange={handleFileSelected}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading || !!muteRestriction}
+            className={`p-2 text-gray-400 hover:text-gray-300 transition-colors disabled:cursor-not-allowed ${isUploading ? 'animate-pulse' : ''}`}
+            title={isUploading ? 'Uploading...' : 'Attach a file or image'}
+          >
             <Paperclip className="w-4 h-4 sm:w-5 sm:h-5" />
           </button>
           
@@ -445,7 +1457,8 @@ const ChatBox: React.FC<ChatBoxProps> = ({ role, threadId, recipientId, onNewMes
               value={newMessage}
               onChange={(e) => handleInputChange(e.target.value)}
               onKeyPress={handleKeyPress}
-              placeholder="Type your message... (Press Enter to send, Shift+Enter for new line)"
+              disabled={!!muteRestriction}
+              placeholder={muteRestriction ? 'Your account is muted' : 'Type your message... (Press Enter to send, Shift+Enter for new line)'}
               className="w-full bg-gray-800/50 border border-gray-600/50 rounded-lg px-3 sm:px-4 py-2 sm:py-3 text-white placeholder-gray-400 resize-none focus:outline-none focus:border-opacity-100 transition-colors scrollbar-thin scrollbar-thumb-gray-600 scrollbar-track-gray-800 text-sm sm:text-base"
               style={{ 
                 borderColor: `${theme.primary}50`,
@@ -463,13 +1476,27 @@ const ChatBox: React.FC<ChatBoxProps> = ({ role, threadId, recipientId, onNewMes
             />
           </div>
 
-          <button className="p-2 text-gray-400 hover:text-gray-300 transition-colors">
-            <Smile className="w-4 h-4 sm:w-5 sm:h-5" />
-          </button>
+          <div className="relative">
+            <button
+              onClick={() => setShowEmojiPicker(!showEmojiPicker)}
+              className="p-2 text-gray-400 hover:text-gray-300 transition-colors"
+              title="Insert emoji"
+            >
+              <Smile className="w-4 h-4 sm:w-5 sm:h-5" />
+            </button>
+            {showEmojiPicker && (
+              <EmojiPicker
+                onSelect={handleInsertEmoji}
+                onClose={() => setShowEmojiPicker(false)}
+                accentColor={theme.primary}
+                className="bottom-full right-0 mb-2"
+              />
+            )}
+          </div>
           
           <button
             onClick={handleSendMessage}
-            disabled={!newMessage.trim()}
+            disabled={!newMessage.trim() || !!muteRestriction}
             className="p-2 sm:p-3 rounded-lg transition-all duration-300 hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
             style={{
               background: newMessage.trim() 
@@ -484,7 +1511,16 @@ const ChatBox: React.FC<ChatBoxProps> = ({ role, threadId, recipientId, onNewMes
         
         {/* Character count and status */}
         <div className="flex justify-between items-center mt-2 text-xs text-gray-500">
-          <span>End-to-end encrypted • Anonymous chat</span>
+          {muteRestriction ? (
+            <span className="text-yellow-400">
+              You are muted{muteRestriction.expiresAt ? ` until ${new Date(muteRestriction.expiresAt).toLocaleString()}` : ''}
+              {muteRestriction.reason ? `: ${muteRestriction.reason}` : ''}
+            </span>
+          ) : composerError ? (
+            <span className="text-red-400">{composerError}</span>
+          ) : (
+            <span>{isUploading ? 'Uploading attachment...' : 'End-to-end encrypted • Anonymous chat'}</span>
+          )}
           <span>{newMessage.length}/2000</span>
         </div>
       </div>
@@ -492,15 +1528,15 @@ const ChatBox: React.FC<ChatBoxProps> = ({ role, threadId, recipientId, onNewMes
       {/* Report Issue Modal */}
       {showReportModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
-          <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={() => setShowReportModal(false)} />
+          <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={handleCloseReportModal} />
           <div className="relative bg-gray-900/95 border border-gray-700 rounded-xl p-6 max-w-md w-full shadow-2xl">
             <div className="flex items-center justify-between mb-4">
               <h3 className="font-orbitron text-lg font-bold text-white flex items-center gap-2">
                 <AlertTriangle className="w-5 h-5 text-yellow-400" />
-                Report Issue
+                {reportingMessageId ? 'Report Message' : 'Report Issue'}
               </h3>
               <button
-                onClick={() => setShowReportModal(false)}
+                onClick={handleCloseReportModal}
                 className="p-1 rounded-lg hover:bg-gray-800 transition-colors"
               >
                 <X className="w-4 h-4 text-gray-400" />
@@ -508,6 +1544,11 @@ const ChatBox: React.FC<ChatBoxProps> = ({ role, threadId, recipientId, onNewMes
             </div>
             
             <div className="space-y-4">
+              {reportingMessageId && (
+                <div className="p-3 bg-gray-800/50 border border-gray-600/50 rounded-lg text-sm text-gray-300 max-h-24 overflow-y-auto">
+                  {messages.find(msg => msg.id === reportingMessageId)?.content}
+                </div>
+              )}
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-2">
                   Issue Type
@@ -543,7 +1584,7 @@ const ChatBox: React.FC<ChatBoxProps> = ({ role, threadId, recipientId, onNewMes
             
             <div className="flex gap-3 mt-6">
               <button
-                onClick={() => setShowReportModal(false)}
+                onClick={handleCloseReportModal}
                 className="flex-1 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
               >
                 Cancel
@@ -1,6 +1,12 @@
-import React, { useState, useEffect } from 'react';
-import { X, User, Shield, Clock, MessageSquare, Flag, Archive, Star } from 'lucide-react';
-import { getChatMessages } from '../lib/database';
+import React, { useState, useEffect, useRef } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import katex from 'katex';
+import highlightTheme from 'highlight.js/styles/github-dark.css?inline';
+import { X, User, Shield, Clock, MessageSquare, Flag, Archive, Star, Download, History } from 'lucide-react';
+import { getChatMessages, getChatReactions, getMessageRevisions } from '../lib/database';
+import MessageAttachment, { Attachment } from './MessageAttachment';
+import MessageReactions, { Reaction } from './MessageReactions';
+import MessageContent from './MessageContent';
 
 interface Message {
   id: string;
@@ -8,17 +14,36 @@ interface Message {
   text: string;
   timestamp: string;
   type?: string;
+  attachment?: Attachment | null;
+  editedAt?: string | null;
+  deletedAt?: string | null;
   status?: string;
 }
 
+// Content of a message before an edit or deletion (see `toRevision`)
+interface MessageRevision {
+  id: string;
+  messageId: string;
+  action: 'edit' | 'delete';
+  text: string;
+  type: string;
+  attachment: Attachment | null;
+  revisedAt: string;
+}
+
 interface ChatViewModalProps {
   isOpen: boolean;
   onClose: () => void;
   chatId: string;
+  /** [student, faculty]; the student's name may be a per-chat alias */
   participants: string[];
+  /** The real account behind an aliased student, shown to admins */
+  studentAccount?: string | null;
   department?: string;
   messageCount?: number;
   createdAt?: string;
+  /** Message to scroll to and outline, e.g. the message a report is about */
+  highlightMessageId?: string | null;
 }
 
 const ChatViewModal: React.FC<ChatViewModalProps> = ({
@@ -26,12 +51,18 @@ const ChatViewModal: React.FC<ChatViewModalProps> = ({
   onClose,
   chatId,
   participants,
+  studentAccount = null,
   department,
   messageCount,
-  createdAt
+  createdAt,
+  highlightMessageId = null
 }) => {
   const [messages, setMessages] = useState<Message[]>([]);
+  const [reactions, setReactions] = useState<Reaction[]>([]);
+  const [revisions, setRevisions] = useState<MessageRevision[]>([]);
+  const [expandedHistoryId, setExpandedHistoryId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const highlightedRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     if (isOpen && chatId) {
@@ -39,10 +70,20 @@ const ChatViewModal: React.FC<ChatViewModalProps> = ({
     }
   }, [isOpen, chatId]);
 
+  useEffect(() => {
+    if (!isLoading && highlightMessageId) {
+      highlightedRef.current?.scrollIntoView({ block: 'center' });
+    }
+  }, [isLoading, highlightMessageId, messages]);
+
   const loadMessages = async () => {
     setIsLoading(true);
     try {
       const { data: chatMessages, error } = await getChatMessages(chatId);
+      const { data: chatReactions } = await getChatReactions(chatId);
+      const { data: chatRevisions } = await getMessageRevisions(chatId);
+      setReactions(chatReactions || []);
+      setRevisions(chatRevisions || []);
       
       if (chatMessages && !error) {
         setMessages(chatMessages);
@@ -98,6 +139,63 @@ const ChatViewModal: React.FC<ChatViewModalProps> = ({
     });
   };
 
+  const getParticipantName = (from: string) => {
+    return (from === 'student' ? participants[0] : participants[1]) ||
+      (from === 'student' ? 'Student#128' : 'Faculty#42');
+  };
+
+  // Standalone HTML transcript, rendered with the same Markdown/code/math
+  // renderer as the modal
+  const handleExportTranscript = () => {
+    const body = renderToStaticMarkup(
+      <>
+        <h1>Chat {chatId}</h1>
+        {department && <p className="meta">{department}</p>}
+        {messages.map(message => (
+          <div key={message.id} className="message">
+            <p className="meta">
+              <strong>{getParticipantName(message.from)}</strong> • {formatTime(message.timestamp)}
+            </p>
+            {message.deletedAt ? (
+              <p><em>Message deleted</em></p>
+            ) : message.attachment ? (
+              <p>📎 {message.attachment.name}</p>
+            ) : (
+              <MessageContent text={message.text} isStatic />
+            )}
+          </div>
+        ))}
+      </>
+    );
+
+    const html = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>AnonBridge chat ${chatId}</title>
+<link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/katex@${katex.version}/dist/katex.min.css">
+<style>
+body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #111; }
+.message { border-bottom: 1px solid #ddd; padding: 0.75rem 0; }
+.meta { color: #666; font-size: 0.85rem; margin: 0 0 0.25rem; }
+pre { background: #0d1117; border-radius: 6px; }
+${highlightTheme}
+</style>
+</head>
+<body>${body}</body>
+</html>`;
+
+    const blob = new Blob([html], { type: 'text/html' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `anonbridge-chat-${chatId}.html`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
   const getParticipantIcon = (from: string) => {
     return from === 'student' ? User : Shield;
   };
@@ -133,6 +231,9 @@ const ChatViewModal: React.FC<ChatViewModalProps> = ({
               {participants.map((participant, index) => (
                 <React.Fragment key={participant}>
                   <span className="text-purple-400 font-mono text-sm">{participant}</span>
+                  {index === 0 && studentAccount && (
+                    <span className="text-gray-500 text-xs" title="Per-chat alias">(alias of <span className="font-mono text-gray-300">{studentAccount}</span>)</span>
+                  )}
                   {index < participants.length - 1 && (
                     <span className="text-gray-500">↔</span>
                   )}
@@ -180,24 +281,71 @@ const ChatViewModal: React.FC<ChatViewModalProps> = ({
           ) : messages.length > 0 ? (
             messages.map((message) => {
               const ParticipantIcon = getParticipantIcon(message.from);
+              const messageRevisions = revisions.filter(r => r.messageId === message.id);
               return (
-                <div key={message.id} className="flex items-start gap-3">
+                <div
+                  key={message.id}
+                  ref={message.id === highlightMessageId ? highlightedRef : undefined}
+                  className={`flex items-start gap-3 ${
+                    message.id === highlightMessageId ? 'p-2 -m-2 rounded-lg ring-2 ring-yellow-400/70 bg-yellow-400/5' : ''
+                  }`}
+                >
                   <div className={`p-2 rounded-full border ${getParticipantColor(message.from)} bg-gray-800/50`}>
                     <ParticipantIcon className={`w-4 h-4 ${getParticipantColor(message.from)}`} />
                   </div>
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2 mb-1">
                       <span className={`font-mono text-sm ${getParticipantColor(message.from)}`}>
-                        {participants.find(p => p.toLowerCase().includes(message.from)) || 
-                         (message.from === 'student' ? 'Student#128' : 'Faculty#42')}
+                        {getParticipantName(message.from)}
                       </span>
                       <span className="text-gray-500 text-xs">
                         {formatTime(message.timestamp)}
                       </span>
+                      {message.editedAt && !message.deletedAt && (
+                        <span className="text-gray-500 text-xs italic">edited</span>
+                      )}
+                      {messageRevisions.length > 0 && (
+                        <button
+                          onClick={() => setExpandedHistoryId(expandedHistoryId === message.id ? null : message.id)}
+                          className="flex items-center gap-1 text-xs text-purple-400 hover:text-purple-300 transition-colors"
+                        >
+                          <History className="w-3 h-3" />
+                          History ({messageRevisions.length})
+                        </button>
+                      )}
                     </div>
                     <div className={`p-3 rounded-lg border ${getMessageBubbleStyle(message.from)}`}>
-                      <p className="text-white text-sm leading-relaxed">{message.text}</p>
+                      {message.deletedAt ? (
+                        <p className="text-gray-400 text-sm italic">Message deleted</p>
+                      ) : message.attachment && (message.type === 'file' || message.type === 'image') ? (
+                        <div className="text-white">
+                          <MessageAttachment attachment={message.attachment} type={message.type} />
+                        </div>
+                      ) : (
+                        <MessageContent text={message.text} className="text-white text-sm leading-relaxed" />
+                      )}
                     </div>
+                    {expandedHistoryId === message.id && (
+                      <div className="mt-2 space-y-2 border-l-2 border-purple-600/50 pl-3">
+                        {messageRevisions.map(revision => (
+                          <div key={revision.id} className="text-sm">
+                            <p className="text-xs text-gray-500 mb-1">
+                              {revision.action === 'delete' ? 'Before deletion' : 'Before edit'} • {formatTime(revision.revisedAt)}
+                            </p>
+                            {revision.attachment && (revision.type === 'file' || revision.type === 'image') ? (
+                              // Files of unsent messages are kept, but only admins can open them
+                              <MessageAttachment attachment={revision.attachment} type={revision.type} />
+                            ) : (
+                              <MessageContent text={revision.text} className="text-gray-300 text-sm leading-relaxed" />
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <MessageReactions
+                      reactions={message.deletedAt ? [] : reactions.filter(r => r.messageId === message.id)}
+                      accentColor="#9ca3af"
+                    />
                   </div>
                 </div>
               );
@@ -226,6 +374,14 @@ const ChatViewModal: React.FC<ChatViewModalProps> = ({
                 <Star className="w-4 h-4" />
                 Pin Chat
               </button>
+              <button
+                onClick={handleExportTranscript}
+                disabled={messages.length === 0}
+                className="flex items-center gap-2 px-3 py-2 bg-green-600/20 text-green-400 border border-green-600/50 rounded-lg hover:bg-green-600/30 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Download className="w-4 h-4" />
+                Export
+              </button>
             </div>
             <div className="text-xs text-gray-500">
               Chat ID: {chatId}
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+
+interface EmojiPickerProps {
+  onSelect: (emoji: string) => void;
+  onClose: () => void;
+  accentColor: string;
+  className?: string;
+}
+
+const EMOJI_CATEGORIES: { label: string; emojis: string[] }[] = [
+  {
+    label: 'Smileys',
+    emojis: ['😀', '😄', '😁', '😂', '🙂', '😉', '😊', '😍', '🤔', '🤨', '😐', '😅', '😮', '😢', '😭', '😤', '😴', '🤯', '🥳', '😎']
+  },
+  {
+    label: 'Gestures',
+    emojis: ['👍', '👎', '👏', '🙌', '🙏', '👋', '✌️', '🤞', '👌', '💪', '🤝', '✋', '👀', '🫡', '🤷', '🙋']
+  },
+  {
+    label: 'Study',
+    emojis: ['📚', '📖', '📝', '✏️', '📎', '📅', '⏰', '💡', '🧠', '🧪', '💻', '📊', '🎓', '✅', '❌', '❓']
+  },
+  {
+    label: 'Symbols',
+    emojis: ['❤️', '🔥', '⭐', '✨', '🎉', '💯', '⚠️', '🚀', '🆗', '➕', '➖', '💬']
+  }
+];
+
+const EmojiPicker: React.FC<EmojiPickerProps> = ({ onSelect, onClose, accentColor, className = '' }) => {
+  const [activeCategory, setActiveCategory] = useState(0);
+
+  return (
+    <>
+      {/* Click-away layer */}
+      <div className="fixed inset-0 z-40" onClick={onClose} />
+      <div className={`absolute z-50 w-64 sm:w-72 bg-gray-900/95 border border-gray-700 rounded-xl shadow-2xl backdrop-blur-sm ${className}`}>
+        <div className="flex border-b border-gray-700/50">
+          {EMOJI_CATEGORIES.map((category, index) => (
+            <button
+              key={category.label}
+              onClick={() => setActiveCategory(index)}
+              className="flex-1 px-2 py-2 text-xs font-medium transition-colors"
+              style={{
+                color: index === activeCategory ? accentColor : '#9ca3af',
+                borderBottom: index === activeCategory ? `2px solid ${accentColor}` : '2px solid transparent'
+              }}
+            >
+              {category.label}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-8 gap-1 p-2 max-h-48 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-600 scrollbar-track-gray-800">
+          {EMOJI_CATEGORIES[activeCategory].emojis.map(emoji => (
+            <button
+              key={emoji}
+              onClick={() => onSelect(emoji)}
+              className="p-1 text-lg rounded hover:bg-gray-700/50 transition-colors"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default EmojiPicker;
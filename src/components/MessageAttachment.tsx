@@ -0,0 +1,80 @@
+import React, { useState, useEffect } from 'react';
+import { FileText, Download, Image as ImageIcon } from 'lucide-react';
+import { getAttachmentUrl } from '../lib/database';
+
+export interface Attachment {
+  path: string;
+  name: string;
+  size: number;
+  mimeType: string;
+}
+
+interface MessageAttachmentProps {
+  attachment: Attachment;
+  type: 'file' | 'image';
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const MessageAttachment: React.FC<MessageAttachmentProps> = ({ attachment, type }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  // Signed URLs are short-lived, so fetch a fresh one whenever the attachment is shown
+  useEffect(() => {
+    let isCurrent = true;
+
+    getAttachmentUrl(attachment.path).then(({ data }: { data: { url: string } | null }) => {
+      if (isCurrent && data) {
+        setUrl(data.url);
+      }
+    });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [attachment.path]);
+
+  if (type === 'image') {
+    return url ? (
+      <a href={url} target="_blank" rel="noopener noreferrer" className="block">
+        <img
+          src={url}
+          alt={attachment.name}
+          className="max-h-48 sm:max-h-64 rounded-md object-contain"
+        />
+      </a>
+    ) : (
+      <div className="w-40 h-28 sm:w-48 sm:h-32 rounded-md bg-black/30 flex items-center justify-center">
+        <ImageIcon className="w-6 h-6 text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-3 p-2 rounded-md bg-black/30 min-w-[12rem]">
+      <FileText className="w-6 h-6 sm:w-8 sm:h-8 flex-shrink-0 text-gray-300" />
+      <div className="flex-1 min-w-0">
+        <p className="text-xs sm:text-sm font-medium truncate">{attachment.name}</p>
+        <p className="text-xs text-gray-400">{formatSize(attachment.size)}</p>
+      </div>
+      {url && (
+        <a
+          href={url}
+          download={attachment.name}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="p-1 rounded hover:bg-white/10 transition-colors"
+          title="Download"
+        >
+          <Download className="w-4 h-4" />
+        </a>
+      )}
+    </div>
+  );
+};
+
+export default MessageAttachment;
@@ -0,0 +1,359 @@
+import React, { useState } from 'react';
+import { Copy, Check } from 'lucide-react';
+import katex from 'katex';
+import hljs from 'highlight.js/lib/core';
+import bash from 'highlight.js/lib/languages/bash';
+import c from 'highlight.js/lib/languages/c';
+import cpp from 'highlight.js/lib/languages/cpp';
+import java from 'highlight.js/lib/languages/java';
+import javascript from 'highlight.js/lib/languages/javascript';
+import json from 'highlight.js/lib/languages/json';
+import python from 'highlight.js/lib/languages/python';
+import sql from 'highlight.js/lib/languages/sql';
+import typescript from 'highlight.js/lib/languages/typescript';
+import xml from 'highlight.js/lib/languages/xml';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github-dark.css';
+
+// Languages students actually paste; anything else is auto-detected among these
+hljs.registerLanguage('bash', bash);
+hljs.registerLanguage('c', c);
+hljs.registerLanguage('cpp', cpp);
+hljs.registerLanguage('java', java);
+hljs.registerLanguage('javascript', javascript);
+hljs.registerLanguage('json', json);
+hljs.registerLanguage('python', python);
+hljs.registerLanguage('sql', sql);
+hljs.registerLanguage('typescript', typescript);
+hljs.registerLanguage('xml', xml);
+
+/*
+ * Supported Markdown subset:
+ *   **bold** / __bold__, *italic* / _italic_, `inline code`, $inline math$,
+ *   "- " / "* " / "1. " lists, ```lang fenced code```, $$display math$$
+ * There is no raw HTML, links or images: everything is rendered as React
+ * elements, and the only injected HTML comes from highlight.js and KaTeX,
+ * which both escape their input.
+ */
+
+type InlineNode =
+  | { type: 'text'; value: string }
+  | { type: 'code'; value: string }
+  | { type: 'math'; value: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'em'; children: InlineNode[] }
+  | { type: 'break' };
+
+type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'code'; language: string; value: string }
+  | { type: 'math'; value: string }
+  | { type: 'list'; ordered: boolean; start: number; items: InlineNode[][] };
+
+const ESCAPABLE = '\\`*_$-#+.!()[]{}';
+
+const UNORDERED_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+const FENCE = /^\s*```\s*([\w+#-]*)\s*$/;
+
+const isSpace = (ch: string | undefined) => ch === undefined || /\s/.test(ch);
+const isWordChar = (ch: string | undefined) => ch !== undefined && /[A-Za-z0-9]/.test(ch);
+
+/**
+ * Find the closing delimiter for emphasis/math: not preceded by whitespace,
+ * so "5 * 3 * 2" and "$5 and $10" stay plain text
+ */
+function findClosing(text: string, marker: string, from: number): number {
+  let index = text.indexOf(marker, from);
+  while (index !== -1) {
+    if (index > from && !isSpace(text[index - 1]) && text[index - 1] !== '\\') {
+      return index;
+    }
+    index = text.indexOf(marker, index + 1);
+  }
+  return -1;
+}
+
+function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+  let i = 0;
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', value: buffer });
+      buffer = '';
+    }
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\\' && ESCAPABLE.includes(text[i + 1] ?? '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === '\n') {
+      flush();
+      nodes.push({ type: 'break' });
+      i += 1;
+      continue;
+    }
+
+    if (ch === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: 'code', value: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (ch === '$' && !isSpace(text[i + 1]) && text[i + 1] !== '$') {
+      const end = findClosing(text, '$', i + 1);
+      if (end !== -1 && !/\d/.test(text[end + 1] ?? '')) {
+        flush();
+        nodes.push({ type: 'math', value: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    const pair = text.slice(i, i + 2);
+    if ((pair === '**' || pair === '__') && !isSpace(text[i + 2])) {
+      const end = findClosing(text, pair, i + 2);
+      if (end !== -1) {
+        flush();
+        nodes.push({ type: 'strong', children: parseInline(text.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    // Underscores inside words (snake_case) are not emphasis
+    if ((ch === '*' || (ch === '_' && !isWordChar(text[i - 1]))) && !isSpace(text[i + 1])) {
+      const end = findClosing(text, ch, i + 1);
+      if (end !== -1 && (ch === '*' || !isWordChar(text[end + 1]))) {
+        flush();
+        nodes.push({ type: 'em', children: parseInline(text.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    buffer += ch;
+    i += 1;
+  }
+
+  flush();
+  return nodes;
+}
+
+function parseBlocks(text: string): BlockNode[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: BlockNode[] = [];
+  let paragraph: string[] = [];
+  let i = 0;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+      paragraph = [];
+    }
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const fence = line.match(FENCE);
+
+    // An unclosed fence runs to the end of the message
+    if (fence) {
+      flushParagraph();
+      const body: string[] = [];
+      i += 1;
+      while (i < lines.length && !/^\s*```\s*$/.test(lines[i])) {
+        body.push(lines[i]);
+        i += 1;
+      }
+      blocks.push({ type: 'code', language: fence[1].toLowerCase(), value: body.join('\n') });
+      i += 1;
+      continue;
+    }
+
+    const trimmed = line.trim();
+    if (trimmed.startsWith('$$')) {
+      const closingOnSameLine = trimmed.length > 4 && trimmed.endsWith('$$');
+      const closeIndex = closingOnSameLine
+        ? i
+        : lines.findIndex((candidate, index) => index > i && candidate.trim().endsWith('$$'));
+
+      if (closeIndex !== -1) {
+        flushParagraph();
+        const value = lines.slice(i, closeIndex + 1).join('\n').trim().slice(2, -2);
+        blocks.push({ type: 'math', value: value.trim() });
+        i = closeIndex + 1;
+        continue;
+      }
+    }
+
+    const unordered = line.match(UNORDERED_ITEM);
+    const ordered = line.match(ORDERED_ITEM);
+    if (unordered || ordered) {
+      flushParagraph();
+      const items: InlineNode[][] = [];
+      const pattern = unordered ? UNORDERED_ITEM : ORDERED_ITEM;
+      while (i < lines.length) {
+        const item = lines[i].match(pattern);
+        if (!item) break;
+        items.push(parseInline(item[item.length - 1]));
+        i += 1;
+      }
+      blocks.push({
+        type: 'list',
+        ordered: !unordered,
+        start: ordered && !unordered ? Number(ordered[1]) : 1,
+        items
+      });
+      continue;
+    }
+
+    if (trimmed === '') {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+    i += 1;
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+function renderMath(value: string, displayMode: boolean): string {
+  return katex.renderToString(value, {
+    displayMode,
+    throwOnError: false,
+    trust: false,
+    strict: 'ignore',
+    maxSize: 20,
+    maxExpand: 500
+  });
+}
+
+function highlightCode(value: string, language: string): string {
+  if (language && hljs.getLanguage(language)) {
+    return hljs.highlight(value, { language, ignoreIllegals: true }).value;
+  }
+  return hljs.highlightAuto(value).value;
+}
+
+const renderInline = (nodes: InlineNode[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.value}</React.Fragment>;
+      case 'break':
+        return <br key={index} />;
+      case 'code':
+        return (
+          <code key={index} className="px-1 py-0.5 rounded bg-black/40 font-mono text-[0.9em]">
+            {node.value}
+          </code>
+        );
+      case 'math':
+        return <span key={index} dangerouslySetInnerHTML={{ __html: renderMath(node.value, false) }} />;
+      case 'strong':
+        return <strong key={index} className="font-bold">{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index} className="italic">{renderInline(node.children)}</em>;
+    }
+  });
+
+interface CodeBlockProps {
+  language: string;
+  value: string;
+  isStatic: boolean;
+}
+
+const CodeBlock: React.FC<CodeBlockProps> = ({ language, value, isStatic }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(value);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying code:', error);
+    }
+  };
+
+  return (
+    <div className="relative my-1 rounded-md bg-black/60 border border-gray-700/50 overflow-hidden">
+      <div className="flex items-center justify-between px-2 py-1 text-[0.7rem] text-gray-400 border-b border-gray-700/50">
+        <span className="font-mono">{language || 'code'}</span>
+        {!isStatic && (
+          <button
+            onClick={handleCopy}
+            className="flex items-center gap-1 hover:text-gray-200 transition-colors"
+            title="Copy code"
+          >
+            {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+        )}
+      </div>
+      <pre className="p-2 overflow-x-auto text-xs leading-snug">
+        <code
+          className="hljs font-mono !bg-transparent !p-0"
+          dangerouslySetInnerHTML={{ __html: highlightCode(value, language) }}
+        />
+      </pre>
+    </div>
+  );
+};
+
+interface MessageContentProps {
+  text: string;
+  className?: string;
+  /** Render without interactive controls (e.g. for exported transcripts) */
+  isStatic?: boolean;
+}
+
+const MessageContent: React.FC<MessageContentProps> = ({ text, className = '', isStatic = false }) => {
+  const blocks = parseBlocks(text);
+
+  return (
+    <div className={`space-y-1 break-words ${className}`}>
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'paragraph':
+            return <p key={index}>{renderInline(block.children)}</p>;
+          case 'code':
+            return <CodeBlock key={index} language={block.language} value={block.value} isStatic={isStatic} />;
+          case 'math':
+            return (
+              <div
+                key={index}
+                className="overflow-x-auto"
+                dangerouslySetInnerHTML={{ __html: renderMath(block.value, true) }}
+              />
+            );
+          case 'list': {
+            const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>);
+            return block.ordered ? (
+              <ol key={index} start={block.start} className="list-decimal pl-5">{items}</ol>
+            ) : (
+              <ul key={index} className="list-disc pl-5">{items}</ul>
+            );
+          }
+        }
+      })}
+    </div>
+  );
+};
+
+export default MessageContent;
@@ -0,0 +1,57 @@
+import React from 'react';
+
+// Reaction shape returned by the database helpers (see `toReaction`)
+export interface Reaction {
+  id: string;
+  messageId: string;
+  chatId: string;
+  from: 'student' | 'faculty';
+  emoji: string;
+}
+
+interface MessageReactionsProps {
+  reactions: Reaction[];
+  accentColor: string;
+  role?: 'student' | 'faculty';
+  onToggle?: (emoji: string) => void;
+}
+
+/**
+ * Reaction chips under a message, one per emoji with its count. Chips are
+ * read-only when no `onToggle` is given (admin view).
+ */
+const MessageReactions: React.FC<MessageReactionsProps> = ({ reactions, accentColor, role, onToggle }) => {
+  if (reactions.length === 0) return null;
+
+  const groups = reactions.reduce<{ emoji: string; count: number; mine: boolean; roles: string[] }[]>((acc, reaction) => {
+    const group = acc.find(g => g.emoji === reaction.emoji);
+    if (group) {
+      group.count += 1;
+      group.mine = group.mine || reaction.from === role;
+      group.roles.push(reaction.from);
+    } else {
+      acc.push({ emoji: reaction.emoji, count: 1, mine: reaction.from === role, roles: [reaction.from] });
+    }
+    return acc;
+  }, []);
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {groups.map(group => (
+        <button
+          key={group.emoji}
+          onClick={onToggle ? () => onToggle(group.emoji) : undefined}
+          disabled={!onToggle}
+          className="flex items-center gap-1 px-1.5 py-0.5 rounded-full text-xs border bg-gray-800/70 transition-colors disabled:cursor-default enabled:hover:bg-gray-700/70"
+          style={{ borderColor: group.mine ? accentColor : 'rgba(75, 85, 99, 0.5)' }}
+          title={`Reacted by ${group.roles.join(', ')}`}
+        >
+          <span>{group.emoji}</span>
+          <span className="text-gray-300">{group.count}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default MessageReactions;
@@ -0,0 +1,310 @@
+import React, { useState, useEffect } from 'react';
+import { Filter, Pencil, Trash2, Plus, X } from 'lucide-react';
+import { getModerationRules, saveModerationRule, deleteModerationRule, getModerationDecisions, CONTENT_RULE_KINDS, CONTENT_RULE_ACTIONS } from '../lib/database';
+
+type RuleKind = 'word_list' | 'regex' | 'score';
+type RuleAction = 'block' | 'warn' | 'flag';
+
+// Row from `moderation_rules`; `config` depends on the kind
+interface ModerationRule {
+  id: string;
+  name: string;
+  kind: RuleKind;
+  config: { words?: string[]; pattern?: string; flags?: string; threshold?: number };
+  action: RuleAction;
+  enabled: boolean;
+  updated_at: string;
+}
+
+// Row from `moderation_decisions`
+interface ModerationDecision {
+  id: string;
+  rule_name: string;
+  action: RuleAction;
+  outcome: 'sent' | 'blocked' | 'withdrawn';
+  sender_role: string | null;
+  matched: string | null;
+  score: number | null;
+  created_at: string;
+}
+
+// Rule being added or edited; the config is edited as text
+interface RuleDraft {
+  id: string | null;
+  name: string;
+  kind: RuleKind;
+  action: RuleAction;
+  configText: string;
+  enabled: boolean;
+}
+
+const EMPTY_DRAFT: RuleDraft = { id: null, name: '', kind: 'word_list', action: 'warn', configText: '', enabled: true };
+
+const KIND_LABELS: Record<RuleKind, string> = {
+  word_list: 'Word list',
+  regex: 'Regex',
+  score: 'Score'
+};
+
+const CONFIG_PLACEHOLDERS: Record<RuleKind, string> = {
+  word_list: 'Comma-separated words or phrases',
+  regex: 'Regular expression (case-insensitive)',
+  score: 'Threshold between 0 and 1, e.g. 0.8'
+};
+
+const getActionStyle = (action: string) => {
+  switch (action) {
+    case 'block': return 'bg-red-500/20 text-red-400';
+    case 'warn': return 'bg-yellow-500/20 text-yellow-400';
+    case 'flag': return 'bg-purple-500/20 text-purple-400';
+    default: return 'bg-gray-500/20 text-gray-400';
+  }
+};
+
+const formatTime = (timestamp: string) => {
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const describeConfig = (rule: ModerationRule) => {
+  switch (rule.kind) {
+    case 'word_list': return (rule.config.words || []).join(', ');
+    case 'regex': return `/${rule.config.pattern || ''}/${rule.config.flags || 'i'}`;
+    case 'score': return `score ≥ ${rule.config.threshold ?? 0.8}`;
+  }
+};
+
+const toConfigText = (rule: ModerationRule) => {
+  switch (rule.kind) {
+    case 'word_list': return (rule.config.words || []).join(', ');
+    case 'regex': return rule.config.pattern || '';
+    case 'score': return String(rule.config.threshold ?? 0.8);
+  }
+};
+
+const toConfig = (kind: RuleKind, configText: string) => {
+  switch (kind) {
+    case 'word_list': return { words: configText.split(',').map(word => word.trim()).filter(Boolean) };
+    case 'regex': return { pattern: configText.trim(), flags: 'i' };
+    case 'score': return { threshold: Number(configText) };
+  }
+};
+
+/**
+ * AdminPanel editor for the content filter: rules run on every outgoing
+ * message, and the most recent decisions they made.
+ */
+const ModerationRulesPanel: React.FC = () => {
+  const [rules, setRules] = useState<ModerationRule[]>([]);
+  const [decisions, setDecisions] = useState<ModerationDecision[]>([]);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadRules = async () => {
+    const [{ data: ruleRows }, { data: decisionRows }] = await Promise.all([
+      getModerationRules(),
+      getModerationDecisions()
+    ]);
+    setRules(ruleRows || []);
+    setDecisions(decisionRows || []);
+  };
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const runStep = async (step: () => Promise<{ error: { message: string } | null }>) => {
+    setIsSaving(true);
+    try {
+      const { error } = await step();
+      if (error) {
+        alert(error.message);
+        return false;
+      }
+      await loadRules();
+      return true;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft || !draft.name.trim() || !draft.configText.trim()) return;
+
+    const config = toConfig(draft.kind, draft.configText);
+    if (draft.kind === 'score' && !(Number(config.threshold) > 0 && Number(config.threshold) <= 1)) {
+      alert('The threshold must be between 0 and 1');
+      return;
+    }
+
+    const saved = await runStep(() => saveModerationRule({
+      id: draft.id,
+      name: draft.name,
+      kind: draft.kind,
+      config,
+      action: draft.action,
+      enabled: draft.enabled
+    }));
+    if (saved) {
+      setDraft(null);
+    }
+  };
+
+  const handleToggleRule = (rule: ModerationRule) => {
+    runStep(() => saveModerationRule({ ...rule, enabled: !rule.enabled }));
+  };
+
+  const handleDeleteRule = (rule: ModerationRule) => {
+    if (!window.confirm(`Delete the rule "${rule.name}"? Its logged decisions are kept.`)) return;
+
+    runStep(() => deleteModerationRule(rule.id));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        {rules.map((rule) => (
+          <div
+            key={rule.id}
+            className={`bg-gray-700/30 border border-gray-600/30 rounded-lg p-3 sm:p-4 flex flex-col sm:flex-row sm:items-center gap-3 ${rule.enabled ? '' : 'opacity-60'}`}
+          >
+            <div className="flex-1 min-w-0">
+              <div className="flex flex-wrap items-center gap-2 mb-1">
+                <p className="text-white font-medium text-sm sm:text-base">{rule.name}</p>
+                <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-500/20 text-gray-300">{KIND_LABELS[rule.kind]}</span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${getActionStyle(rule.action)}`}>{rule.action}</span>
+              </div>
+              <p className="text-gray-400 text-xs sm:text-sm font-mono break-words">{describeConfig(rule)}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => handleToggleRule(rule)}
+                disabled={isSaving}
+                className={`px-3 py-1 rounded-lg text-xs border transition-colors disabled:opacity-50 ${
+                  rule.enabled
+                    ? 'bg-green-600/20 text-green-400 border-green-600/50 hover:bg-green-600/30'
+                    : 'bg-gray-700/50 text-gray-400 border-gray-600/50 hover:text-gray-300'
+                }`}
+              >
+                {rule.enabled ? 'Enabled' : 'Disabled'}
+              </button>
+              <button
+                onClick={() => setDraft({ id: rule.id, name: rule.name, kind: rule.kind, action: rule.action, configText: toConfigText(rule), enabled: rule.enabled })}
+                className="p-1.5 text-gray-400 hover:text-white transition-colors"
+                title="Edit rule"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleDeleteRule(rule)}
+                disabled={isSaving}
+                className="p-1.5 text-gray-400 hover:text-red-400 transition-colors disabled:opacity-50"
+                title="Delete rule"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {rules.length === 0 && (
+          <div className="text-center py-8">
+            <Filter className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+            <p className="text-gray-400">No content rules yet</p>
+          </div>
+        )}
+      </div>
+
+      {draft ? (
+        <div className="bg-gray-700/30 border border-gray-600/30 rounded-lg p-3 sm:p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-white font-medium text-sm sm:text-base">{draft.id ? 'Edit rule' : 'New rule'}</h3>
+            <button onClick={() => setDraft(null)} className="p-1 text-gray-400 hover:text-white transition-colors" title="Cancel">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <input
+              type="text"
+              placeholder="Rule name"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className="bg-gray-700/50 border border-gray-600/50 rounded-lg px-3 py-2 text-white placeholder-gray-400 focus:outline-none focus:border-red-400 transition-colors text-sm"
+            />
+            <select
+              value={draft.kind}
+              onChange={(e) => setDraft({ ...draft, kind: e.target.value as RuleKind, configText: '' })}
+              className="bg-gray-700/50 border border-gray-600/50 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-red-400 text-sm"
+            >
+              {CONTENT_RULE_KINDS.map((kind: RuleKind) => (
+                <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>
+              ))}
+            </select>
+            <select
+              value={draft.action}
+              onChange={(e) => setDraft({ ...draft, action: e.target.value as RuleAction })}
+              className="bg-gray-700/50 border border-gray-600/50 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-red-400 text-sm capitalize"
+            >
+              {CONTENT_RULE_ACTIONS.map((action: RuleAction) => (
+                <option key={action} value={action}>{action}</option>
+              ))}
+            </select>
+          </div>
+          <textarea
+            placeholder={CONFIG_PLACEHOLDERS[draft.kind]}
+            value={draft.configText}
+            onChange={(e) => setDraft({ ...draft, configText: e.target.value })}
+            rows={2}
+            className="w-full bg-gray-700/50 border border-gray-600/50 rounded-lg px-3 py-2 text-white placeholder-gray-400 focus:outline-none focus:border-red-400 transition-colors text-sm font-mono resize-none"
+          />
+          <div className="flex justify-end">
+            <button
+              onClick={handleSaveDraft}
+              disabled={isSaving || !draft.name.trim() || !draft.configText.trim()}
+              className="px-4 py-2 bg-red-600/20 text-red-400 border border-red-600/50 rounded-lg hover:bg-red-600/30 transition-colors text-sm disabled:opacity-50"
+            >
+              Save rule
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setDraft(EMPTY_DRAFT)}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-700/50 text-gray-300 border border-gray-600/50 rounded-lg hover:text-white transition-colors text-sm"
+        >
+          <Plus className="w-4 h-4" />
+          Add rule
+        </button>
+      )}
+
+      <div>
+        <h3 className="text-white font-medium text-sm sm:text-base mb-3">Recent decisions</h3>
+        <div className="space-y-2">
+          {decisions.map((decision) => (
+            <div key={decision.id} className="flex flex-wrap items-center gap-2 text-xs sm:text-sm text-gray-400">
+              <span className="text-gray-500">{formatTime(decision.created_at)}</span>
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${getActionStyle(decision.action)}`}>{decision.action}</span>
+              <span className="text-white">{decision.rule_name}</span>
+              <span>
+                {decision.outcome === 'sent' ? 'sent' : decision.outcome === 'blocked' ? 'blocked' : 'withdrawn by sender'}
+                {decision.sender_role && ` (${decision.sender_role})`}
+              </span>
+              {decision.matched && <span className="font-mono text-gray-300 break-all">“{decision.matched}”</span>}
+              {decision.score !== null && <span>score {decision.score}</span>}
+            </div>
+          ))}
+
+          {decisions.length === 0 && (
+            <p className="text-gray-500 text-sm">The filter hasn't matched any messages yet</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModerationRulesPanel;
@@ -0,0 +1,363 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Clock, MessageSquare, X } from 'lucide-react';
+import { checkMessageContent, detectPII, redactPII, routeNewChat, describeExpectedResponse, CHAT_CATEGORIES, CHAT_URGENCIES } from '../lib/database';
+import PIIWarningPanel, { PIIMatch } from './PIIWarningPanel';
+
+// Row from `courses` (see `getCourses`)
+export interface Course {
+  id: string;
+  code: string;
+  name: string;
+  department: string | null;
+  instructor_id: string | null;
+}
+
+export type ChatUrgency = 'low' | 'normal' | 'high' | 'urgent';
+
+// What the student filled in; `message` is what gets sent
+export interface NewChatDraft {
+  /** Faculty member shown in the preview; routed again when null */
+  facultyId: string | null;
+  subject: string;
+  category: string;
+  courseId: string | null;
+  urgency: ChatUrgency;
+  message: string;
+  piiAcknowledged: boolean;
+}
+
+// One of the student's existing chats, checked for duplicates
+export interface ExistingThread {
+  id: string;
+  title: string;
+  lastMessage: string;
+  courseId?: string | null;
+  isArchived: boolean;
+}
+
+// Faculty member a draft would go to (see `routeNewChat`)
+interface RoutingPreview {
+  faculty_id: string;
+  anonymous_id: string;
+  availability: {
+    expected_response: string;
+    next_office_hours: string | null;
+    auto_reply: string | null;
+  } | null;
+}
+
+interface NewChatDialogProps {
+  department: string;
+  courses: Course[];
+  threads: ExistingThread[];
+  accentColor: string;
+  onOpenThread: (threadId: string) => void;
+  /** Creates the chat; resolves to an error message, or null on success */
+  onSubmit: (draft: NewChatDraft) => Promise<string | null>;
+  onClose: () => void;
+}
+
+const URGENCY_LABELS: Record<ChatUrgency, string> = {
+  low: 'Low - whenever convenient',
+  normal: 'Normal',
+  high: 'High - needed soon',
+  urgent: 'Urgent - deadline today'
+};
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'about', 'have', 'has', 'this', 'that', 'what', 'how', 'can',
+  'you', 'your', 'are', 'was', 'not', 'but', 'from', 'question', 'please', 'help', 'hello'
+]);
+
+// Only suggest chats sharing at least this many keywords
+const MIN_SHARED_KEYWORDS = 2;
+
+// Wait for typing to pause before previewing where the chat would go
+const ROUTING_PREVIEW_DELAY_MS = 600;
+
+const keywords = (text: string) =>
+  new Set((text.toLowerCase().match(/[a-z0-9]{3,}/g) || []).filter(word => !STOP_WORDS.has(word)));
+
+/**
+ * Existing chats that look like the same question: same course, or sharing
+ * keywords with the draft's subject and message. Best matches first.
+ */
+const findSimilarThreads = (draft: { subject: string; message: string; courseId: string | null }, threads: ExistingThread[]) => {
+  const draftWords = keywords(`${draft.subject} ${draft.message}`);
+  if (draftWords.size === 0 && !draft.courseId) return [];
+
+  return threads
+    .map(thread => {
+      const threadWords = keywords(`${thread.title} ${thread.lastMessage}`);
+      const shared = [...draftWords].filter(word => threadWords.has(word)).length;
+      const sameCourse = !!draft.courseId && thread.courseId === draft.courseId;
+      return { thread, score: shared + (sameCourse ? MIN_SHARED_KEYWORDS : 0) };
+    })
+    .filter(({ score }) => score >= MIN_SHARED_KEYWORDS)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 3)
+    .map(({ thread }) => thread);
+};
+
+/**
+ * StudentDashboard dialog for asking a new question: subject, course,
+ * category, urgency and the opening message. The message goes through the
+ * content filter and personal-details check before the chat is created,
+ * similar existing chats are suggested to avoid duplicates, and the student
+ * sees which faculty member the chat would go to and how soon they're likely
+ * to reply.
+ */
+const NewChatDialog: React.FC<NewChatDialogProps> = ({ department, courses, threads, accentColor, onOpenThread, onSubmit, onClose }) => {
+  const [subject, setSubject] = useState('');
+  const [category, setCategory] = useState(CHAT_CATEGORIES[0]);
+  const [courseId, setCourseId] = useState('');
+  const [urgency, setUrgency] = useState<ChatUrgency>('normal');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [piiWarning, setPiiWarning] = useState<{ content: string; matches: PIIMatch[] } | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [routingPreview, setRoutingPreview] = useState<RoutingPreview | null>(null);
+
+  // Same routing input as `startNewChat`
+  const routingSubject = [subject.trim(), category, message.trim()].filter(Boolean).join(' ');
+
+  useEffect(() => {
+    if (!subject.trim() && !courseId) {
+      setRoutingPreview(null);
+      return;
+    }
+
+    let isCancelled = false;
+    const timer = setTimeout(async () => {
+      const { data } = await routeNewChat({ department, subject: routingSubject, courseId: courseId || null });
+      if (!isCancelled) {
+        setRoutingPreview(data);
+      }
+    }, ROUTING_PREVIEW_DELAY_MS);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+    };
+  }, [department, routingSubject, subject, courseId]);
+
+  const similarThreads = useMemo(
+    () => findSimilarThreads({ subject, message, courseId: courseId || null }, threads),
+    [subject, message, courseId, threads]
+  );
+
+  const submitDraft = async (content: string, piiAcknowledged = false) => {
+    setIsSubmitting(true);
+    setPiiWarning(null);
+    try {
+      const submitError = await onSubmit({
+        facultyId: routingPreview?.faculty_id || null,
+        subject: subject.trim(),
+        category,
+        courseId: courseId || null,
+        urgency,
+        message: content,
+        piiAcknowledged
+      });
+      if (submitError) {
+        setError(submitError);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const content = message.trim();
+    if (!subject.trim() || !content) return;
+
+    setError('');
+
+    // Same checks as the chat composer, before the chat is created
+    const { data: verdict } = await checkMessageContent(content);
+    if (verdict) {
+      const ruleNames = (action: string) => verdict.decisions
+        .filter((decision: { action: string }) => decision.action === action)
+        .map((decision: { rule_name: string }) => decision.rule_name)
+        .join(', ');
+
+      if (verdict.action === 'block') {
+        setError(`This message can't be sent: it breaks the community guidelines (${ruleNames('block')}).`);
+        return;
+      }
+
+      const warnedRules = ruleNames('warn');
+      if (warnedRules && !window.confirm(`This message may break the community guidelines (${warnedRules}). Send it anyway?`)) {
+        return;
+      }
+    }
+
+    const { data: piiMatches } = await detectPII(content);
+    if (piiMatches && piiMatches.length > 0) {
+      setPiiWarning({ content, matches: piiMatches });
+      return;
+    }
+
+    await submitDraft(content);
+  };
+
+  const handleSendWithPII = (redact: boolean) => {
+    if (!piiWarning) return;
+
+    const { content, matches } = piiWarning;
+    submitDraft(redact ? redactPII(content, matches) : content, true);
+  };
+
+  const inputClassName = 'w-full bg-gray-800/50 border border-gray-600/50 rounded-lg px-3 py-2 text-white placeholder-gray-400 focus:outline-none transition-colors text-sm';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative bg-gray-900/95 border border-gray-700 rounded-xl p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto shadow-2xl">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-orbitron text-lg font-bold text-white flex items-center gap-2">
+            <MessageSquare className="w-5 h-5" style={{ color: accentColor }} />
+            Ask a New Question
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-lg hover:bg-gray-800 transition-colors"
+          >
+            <X className="w-4 h-4 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Subject</label>
+            <input
+              type="text"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              placeholder="e.g. Linked list insertion in assignment 3"
+              maxLength={120}
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Category</label>
+              <select value={category} onChange={(e) => setCategory(e.target.value)} className={inputClassName}>
+                {CHAT_CATEGORIES.map((option: string) => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Urgency</label>
+              <select value={urgency} onChange={(e) => setUrgency(e.target.value as ChatUrgency)} className={inputClassName}>
+                {CHAT_URGENCIES.map((option: ChatUrgency) => (
+                  <option key={option} value={option}>{URGENCY_LABELS[option]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Course (optional)</label>
+            <select
+              value={courseId}
+              onChange={(e) => setCourseId(e.target.value)}
+              className={inputClassName}
+              title="Ask a specific course's instructor, or leave on best match"
+            >
+              <option value="">Any faculty (best match)</option>
+              {courses.map(course => (
+                <option key={course.id} value={course.id}>
+                  {course.code} – {course.name}{course.instructor_id ? '' : ' (no instructor)'}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Your question</label>
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Describe your question. Avoid details that could identify you."
+              maxLength={2000}
+              rows={4}
+              className={`${inputClassName} resize-none`}
+            />
+          </div>
+
+          {similarThreads.length > 0 && (
+            <div className="p-3 rounded-lg bg-blue-900/30 border border-blue-700/40 text-xs sm:text-sm text-blue-100">
+              <p className="mb-2">You may already have a chat about this:</p>
+              <ul className="space-y-1">
+                {similarThreads.map(thread => (
+                  <li key={thread.id} className="flex items-center gap-2">
+                    <span className="flex-1 min-w-0 truncate">
+                      {thread.title}
+                      <span className="text-blue-300/70"> — {thread.lastMessage}</span>
+                    </span>
+                    <button
+                      onClick={() => onOpenThread(thread.id)}
+                      className="px-2 py-0.5 rounded bg-blue-600/30 hover:bg-blue-600/40 transition-colors flex-shrink-0"
+                    >
+                      {thread.isArchived ? 'Open (archived)' : 'Open'}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {routingPreview && (
+            <div className="p-3 rounded-lg bg-gray-800/50 border border-gray-600/50 text-xs sm:text-sm text-gray-300">
+              <p className="flex items-center gap-2">
+                <Clock className="w-4 h-4 flex-shrink-0" style={{ color: accentColor }} />
+                <span>
+                  Goes to <span className="font-mono" style={{ color: accentColor }}>{routingPreview.anonymous_id}</span>
+                  {' · '}
+                  {describeExpectedResponse(routingPreview.availability)}
+                </span>
+              </p>
+              {routingPreview.availability?.auto_reply && routingPreview.availability.expected_response !== 'within_hours' && (
+                <p className="mt-2 italic text-gray-400 break-words">“{routingPreview.availability.auto_reply}”</p>
+              )}
+            </div>
+          )}
+
+          {piiWarning && piiWarning.content === message.trim() && (
+            <PIIWarningPanel
+              content={piiWarning.content}
+              matches={piiWarning.matches}
+              onEdit={() => setPiiWarning(null)}
+              onSend={handleSendWithPII}
+              sendLabel="Start chat"
+            />
+          )}
+
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={isSubmitting || !subject.trim() || !message.trim()}
+            className="flex-1 px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            style={{ backgroundColor: accentColor }}
+          >
+            {isSubmitting ? 'Starting...' : 'Start Chat'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NewChatDialog;
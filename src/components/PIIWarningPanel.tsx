@@ -0,0 +1,74 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { redactPII } from '../lib/database';
+
+// Personal detail found by `detectPII`
+export interface PIIMatch {
+  type: 'email' | 'phone' | 'registration_number';
+  value: string;
+  start: number;
+  end: number;
+}
+
+const PII_LABELS: Record<PIIMatch['type'], string> = {
+  email: 'email address',
+  phone: 'phone number',
+  registration_number: 'registration number'
+};
+
+interface PIIWarningPanelProps {
+  content: string;
+  matches: PIIMatch[];
+  onEdit: () => void;
+  onSend: (redact: boolean) => void;
+  /** Verb on the send buttons, e.g. "Send" or "Start chat" */
+  sendLabel?: string;
+}
+
+/**
+ * Warning shown before a message that could reveal who the sender is: lists
+ * the personal details found and offers to edit, send anyway, or redact them
+ * and send.
+ */
+const PIIWarningPanel: React.FC<PIIWarningPanelProps> = ({ content, matches, onEdit, onSend, sendLabel = 'Send' }) => {
+  return (
+    <div className="mb-3 p-3 rounded-lg bg-yellow-900/30 border border-yellow-700/40 text-xs sm:text-sm text-yellow-200">
+      <div className="flex items-start gap-2">
+        <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p>This message could reveal who you are:</p>
+          <ul className="mt-1 space-y-0.5">
+            {matches.map(match => (
+              <li key={match.start}>
+                {PII_LABELS[match.type]} <span className="font-mono text-yellow-100 break-all">“{match.value}”</span>
+              </li>
+            ))}
+          </ul>
+          <p className="mt-2 text-yellow-300/80 break-words">Redacted: {redactPII(content, matches)}</p>
+        </div>
+      </div>
+      <div className="flex flex-wrap justify-end gap-2 mt-3">
+        <button
+          onClick={onEdit}
+          className="px-3 py-1 rounded-lg bg-gray-700/50 text-gray-300 hover:text-white transition-colors"
+        >
+          Edit message
+        </button>
+        <button
+          onClick={() => onSend(false)}
+          className="px-3 py-1 rounded-lg bg-gray-700/50 text-yellow-300 hover:text-yellow-100 transition-colors"
+        >
+          {sendLabel} anyway
+        </button>
+        <button
+          onClick={() => onSend(true)}
+          className="px-3 py-1 rounded-lg bg-yellow-600/30 text-yellow-100 border border-yellow-600/50 hover:bg-yellow-600/40 transition-colors"
+        >
+          Redact and {sendLabel.toLowerCase()}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PIIWarningPanel;
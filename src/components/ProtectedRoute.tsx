@@ -0,0 +1,51 @@
+import React, { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useUser, UserRole } from '../contexts/UserContext';
+
+interface ProtectedRouteProps {
+  allowedRoles: UserRole[];
+  children: ReactNode;
+}
+
+const dashboardPaths: Record<UserRole, string> = {
+  student: '/student',
+  faculty: '/faculty',
+  admin: '/admin'
+};
+
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ allowedRoles, children }) => {
+  const { user, isLoading } = useUser();
+  const location = useLocation();
+
+  // Wait for the stored session before deciding where to send the user
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-900">
+        <div className="text-center">
+          <div className="w-8 h-8 border-2 border-gray-400 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-400 font-rajdhani">Restoring session...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Not signed in: go to login and remember where the user was heading
+  if (!user) {
+    return (
+      <Navigate
+        to={`/login?role=${allowedRoles[0]}`}
+        state={{ from: location }}
+        replace
+      />
+    );
+  }
+
+  // Signed in with the wrong role: send them to their own dashboard
+  if (!allowedRoles.includes(user.role)) {
+    return <Navigate to={dashboardPaths[user.role]} replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default ProtectedRoute;
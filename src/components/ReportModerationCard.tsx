@@ -0,0 +1,318 @@
+import React, { useState } from 'react';
+import { Eye, MessageSquare, History, AlertTriangle, VolumeX, Ban, Lock } from 'lucide-react';
+import { setReportStatus, assignReport, addReportNote, takeModerationAction, REPORT_STATUSES } from '../lib/database';
+
+interface Moderator {
+  id: string;
+  anonymous_id: string;
+}
+
+interface ReportNote {
+  id: string;
+  body: string;
+  created_at: string;
+  author?: { anonymous_id: string } | null;
+}
+
+// A logged moderation step; `details` depends on the action
+interface ModerationLogEntry {
+  id: string;
+  action: 'status' | 'assign' | 'note' | 'warn' | 'mute' | 'suspend' | 'close_chat';
+  details: { from?: string; to?: string; note?: string; reason?: string; expires_at?: string | null };
+  created_at: string;
+  moderator?: { anonymous_id: string } | null;
+}
+
+// Report row returned by `getAllReports`
+export interface ModerationReport {
+  id: string;
+  message_id: string;
+  chat_id: string | null;
+  reason: string;
+  comment?: string | null;
+  status: 'open' | 'triaged' | 'actioned' | 'dismissed';
+  assigned_to: string | null;
+  reported_by: string | null;
+  timestamp: string;
+  reporter?: { anonymous_id: string } | null;
+  chat?: { department?: string; status?: string } | null;
+  message_snapshot?: {
+    id: string;
+    sender_role: string;
+    body: string;
+    attachment_name?: string | null;
+  } | null;
+  message?: { editedAt?: string | null; deletedAt?: string | null };
+  originalText?: string;
+  notes?: ReportNote[];
+  actions?: ModerationLogEntry[];
+}
+
+interface ReportModerationCardProps {
+  report: ModerationReport;
+  moderators: Moderator[];
+  currentUserId?: string;
+  onViewContext: () => void;
+  onChanged: () => void;
+}
+
+const ACTION_BUTTONS: { action: string; label: string; icon: React.ElementType; className: string }[] = [
+  { action: 'warn', label: 'Warn user', icon: AlertTriangle, className: 'bg-yellow-600/20 text-yellow-400 border-yellow-600/50 hover:bg-yellow-600/30' },
+  { action: 'mute', label: 'Mute 24h', icon: VolumeX, className: 'bg-orange-600/20 text-orange-400 border-orange-600/50 hover:bg-orange-600/30' },
+  { action: 'suspend', label: 'Suspend 7d', icon: Ban, className: 'bg-red-600/20 text-red-400 border-red-600/50 hover:bg-red-600/30' },
+  { action: 'close_chat', label: 'Close chat', icon: Lock, className: 'bg-gray-600/20 text-gray-300 border-gray-500/50 hover:bg-gray-600/30' }
+];
+
+const formatTime = (timestamp: string) => {
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const getStatusStyle = (status: string) => {
+  switch (status) {
+    case 'open': return 'bg-yellow-500/20 text-yellow-400';
+    case 'triaged': return 'bg-cyan-500/20 text-cyan-400';
+    case 'actioned': return 'bg-green-500/20 text-green-400';
+    case 'dismissed': return 'bg-gray-500/20 text-gray-400';
+    default: return 'bg-gray-500/20 text-gray-400';
+  }
+};
+
+// One line per logged moderation step
+const describeAction = (entry: ModerationLogEntry, moderators: Moderator[]) => {
+  const details = entry.details || {};
+  const moderatorName = (id?: string) =>
+    id ? moderators.find(m => m.id === id)?.anonymous_id || 'a moderator' : 'nobody';
+
+  switch (entry.action) {
+    case 'status':
+      return `Status ${details.from} → ${details.to}${details.note ? ` (“${details.note}”)` : ''}`;
+    case 'assign':
+      return `Assigned to ${moderatorName(details.to)}`;
+    case 'note':
+      return 'Added an internal note';
+    case 'close_chat':
+      return `Closed the chat: ${details.reason}`;
+    default:
+      return `${entry.action === 'warn' ? 'Warned' : entry.action === 'mute' ? 'Muted' : 'Suspended'} the sender: ${details.reason}${
+        details.expires_at ? ` (until ${formatTime(details.expires_at)})` : ''
+      }`;
+  }
+};
+
+/**
+ * A report in the AdminPanel moderation queue: the reported message, status
+ * and assignment, internal notes, moderation actions and their log.
+ */
+const ReportModerationCard: React.FC<ReportModerationCardProps> = ({
+  report,
+  moderators,
+  currentUserId,
+  onViewContext,
+  onChanged
+}) => {
+  const [noteText, setNoteText] = useState('');
+  const [showLog, setShowLog] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const runStep = async (step: () => Promise<{ error: { message: string } | null }>) => {
+    setIsSaving(true);
+    try {
+      const { error } = await step();
+      if (error) {
+        alert(error.message);
+        return false;
+      }
+      onChanged();
+      return true;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStatusChange = (status: string) => {
+    const resolutionNote = status === 'actioned' || status === 'dismissed'
+      ? window.prompt('Note for the reporter (optional):')
+      : '';
+    if (resolutionNote === null) return;
+
+    runStep(() => setReportStatus(report.id, status, resolutionNote));
+  };
+
+  const handleAssign = (moderatorId: string) => {
+    runStep(() => assignReport(report.id, moderatorId || null));
+  };
+
+  const handleAddNote = async () => {
+    if (!noteText.trim()) return;
+
+    if (await runStep(() => addReportNote(report.id, noteText))) {
+      setNoteText('');
+    }
+  };
+
+  const handleAction = (action: string, label: string) => {
+    const reason = window.prompt(`${label}: reason (kept in the moderation log${action === 'warn' ? ' and shown to the user' : ''})`);
+    if (!reason?.trim()) return;
+
+    runStep(() => takeModerationAction(report.id, action, reason));
+  };
+
+  const notes = report.notes || [];
+  const actions = report.actions || [];
+
+  return (
+    <div className="bg-gray-700/30 border border-gray-600/30 rounded-lg p-3 sm:p-4">
+      <div className="flex flex-col lg:flex-row items-start justify-between gap-3 mb-3">
+        <div className="flex-1 min-w-0">
+          <div className="flex flex-wrap items-center gap-2 mb-1">
+            <p className="text-white font-medium text-sm sm:text-base">Reason: {report.reason}</p>
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${getStatusStyle(report.status)}`}>
+              {report.status}
+            </span>
+            {report.chat?.status === 'closed' && (
+              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-500/20 text-gray-300">chat closed</span>
+            )}
+          </div>
+          <div className="text-xs sm:text-sm text-gray-400 space-y-1">
+            <p>Message ID: <span className="text-purple-400 font-mono">{report.message_id}</span></p>
+            <p>Reported by: <span className="text-purple-400 font-mono">{report.reported_by ? report.reporter?.anonymous_id || report.reported_by : 'Automated filter'}</span></p>
+            <p>Time: {formatTime(report.timestamp)}</p>
+            {report.comment && <p>Comment: <span className="text-gray-300">{report.comment}</span></p>}
+          </div>
+          {report.originalText !== undefined && (
+            <div className="mt-2 p-2 bg-gray-800/50 border border-gray-600/30 rounded text-xs sm:text-sm">
+              <p className="text-gray-400 mb-1">
+                Reported message as sent
+                {report.message?.deletedAt ? ' • since deleted' : report.message?.editedAt ? ' • since edited' : ''}
+              </p>
+              <p className="text-white whitespace-pre-wrap">{report.originalText}</p>
+            </div>
+          )}
+          {report.message_snapshot && (
+            <div className="mt-2 p-2 bg-gray-800/50 border border-gray-600/30 rounded text-xs sm:text-sm">
+              <p className="text-gray-400 mb-1">
+                Message when reported • from {report.message_snapshot.sender_role}
+                {report.message_snapshot.attachment_name ? ` • attachment: ${report.message_snapshot.attachment_name}` : ''}
+              </p>
+              <p className="text-white whitespace-pre-wrap">{report.message_snapshot.body}</p>
+            </div>
+          )}
+        </div>
+        <div className="flex flex-col gap-2 w-full lg:w-56">
+          <select
+            value={report.status}
+            onChange={(e) => handleStatusChange(e.target.value)}
+            disabled={isSaving}
+            className="bg-gray-700/50 border border-gray-600/50 rounded-lg px-3 py-1.5 text-white text-xs sm:text-sm focus:outline-none focus:border-red-400 capitalize"
+          >
+            {REPORT_STATUSES.map((status: string) => (
+              <option key={status} value={status}>{status}</option>
+            ))}
+          </select>
+          <select
+            value={report.assigned_to || ''}
+            onChange={(e) => handleAssign(e.target.value)}
+            disabled={isSaving}
+            className="bg-gray-700/50 border border-gray-600/50 rounded-lg px-3 py-1.5 text-white text-xs sm:text-sm focus:outline-none focus:border-red-400"
+          >
+            <option value="">Unassigned</option>
+            {moderators.map(moderator => (
+              <option key={moderator.id} value={moderator.id}>
+                {moderator.anonymous_id}{moderator.id === currentUserId ? ' (me)' : ''}
+              </option>
+            ))}
+          </select>
+          {report.chat_id && (
+            <button
+              onClick={onViewContext}
+              className="flex items-center justify-center gap-1 px-3 py-1.5 bg-purple-600/20 text-purple-400 border border-purple-600/50 rounded-lg hover:bg-purple-600/30 transition-colors text-xs sm:text-sm"
+            >
+              <Eye className="w-3 h-3 sm:w-4 sm:h-4" />
+              View in context
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Actions */}
+      {report.chat_id && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {ACTION_BUTTONS.map(({ action, label, icon: Icon, className }) => (
+            <button
+              key={action}
+              onClick={() => handleAction(action, label)}
+              disabled={isSaving || (action !== 'close_chat' && !report.message_snapshot) || (action === 'close_chat' && report.chat?.status === 'closed')}
+              className={`flex items-center gap-1 px-2 sm:px-3 py-1 border rounded-lg transition-colors text-xs sm:text-sm disabled:opacity-40 disabled:cursor-not-allowed ${className}`}
+            >
+              <Icon className="w-3 h-3" />
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Internal notes */}
+      <div className="border-t border-gray-600/30 pt-3 space-y-2">
+        <p className="flex items-center gap-1 text-xs font-medium text-gray-400">
+          <MessageSquare className="w-3 h-3" />
+          Internal notes ({notes.length})
+        </p>
+        {notes.map(note => (
+          <div key={note.id} className="text-xs sm:text-sm">
+            <span className="text-purple-400 font-mono">{note.author?.anonymous_id || 'Moderator'}</span>
+            <span className="text-gray-500"> • {formatTime(note.created_at)}</span>
+            <p className="text-gray-300 whitespace-pre-wrap">{note.body}</p>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={noteText}
+            onChange={(e) => setNoteText(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddNote()}
+            placeholder="Add a note for other moderators..."
+            className="flex-1 bg-gray-700/50 border border-gray-600/50 rounded-lg px-3 py-1.5 text-white placeholder-gray-400 text-xs sm:text-sm focus:outline-none focus:border-red-400"
+          />
+          <button
+            onClick={handleAddNote}
+            disabled={isSaving || !noteText.trim()}
+            className="px-3 py-1.5 bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded-lg text-xs sm:text-sm transition-colors"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+
+      {/* Moderation log */}
+      {actions.length > 0 && (
+        <div className="mt-3">
+          <button
+            onClick={() => setShowLog(!showLog)}
+            className="flex items-center gap-1 text-xs text-purple-400 hover:text-purple-300 transition-colors"
+          >
+            <History className="w-3 h-3" />
+            Moderation log ({actions.length})
+          </button>
+          {showLog && (
+            <div className="mt-2 space-y-1 border-l-2 border-purple-600/50 pl-3">
+              {actions.map(entry => (
+                <p key={entry.id} className="text-xs text-gray-300">
+                  <span className="text-gray-500">{formatTime(entry.created_at)} • </span>
+                  <span className="text-purple-400 font-mono">{entry.moderator?.anonymous_id || 'Moderator'}</span>{' '}
+                  {describeAction(entry, moderators)}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportModerationCard;
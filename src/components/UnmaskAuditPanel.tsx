@@ -0,0 +1,107 @@
+import React, { useState, useEffect } from 'react';
+import { FileText, Download } from 'lucide-react';
+import { getUnmaskAuditLog } from '../lib/database';
+
+// Row from `unmask_audit_log`
+interface UnmaskAuditEntry {
+  id: string;
+  admin_id: string;
+  admin_anonymous_id: string;
+  target_user_id: string;
+  target_anonymous_id: string;
+  target_role: string;
+  justification: string;
+  created_at: string;
+}
+
+const formatTime = (timestamp: string) => {
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+/**
+ * AdminPanel view of every unmasking (super-admins only): who revealed whose
+ * identity, when and why, with an export of the full log.
+ */
+const UnmaskAuditPanel: React.FC = () => {
+  const [entries, setEntries] = useState<UnmaskAuditEntry[]>([]);
+  const [loadError, setLoadError] = useState('');
+
+  const loadEntries = async () => {
+    const { data, error } = await getUnmaskAuditLog();
+    if (error) {
+      setLoadError(error.message);
+      return;
+    }
+    setEntries(data || []);
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, []);
+
+  const handleExport = () => {
+    const exportData = {
+      entries,
+      exportedAt: new Date().toISOString(),
+      totalEntries: entries.length
+    };
+
+    const dataBlob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(dataBlob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `anonbridge-unmask-audit-${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <button
+          onClick={handleExport}
+          disabled={entries.length === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-700/50 text-gray-300 border border-gray-600/50 rounded-lg hover:text-white transition-colors text-sm disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" />
+          Export log
+        </button>
+      </div>
+
+      {loadError && <p className="text-red-400 text-sm">{loadError}</p>}
+
+      <div className="space-y-2">
+        {entries.map((entry) => (
+          <div key={entry.id} className="bg-gray-700/30 border border-gray-600/30 rounded-lg p-3 sm:p-4">
+            <div className="flex flex-wrap items-center gap-2 text-xs sm:text-sm text-gray-400 mb-1">
+              <span className="text-gray-500">{formatTime(entry.created_at)}</span>
+              <span className="text-purple-400 font-mono">{entry.admin_anonymous_id}</span>
+              <span>unmasked</span>
+              <span className="text-purple-400 font-mono">{entry.target_anonymous_id}</span>
+              <span className="capitalize">({entry.target_role})</span>
+            </div>
+            <p className="text-white text-sm break-words">{entry.justification}</p>
+          </div>
+        ))}
+
+        {entries.length === 0 && !loadError && (
+          <div className="text-center py-8">
+            <FileText className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+            <p className="text-gray-400">No identities have been unmasked</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UnmaskAuditPanel;
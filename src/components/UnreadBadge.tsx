@@ -0,0 +1,23 @@
+import React from 'react';
+
+interface UnreadBadgeProps {
+  count: number;
+  color: string;
+  className?: string;
+}
+
+const UnreadBadge: React.FC<UnreadBadgeProps> = ({ count, color, className = '' }) => {
+  if (count <= 0) return null;
+
+  return (
+    <span
+      className={`min-w-[1.25rem] h-5 px-1 text-xs font-bold rounded-full flex items-center justify-center text-black ${className}`}
+      style={{ backgroundColor: color, boxShadow: `0 0 10px ${color}80` }}
+      title={`${count} unread message${count === 1 ? '' : 's'}`}
+    >
+      {count > 99 ? '99+' : count}
+    </span>
+  );
+};
+
+export default UnreadBadge;
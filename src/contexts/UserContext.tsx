@@ -1,18 +1,72 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import type { AuthChangeEvent, Session } from '@supabase/supabase-js';
+import { supabase, getUserProfile, getAccountRestriction, signOutUser, clearOutbox } from '../lib/database';
+
+export type UserRole = 'student' | 'faculty' | 'admin';
+
+// Active mute, suspension or ban (see `getAccountRestriction`)
+export interface AccountRestriction {
+  status: 'muted' | 'suspended' | 'banned';
+  expiresAt: string | null;
+  reason: string | null;
+  blocksLogin: boolean;
+}
+
+export type AvailabilityStatus = 'available' | 'busy' | 'away' | 'out_of_office';
+
+// Weekly office hours slot; `day` 0 (Sunday) to 6, times as 'HH:MM'
+export interface OfficeHoursSlot {
+  day: number;
+  start: string;
+  end: string;
+}
 
 interface User {
   id: string;
   email: string;
-  role: 'student' | 'faculty';
+  role: UserRole;
   department: string;
   year?: string;
   anonymousId: string;
+  restriction?: AccountRestriction | null;
+  /** Students only: new chats get their own pseudonym */
+  perChatAliases?: boolean;
+  /** Admins only: can read the unmask audit log */
+  isSuperAdmin?: boolean;
+  /** Faculty only: subjects new chats are routed to them for */
+  subjectTags?: string[];
+  /** Faculty only: availability, office hours and auto-reply (see `setAvailability`) */
+  availabilityStatus?: AvailabilityStatus;
+  officeHours?: OfficeHoursSlot[];
+  officeHoursTimezone?: string;
+  autoReply?: string | null;
 }
 
 interface UserContextType {
   user: User | null;
   setUser: (user: User | null) => void;
   isAuthenticated: boolean;
+  isLoading: boolean;
+  logout: () => Promise<void>;
+}
+
+interface UserProfileRow {
+  id: string;
+  email: string;
+  role: UserRole;
+  department: string;
+  year?: string;
+  anonymous_id: string;
+  account_status?: string;
+  status_expires_at?: string | null;
+  status_reason?: string | null;
+  per_chat_aliases?: boolean;
+  is_super_admin?: boolean;
+  subject_tags?: string[];
+  availability_status?: AvailabilityStatus;
+  office_hours?: OfficeHoursSlot[];
+  office_hours_timezone?: string;
+  auto_reply?: string | null;
 }
 
 const UserContext = createContext<UserContextType | undefined>(undefined);
@@ -25,17 +79,106 @@ export const useUser = () => {
   return context;
 };
 
+// Maps a `users` row to the signed-in user; shared with the login page
+export const toUser = (profile: UserProfileRow): User => ({
+  id: profile.id,
+  email: profile.email,
+  role: profile.role,
+  department: profile.department,
+  year: profile.year,
+  anonymousId: profile.anonymous_id,
+  restriction: getAccountRestriction(profile),
+  perChatAliases: profile.per_chat_aliases ?? false,
+  isSuperAdmin: profile.is_super_admin ?? false,
+  subjectTags: profile.subject_tags ?? [],
+  availabilityStatus: profile.availability_status ?? 'available',
+  officeHours: profile.office_hours ?? [],
+  officeHoursTimezone: profile.office_hours_timezone ?? 'UTC',
+  autoReply: profile.auto_reply ?? null
+});
+
 interface UserProviderProps {
   children: ReactNode;
 }
 
 export const UserProvider: React.FC<UserProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const userRef = useRef<User | null>(null);
+
+  useEffect(() => {
+    userRef.current = user;
+  }, [user]);
+
+  const loadProfile = useCallback(async (userId: string) => {
+    const { data: profile, error } = await getUserProfile(userId);
+
+    if (profile && !error) {
+      const restoredUser = toUser(profile);
+
+      // Suspended or banned since the session was created
+      if (restoredUser.restriction?.blocksLogin) {
+        await signOutUser();
+        setUser(null);
+        return;
+      }
+
+      setUser(restoredUser);
+    } else {
+      setUser(null);
+    }
+  }, []);
+
+  // Rehydrate from the persisted Supabase session and follow auth changes
+  useEffect(() => {
+    let isMounted = true;
+
+    const restoreSession = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (session?.user) {
+        await loadProfile(session.user.id);
+      }
+
+      if (isMounted) {
+        setIsLoading(false);
+      }
+    };
+
+    restoreSession();
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event: AuthChangeEvent, session: Session | null) => {
+      // Expired sessions whose refresh fails arrive here as SIGNED_OUT
+      if (event === 'SIGNED_OUT' || !session) {
+        clearOutbox();
+        setUser(null);
+        return;
+      }
+
+      // TOKEN_REFRESHED keeps the same user; only reload on a new sign-in.
+      // Deferred because Supabase calls this while holding its auth lock.
+      if (event === 'SIGNED_IN' && userRef.current?.id !== session.user.id) {
+        setTimeout(() => loadProfile(session.user.id), 0);
+      }
+    });
+
+    return () => {
+      isMounted = false;
+      subscription.unsubscribe();
+    };
+  }, [loadProfile]);
+
+  const logout = useCallback(async () => {
+    await signOutUser();
+    setUser(null);
+  }, []);
 
   const value = {
     user,
     setUser,
     isAuthenticated: !!user,
+    isLoading,
+    logout,
   };
 
   return (
@@ -43,4 +186,4 @@ export const UserProvider: React.FC<UserProviderProps> = ({ children }) => {
       {children}
     </UserContext.Provider>
   );
-};
\ No newline at end of file
+};
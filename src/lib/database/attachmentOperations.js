@@ -0,0 +1,259 @@
+/*
+ * Attachment Operations
+ *
+ * Handles file and image uploads for chat messages. Files are stored in the
+ * private `chat-attachments` bucket under `<chatId>/<random name>`, and are
+ * stripped of identifying metadata before they leave the browser. Uploads go
+ * through the `upload-attachment` Edge Function, which refuses files that
+ * still carry metadata.
+ */
+
+import { supabase } from '../supabaseClient.js'
+
+const ATTACHMENT_BUCKET = 'chat-attachments';
+const UPLOAD_FUNCTION = 'upload-attachment';
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Office formats are left out: their author metadata lives inside a zip
+// archive that can't be scrubbed reliably in the browser
+const FILE_MIME_TYPES = ['application/pdf', 'text/plain'];
+
+export const ALLOWED_ATTACHMENT_TYPES = [...IMAGE_MIME_TYPES, ...FILE_MIME_TYPES];
+
+const FILE_EXTENSIONS = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf',
+  'text/plain': 'txt'
+};
+
+// PDF document-info keys and XMP tags that can name the author or their software
+const PDF_INFO_KEYS = 'Author|Creator|Producer|Title|Subject|Keywords';
+const PDF_XMP_TAGS = 'dc:creator|dc:title|pdf:Author|pdf:Producer|pdf:Keywords|xmp:CreatorTool';
+
+/**
+ * Helper function to check if a string is a valid UUID
+ */
+function isValidUUID(str) {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
+
+/**
+ * Check a file against the attachment size and type limits
+ *
+ * @param {File} file - File chosen by the user
+ * @returns {string|null} Error message, or null when the file is allowed
+ */
+export function validateAttachment(file) {
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+    return 'Only JPEG, PNG and WebP images, PDFs and plain text files can be attached';
+  }
+
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `Attachments must be ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB or smaller`;
+  }
+
+  return null;
+}
+
+/**
+ * Helper function to re-encode an image, which drops EXIF, XMP and IPTC data
+ * (camera, GPS location, author) while keeping the visible orientation
+ */
+async function stripImageMetadata(file) {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d').drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not re-encode image'))),
+      file.type,
+      0.92
+    );
+  });
+}
+
+/**
+ * Helper function to blank out PDF author metadata in place
+ *
+ * Values are overwritten with spaces of the same length so the byte offsets
+ * in the cross-reference table stay valid. Indirect values (`/Author 12 0 R`),
+ * the document info dictionary (`/Info`) and the XMP stream (`/Metadata`)
+ * are followed to their objects and blanked there. Objects inside compressed
+ * object streams can't be reached this way; the upload function rejects
+ * files that still carry metadata.
+ */
+async function stripPdfMetadata(file) {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  // One char per byte, so regex indexes map straight back to bytes
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+
+  const blank = (start, length) => bytes.fill(0x20, start, start + length);
+  const blankMatches = (pattern, source = text, offset = 0) => {
+    for (const match of source.matchAll(pattern)) {
+      const [start, end] = match.indices[1];
+      blank(offset + start, end - start);
+    }
+  };
+
+  // Document info: /Author (Jane Doe) or /Author <FEFF004A...>
+  blankMatches(new RegExp(`/(?:${PDF_INFO_KEYS})\\s*\\(((?:\\\\.|[^\\\\)])*)\\)`, 'gd'));
+  blankMatches(new RegExp(`/(?:${PDF_INFO_KEYS})\\s*<([0-9A-Fa-f\\s]*)>`, 'gd'));
+  // XMP packet: <pdf:Author>...</pdf:Author> and pdf:Producer="..."
+  blankMatches(new RegExp(`<(?:${PDF_XMP_TAGS})>([\\s\\S]*?)</(?:${PDF_XMP_TAGS})>`, 'gd'));
+  blankMatches(new RegExp(`(?:${PDF_XMP_TAGS})="([^"]*)"`, 'gd'));
+
+  // Indirect values: /Author 12 0 R, /Info 7 0 R, /Metadata 5 0 R
+  const references = new RegExp(`/(${PDF_INFO_KEYS}|Info|Metadata)\\s+(\\d+)\\s+(\\d+)\\s+R\\b`, 'g');
+
+  for (const [, key, number, generation] of text.matchAll(references)) {
+    const objects = new RegExp(`(?<![0-9])${number}\\s+${generation}\\s+obj\\b([\\s\\S]*?)\\bendobj`, 'gd');
+
+    for (const object of text.matchAll(objects)) {
+      const [start] = object.indices[1];
+
+      if (key === 'Metadata') {
+        blankMatches(/stream\r?\n([\s\S]*?)\s*endstream/gd, object[1], start);
+      } else {
+        blankMatches(/\(((?:\\.|[^\\)])*)\)/gd, object[1], start);
+        blankMatches(/<([0-9A-Fa-f\s]*)>/gd, object[1], start);
+      }
+    }
+  }
+
+  return new Blob([bytes], { type: file.type });
+}
+
+/**
+ * Remove identifying metadata from a file before upload
+ *
+ * @param {File} file - File chosen by the user
+ * @returns {Promise<Blob>} Cleaned file contents
+ */
+export async function stripAttachmentMetadata(file) {
+  if (IMAGE_MIME_TYPES.includes(file.type)) {
+    return stripImageMetadata(file);
+  }
+
+  if (file.type === 'application/pdf') {
+    return stripPdfMetadata(file);
+  }
+
+  return file;
+}
+
+/**
+ * Upload an attachment for a chat
+ *
+ * The stored object gets a random name and the message shows a generic one
+ * (`image.jpg`, `attachment.pdf`): original file names often carry the
+ * sender's name or registration number, so they never leave the browser.
+ * The `upload-attachment` function checks the file again, refuses it if it
+ * still carries metadata, and picks the stored path.
+ *
+ * @param {string} chatId - Chat thread ID
+ * @param {File} file - File chosen by the user
+ * @returns {Promise<{data: Object|null, error: Object|null}>} `data` has path, name, size, mimeType and message type
+ */
+export async function uploadAttachment(chatId, file) {
+  try {
+    const validationError = validateAttachment(file);
+    if (validationError) {
+      return { data: null, error: { message: validationError } };
+    }
+
+    const cleaned = await stripAttachmentMetadata(file);
+    // Browsers that can't encode WebP (Safari) hand back a PNG instead
+    const mimeType = cleaned.type || file.type;
+    const extension = FILE_EXTENSIONS[mimeType];
+    const type = IMAGE_MIME_TYPES.includes(mimeType) ? 'image' : 'file';
+    const attachment = {
+      path: `${chatId}/${crypto.randomUUID()}.${extension}`,
+      name: `${type === 'image' ? 'image' : 'attachment'}.${extension}`,
+      size: cleaned.size,
+      mimeType,
+      type
+    };
+
+    // Check if chatId is a valid UUID
+    if (!isValidUUID(chatId)) {
+      console.log('Skipping Supabase upload for sample chat ID:', chatId);
+      return { data: attachment, error: null };
+    }
+
+    const body = new FormData();
+    body.append('chatId', chatId);
+    body.append('file', new Blob([cleaned], { type: mimeType }), attachment.name);
+
+    const { data, error } = await supabase.functions.invoke(UPLOAD_FUNCTION, { body });
+
+    if (error) {
+      console.error('Error uploading attachment:', error);
+      const refusal = await error.context?.json?.().catch(() => null);
+      return { data: null, error: refusal?.error ? { message: refusal.error } : error };
+    }
+
+    return { data: { ...attachment, path: data.path }, error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in uploadAttachment:', err);
+    return {
+      data: null,
+      error: {
+        message: 'An unexpected error occurred while uploading attachment',
+        details: err.message
+      }
+    };
+  }
+}
+
+/**
+ * Get a short-lived URL for viewing or downloading an attachment
+ *
+ * Storage policies only sign URLs for the chat's participants and admins.
+ *
+ * @param {string} path - Attachment path (`<chatId>/<object>`)
+ * @returns {Promise<{data: {url: string}|null, error: Object|null}>}
+ */
+export async function getAttachmentUrl(path) {
+  try {
+    if (!isValidUUID(path.split('/')[0])) {
+      return { data: null, error: { message: 'Attachments are not stored for sample chats' } };
+    }
+
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+
+    if (error) {
+      console.error('Error creating attachment URL:', error);
+      return { data: null, error };
+    }
+
+    return { data: { url: data.signedUrl }, error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in getAttachmentUrl:', err);
+    return {
+      data: null,
+      error: {
+        message: 'An unexpected error occurred while loading attachment',
+        details: err.message
+      }
+    };
+  }
+}
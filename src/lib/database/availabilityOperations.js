@@ -0,0 +1,87 @@
+/*
+ * Availability Operations
+ *
+ * Faculty availability status, weekly office hours and auto-reply message,
+ * and how long students can expect to wait for a reply. The expected
+ * response is worked out by the `availability` computed field on users.
+ */
+
+import { supabase } from '../supabaseClient.js'
+
+export const AVAILABILITY_STATUSES = ['available', 'busy', 'away', 'out_of_office'];
+
+// Order `expected_response` values from quickest to slowest
+export const EXPECTED_RESPONSES = ['within_hours', 'within_day', 'next_office_hours', 'within_days', 'out_of_office'];
+
+/**
+ * Update the signed-in faculty member's availability
+ *
+ * @param {Object} settings - New availability settings
+ * @param {string} settings.status - One of AVAILABILITY_STATUSES
+ * @param {Array} [settings.officeHours] - Weekly slots ({ day, start, end }),
+ *   `day` 0 (Sunday) to 6 and times as 'HH:MM'
+ * @param {string} [settings.timezone] - IANA time zone the office hours are in
+ * @param {string} [settings.autoReply] - Sent to students while unavailable; empty to turn off
+ * @returns {Promise<{data: Object|null, error: Object|null}>} Updated user row
+ */
+export async function setAvailability({ status, officeHours = [], timezone = 'UTC', autoReply = null }) {
+  try {
+    if (!AVAILABILITY_STATUSES.includes(status)) {
+      return { data: null, error: { message: 'Invalid availability status' } };
+    }
+
+    const { data, error } = await supabase.rpc('set_availability', {
+      p_status: status,
+      p_office_hours: officeHours,
+      p_timezone: timezone,
+      p_auto_reply: autoReply
+    });
+
+    if (error) {
+      console.error('Error updating availability:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in setAvailability:', err);
+    return {
+      data: null,
+      error: {
+        message: 'An unexpected error occurred while updating your availability',
+        details: err.message
+      }
+    };
+  }
+}
+
+/**
+ * Describe how soon a faculty member is likely to reply
+ *
+ * @param {Object} availability - `availability` field of a faculty user, or
+ *   of a `routeNewChat` result
+ * @returns {string} e.g. 'Usually replies within a few hours'
+ */
+export function describeExpectedResponse(availability) {
+  if (!availability) return 'Response time unknown';
+
+  switch (availability.expected_response) {
+    case 'within_hours':
+      return 'Usually replies within a few hours';
+    case 'within_day':
+      return 'Busy right now - replies may take up to a day';
+    case 'next_office_hours': {
+      const next = availability.next_office_hours && new Date(availability.next_office_hours);
+      return next
+        ? `Replies during office hours - next ${next.toLocaleString(undefined, { weekday: 'short', hour: 'numeric', minute: '2-digit' })}`
+        : 'Replies during office hours';
+    }
+    case 'within_days':
+      return 'Away - replies may take a few days';
+    case 'out_of_office':
+      return 'Out of office';
+    default:
+      return 'Response time unknown';
+  }
+}
@@ -5,23 +5,45 @@
  */
 
 import { supabase } from '../supabaseClient.js'
+import { appendMessage } from './messageOperations.js'
+import { routeNewChat } from './routingOperations.js'
+import { EXPECTED_RESPONSES } from './availabilityOperations.js'
+
+export const CHAT_CATEGORIES = [
+  'General Question', 'Assignment Help', 'Exam Preparation',
+  'Project Guidance', 'Career Advice', 'Course Content',
+  'Technical Doubt', 'Study Material', 'Lab Work', 'Research'
+];
+
+export const CHAT_URGENCIES = ['low', 'normal', 'high', 'urgent'];
 
 /**
  * Creates a new chat thread between student and faculty
  * 
+ * Without a `facultyId` the chat is routed (see `routeNewChat`) on the
+ * course, subject, category, opening message and department; the result's
+ * `routing` says why that faculty member was chosen. If the opening message
+ * is refused, the new chat is deleted again and the message's error returned.
+ * 
  * @param {Object} chatData - Chat initialization data
  * @param {string} chatData.studentId - Student's user ID
- * @param {string} chatData.facultyId - Faculty's user ID  
+ * @param {string} [chatData.facultyId] - Faculty's user ID; routed when omitted
  * @param {string} chatData.subject - Chat subject/topic
  * @param {string} [chatData.department] - Department context
- * @param {Object} [chatData.firstMessage] - Initial message object
+ * @param {string} [chatData.courseId] - Course the question is about; routes to its instructor
+ * @param {string} [chatData.category] - One of CHAT_CATEGORIES
+ * @param {string} [chatData.urgency] - One of CHAT_URGENCIES
+ * @param {Object} [chatData.firstMessage] - Initial message ({ text, type, piiAcknowledged })
  * @returns {Promise<{data: Object|null, error: Object|null}>}
  */
 export async function startNewChat({ 
   studentId, 
-  facultyId, 
+  facultyId = null, 
   subject = 'General Question', 
   department = null,
+  courseId = null,
+  category = null,
+  urgency = 'normal',
   firstMessage = null 
 }) {
   try {
@@ -33,32 +55,31 @@ export async function startNewChat({
       };
     }
 
-    if (!facultyId) {
-      return { 
-        data: null, 
-        error: { message: 'Faculty ID is required' }
-      };
-    }
+    let routing = null;
 
-    // Create default first message if none provided
-    const defaultMessage = {
-      id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      from: 'student',
-      text: 'Hello, I have a question and would appreciate your guidance.',
-      timestamp: new Date().toISOString(),
-      type: 'text',
-      status: 'sent'
-    };
+    if (!facultyId) {
+      const { data: routed, error: routingError } = await routeNewChat({
+        department,
+        subject: [subject, category, firstMessage?.text].filter(Boolean).join(' '),
+        courseId
+      });
+
+      if (routingError) {
+        return { data: null, error: routingError };
+      }
 
-    const initialMessage = firstMessage || defaultMessage;
+      routing = routed;
+    }
 
     // Prepare chat data
     const chatData = {
       student_id: studentId,
-      faculty_id: facultyId,
+      faculty_id: facultyId || routing.faculty_id,
       subject,
       department,
-      messages: [initialMessage],
+      course_id: courseId,
+      category,
+      urgency,
       status: 'active'
     };
 
@@ -78,8 +99,34 @@ export async function startNewChat({
       return { data: null, error };
     }
 
-    console.log('New chat created successfully:', data);
-    return { data, error: null };
+    // Send the opening message as the student
+    const { data: messageData, error: messageError } = await appendMessage({
+      chatId: data.id,
+      from: 'student',
+      text: firstMessage?.text || 'Hello, I have a question and would appreciate your guidance.',
+      type: firstMessage?.type || 'text',
+      piiAcknowledged: firstMessage?.piiAcknowledged || false
+    });
+
+    if (messageError) {
+      console.error('Error sending first message:', messageError);
+      await discardEmptyChat(data.id);
+      return { data: null, error: messageError };
+    }
+
+    const firstMessageRow = messageData.message;
+
+    console.log('New chat created successfully:', data.id);
+    return { 
+      data: {
+        ...data,
+        last_message_text: firstMessageRow.text,
+        last_message_at: firstMessageRow.timestamp,
+        message_count: 1,
+        routing
+      }, 
+      error: null 
+    };
 
   } catch (err) {
     console.error('Unexpected error in startNewChat:', err);
@@ -93,9 +140,24 @@ export async function startNewChat({
   }
 }
 
+/**
+ * Helper function to delete a new chat whose opening message was refused,
+ * so it doesn't stay assigned to the faculty member
+ */
+async function discardEmptyChat(chatId) {
+  const { error } = await supabase.rpc('discard_empty_chat', { p_chat_id: chatId });
+
+  if (error) {
+    console.error('Error discarding empty chat:', error);
+  }
+}
+
 /**
  * Get available faculty members for a department
  * 
+ * Faculty who are out of office are left out; the rest come with their
+ * `availability` and are sorted by how soon they're likely to reply.
+ * 
  * @param {string} [department] - Department to filter by
  * @returns {Promise<{data: Array|null, error: Object|null}>}
  */
@@ -103,8 +165,9 @@ export async function getAvailableFaculty(department = null) {
   try {
     let query = supabase
       .from('users')
-      .select('id, anonymous_id, department, email')
-      .eq('role', 'faculty');
+      .select('id, anonymous_id, department, availability')
+      .eq('role', 'faculty')
+      .neq('availability_status', 'out_of_office');
 
     if (department) {
       query = query.eq('department', department);
@@ -117,7 +180,8 @@ export async function getAvailableFaculty(department = null) {
       return { data: null, error };
     }
 
-    return { data, error: null };
+    const responseRank = (faculty) => EXPECTED_RESPONSES.indexOf(faculty.availability?.expected_response);
+    return { data: [...data].sort((a, b) => responseRank(a) - responseRank(b)), error: null };
 
   } catch (err) {
     console.error('Unexpected error in getAvailableFaculty:', err);
@@ -9,6 +9,9 @@ import { supabase } from '../supabaseClient.js'
 /**
  * Fetches all chat threads for a specific user
  * 
+ * Each chat includes `participants`, the names to display for the student
+ * (their per-chat alias if the chat has one) and the faculty member.
+ * 
  * @param {string} userId - User's ID
  * @param {string} role - User's role ('student' or 'faculty')
  * @param {Object} [options] - Query options
@@ -23,20 +26,22 @@ export async function getUserChats(userId, role, options = {}) {
       ascending = false
     } = options;
 
-    // Build query based on user role
-    let query = supabase
-      .from('chats')
-      .select(`
-        *,
-        student:student_id(id, anonymous_id, department, year),
-        faculty:faculty_id(id, anonymous_id, department)
-      `);
-
-    // Filter by user role
+    // Build query based on user role. Faculty can't read `chats` directly:
+    // `get_faculty_chats` leaves out the student's id, and their profile
+    // when the chat has an alias
+    let query;
     if (role === 'student') {
-      query = query.eq('student_id', userId);
+      query = supabase
+        .from('chats')
+        .select(`
+          *,
+          unread_count,
+          student:student_id(id, anonymous_id, department, year),
+          faculty:faculty_id(id, anonymous_id, department)
+        `)
+        .eq('student_id', userId);
     } else if (role === 'faculty') {
-      query = query.eq('faculty_id', userId);
+      query = supabase.rpc('get_faculty_chats');
     } else {
       throw new Error('Invalid role. Must be "student" or "faculty"');
     }
@@ -57,14 +62,22 @@ export async function getUserChats(userId, role, options = {}) {
     const processedChats = data.map(chat => ({
       ...chat,
       // Add convenience fields
-      lastMessage: getLastMessageText(chat.messages),
-      lastMessageTime: chat.updated_at || chat.created_at,
-      unreadCount: 0, // Placeholder since we don't have unread count columns yet
-      otherParticipant: role === 'student' ? chat.faculty : chat.student,
-      messageCount: chat.messages ? chat.messages.length : 0,
+      lastMessage: chat.last_message_text || 'No messages yet',
+      lastMessageTime: chat.last_message_at || chat.updated_at || chat.created_at,
+      unreadCount: chat.unread_count || 0,
+      otherParticipant: role === 'student'
+        ? chat.faculty
+        : chat.student_alias ? { anonymous_id: chat.student_alias } : chat.student,
+      // Names to show for each side; aliased students appear under their
+      // per-chat pseudonym
+      participants: {
+        student: chat.student_alias || chat.student?.anonymous_id || 'Student#Unknown',
+        faculty: chat.faculty?.anonymous_id || 'Faculty#Unknown'
+      },
+      messageCount: chat.message_count || 0,
       // Add formatted timestamps
       createdAtFormatted: new Date(chat.created_at).toLocaleString(),
-      last_message_at: chat.updated_at || chat.created_at
+      last_message_at: chat.last_message_at || chat.updated_at || chat.created_at
     }));
 
     console.log(`Fetched ${processedChats.length} chats for ${role} ${userId}`);
@@ -92,14 +105,14 @@ export async function getUserChats(userId, role, options = {}) {
 export async function getUserChatStats(userId, role) {
   try {
     // Build query based on user role
-    let query = supabase
-      .from('chats')
-      .select('created_at, messages, status');
-
+    let query;
     if (role === 'student') {
-      query = query.eq('student_id', userId);
+      query = supabase
+        .from('chats')
+        .select('created_at, message_count, status')
+        .eq('student_id', userId);
     } else if (role === 'faculty') {
-      query = query.eq('faculty_id', userId);
+      query = supabase.rpc('get_faculty_chats').select('created_at, message_count, status');
     } else {
       throw new Error('Invalid role. Must be "student" or "faculty"');
     }
@@ -117,7 +130,7 @@ export async function getUserChatStats(userId, role) {
       activeChats: data.filter(chat => chat.status === 'active').length,
       resolvedChats: data.filter(chat => chat.status === 'resolved').length,
       archivedChats: data.filter(chat => chat.status === 'archived').length,
-      totalMessages: data.reduce((sum, chat) => sum + (chat.messages?.length || 0), 0),
+      totalMessages: data.reduce((sum, chat) => sum + (chat.message_count || 0), 0),
       chatsThisWeek: data.filter(chat => {
         const chatDate = new Date(chat.created_at);
         const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
@@ -164,24 +177,27 @@ export async function searchUserChats(userId, role, searchTerm, options = {}) {
       return { data: null, error };
     }
 
+    const searchLower = searchTerm.toLowerCase();
+
+    // Find chats with matching messages (RLS limits this to the user's chats)
+    const { data: matchingMessages, error: messageError } = await supabase
+      .from('messages')
+      .select('chat_id')
+      .ilike('body', `%${searchTerm}%`)
+      .is('deleted_at', null)
+      .limit(1000);
+
+    if (messageError) {
+      return { data: null, error: messageError };
+    }
+
+    const matchingChatIds = new Set(matchingMessages.map(message => message.chat_id));
+
     // Filter chats based on search term
-    const searchResults = chats.filter(chat => {
-      const searchLower = searchTerm.toLowerCase();
-      
-      // Search in subject
-      if (chat.subject && chat.subject.toLowerCase().includes(searchLower)) {
-        return true;
-      }
-      
-      // Search in messages
-      if (chat.messages && Array.isArray(chat.messages)) {
-        return chat.messages.some(message => 
-          message.text && message.text.toLowerCase().includes(searchLower)
-        );
-      }
-      
-      return false;
-    }).slice(0, limit);
+    const searchResults = chats.filter(chat => 
+      (chat.subject && chat.subject.toLowerCase().includes(searchLower)) ||
+      matchingChatIds.has(chat.id)
+    ).slice(0, limit);
 
     return { data: searchResults, error: null };
 
@@ -195,16 +211,4 @@ export async function searchUserChats(userId, role, searchTerm, options = {}) {
       }
     };
   }
-}
-
-/**
- * Helper function to extract last message text from messages array
- */
-function getLastMessageText(messages) {
-  if (!messages || !Array.isArray(messages) || messages.length === 0) {
-    return 'No messages yet';
-  }
-  
-  const lastMessage = messages[messages.length - 1];
-  return lastMessage.text || 'Message content unavailable';
 }
\ No newline at end of file
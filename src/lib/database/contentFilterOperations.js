@@ -0,0 +1,370 @@
+/*
+ * Content Filter Operations
+ *
+ * Pluggable moderation pipeline that runs on outgoing messages before they
+ * are stored, and management of the rules it runs (`moderation_rules`).
+ *
+ * Each rule has a kind, handled by one filter, and an action: 'block' (the
+ * message is not sent), 'warn' (the sender confirms first) or 'flag' (the
+ * message is sent and a report is filed automatically). The database runs
+ * the same rules on every stored message: it refuses blocked ones, logs the
+ * decisions and files the automated reports.
+ */
+
+import { supabase } from '../supabaseClient.js'
+
+export const MESSAGE_BLOCKED_ERROR = 'message_blocked';
+
+export const CONTENT_RULE_KINDS = ['word_list', 'regex', 'score'];
+
+export const CONTENT_RULE_ACTIONS = ['block', 'warn', 'flag'];
+
+// The pipeline's overall action is its most severe match
+const ACTION_SEVERITY = { allow: 0, flag: 1, warn: 2, block: 3 };
+
+const RULES_CACHE_MS = 60 * 1000;
+
+let rulesCache = { rules: null, loadedAt: 0 };
+
+/**
+ * Helper function to check if a string is a valid UUID
+ */
+function isValidUUID(str) {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
+
+/**
+ * Helper function to lowercase text and undo common letter substitutions
+ * ("sh1t", "@ss") so word lists catch them
+ */
+function normalizeText(text) {
+  const substitutions = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's' };
+  return text.toLowerCase().replace(/[013457@$]/g, ch => substitutions[ch]);
+}
+
+function escapeRegExp(text) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function findWord(normalizedText, word) {
+  const pattern = new RegExp(`(^|[^a-z0-9])${escapeRegExp(normalizeText(word.trim()))}($|[^a-z0-9])`);
+  return pattern.test(normalizedText);
+}
+
+const HOSTILE_TERMS = ['hate', 'stupid', 'idiot', 'dumb', 'useless', 'shut up', 'pathetic', 'worthless', 'moron'];
+
+/**
+ * Local hostility score between 0 and 1
+ *
+ * A stub until a real classifier is plugged in with
+ * `registerContentFilter('score', ...)`: it weighs hostile terms, whether
+ * they're aimed at "you", shouting in capitals and runs of "!!!"/"???".
+ */
+function scoreMessage(text) {
+  const normalized = normalizeText(text);
+  const hostileHits = HOSTILE_TERMS.filter(term => findWord(normalized, term)).length;
+  const aimedAtReader = hostileHits > 0 && /(^|[^a-z])(you|your|you're|u|ur)([^a-z]|$)/.test(normalized);
+
+  const letters = text.replace(/[^a-z]/gi, '');
+  const capsRatio = letters.length >= 8 ? letters.replace(/[^A-Z]/g, '').length / letters.length : 0;
+  const shouting = /[!?]{3,}/.test(text);
+
+  const score = hostileHits * 0.35 + (aimedAtReader ? 0.25 : 0) + capsRatio * 0.3 + (shouting ? 0.1 : 0);
+  return Math.round(Math.min(1, score) * 100) / 100;
+}
+
+/*
+ * Filters by rule kind: (text, config) => null when the rule doesn't match,
+ * otherwise { matched, score }
+ */
+const contentFilters = {
+  word_list: (text, config) => {
+    const normalized = normalizeText(text);
+    const word = (config.words || []).find(candidate => candidate.trim() && findWord(normalized, candidate));
+    return word ? { matched: word, score: null } : null;
+  },
+
+  regex: (text, config) => {
+    try {
+      const flags = (config.flags || 'i').replace(/[gy]/g, '');
+      const match = text.match(new RegExp(config.pattern, flags));
+      return match ? { matched: match[0], score: null } : null;
+    } catch (err) {
+      console.error('Invalid content filter pattern:', config.pattern, err);
+      return null;
+    }
+  },
+
+  score: (text, config) => {
+    const score = scoreMessage(text);
+    return score >= (config.threshold ?? 0.8) ? { matched: null, score } : null;
+  }
+};
+
+/**
+ * Add or replace the filter for a rule kind (e.g. a real classifier for
+ * 'score'). Rules of a kind with no filter are skipped.
+ *
+ * @param {string} kind - Rule kind
+ * @param {Function} evaluate - (text, config) => null | { matched, score }
+ */
+export function registerContentFilter(kind, evaluate) {
+  contentFilters[kind] = evaluate;
+}
+
+/**
+ * Helper function to get the enabled rules, cached for RULES_CACHE_MS
+ */
+async function getEnabledRules() {
+  if (rulesCache.rules && Date.now() - rulesCache.loadedAt < RULES_CACHE_MS) {
+    return rulesCache.rules;
+  }
+
+  const { data, error } = await getModerationRules();
+  if (error) {
+    // The database still enforces block rules
+    return rulesCache.rules || [];
+  }
+
+  rulesCache = { rules: data, loadedAt: Date.now() };
+  return data;
+}
+
+/**
+ * Run a message through the moderation pipeline
+ *
+ * @param {string} text - Message content
+ * @returns {Promise<{data: {action: string, decisions: Array}|null, error: Object|null}>}
+ *   `action` is 'allow', 'flag', 'warn' or 'block'; each decision names the
+ *   rule that matched and what it matched
+ */
+export async function checkMessageContent(text) {
+  try {
+    const rules = await getEnabledRules();
+    const decisions = [];
+
+    for (const rule of rules) {
+      const filter = contentFilters[rule.kind];
+      const result = filter ? filter(text, rule.config || {}) : null;
+
+      if (result) {
+        decisions.push({
+          rule_id: rule.id,
+          rule_name: rule.name,
+          action: rule.action,
+          matched: result.matched,
+          score: result.score
+        });
+      }
+    }
+
+    const action = decisions.reduce(
+      (worst, decision) => ACTION_SEVERITY[decision.action] > ACTION_SEVERITY[worst] ? decision.action : worst,
+      'allow'
+    );
+
+    return { data: { action, decisions }, error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in checkMessageContent:', err);
+    return {
+      data: null,
+      error: {
+        message: 'An unexpected error occurred while checking message content',
+        details: err.message
+      }
+    };
+  }
+}
+
+/**
+ * Log the pipeline's decisions about a message that was never stored
+ *
+ * Stored messages and edits are checked and logged by the database, which
+ * also files the automated report for flagged ones.
+ *
+ * @param {string} chatId - Chat thread ID
+ * @param {string} outcome - 'blocked' or 'withdrawn' (sender cancelled after a warning)
+ * @param {Array} decisions - Decisions from `checkMessageContent`
+ * @returns {Promise<{data: Object|null, error: Object|null}>}
+ */
+export async function logModerationDecisions(chatId, outcome, decisions) {
+  try {
+    // Nothing matched, or a sample chat
+    if (decisions.length === 0 || !isValidUUID(chatId)) {
+      return { data: { success: true }, error: null };
+    }
+
+    const { error } = await supabase.rpc('log_moderation_decisions', {
+      p_chat_id: chatId,
+      p_outcome: outcome,
+      p_decisions: decisions.map(({ rule_id, matched, score }) => ({ rule_id, matched, score }))
+    });
+
+    if (error) {
+      console.error('Error logging moderation decisions:', error);
+      return { data: null, error };
+    }
+
+    return { data: { success: true }, error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in logModerationDecisions:', err);
+    return {
+      data: null,
+      error: {
+        message: 'An unexpected error occurred while logging moderation decisions',
+        details: err.message
+      }
+    };
+  }
+}
+
+/**
+ * Get the content filter rules
+ *
+ * Users only see enabled rules; admins also see disabled ones.
+ *
+ * @returns {Promise<{data: Array|null, error: Object|null}>}
+ */
+export async function getModerationRules() {
+  try {
+    const { data, error } = await supabase
+      .from('moderation_rules')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching moderation rules:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in getModerationRules:', err);
+    return {
+      data: null,
+      error: {
+        message: 'An unexpected error occurred while fetching moderation rules',
+        details: err.message
+      }
+    };
+  }
+}
+
+/**
+ * Create or update a content filter rule (admin only)
+ *
+ * @param {Object} rule - Rule to save
+ * @param {string} [rule.id] - Existing rule ID (omit to create)
+ * @param {string} rule.name - Display name
+ * @param {string} rule.kind - One of CONTENT_RULE_KINDS
+ * @param {Object} rule.config - { words } | { pattern, flags } | { threshold }
+ * @param {string} rule.action - One of CONTENT_RULE_ACTIONS
+ * @param {boolean} [rule.enabled] - Whether the rule runs
+ * @returns {Promise<{data: Object|null, error: Object|null}>}
+ */
+export async function saveModerationRule({ id = null, name, kind, config, action, enabled = true }) {
+  try {
+    if (kind === 'regex') {
+      try {
+        new RegExp(config.pattern, config.flags || 'i');
+      } catch {
+        return { data: null, error: { message: 'Invalid regular expression' } };
+      }
+    }
+
+    const row = { name: name.trim(), kind, config, action, enabled };
+    const query = id
+      ? supabase.from('moderation_rules').update(row).eq('id', id)
+      : supabase.from('moderation_rules').insert([row]);
+
+    const { data, error } = await query.select().single();
+
+    if (error) {
+      console.error('Error saving moderation rule:', error);
+      return { data: null, error };
+    }
+
+    rulesCache = { rules: null, loadedAt: 0 };
+    return { data, error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in saveModerationRule:', err);
+    return {
+      data: null,
+      error: {
+        message: 'An unexpected error occurred while saving the rule',
+        details: err.message
+      }
+    };
+  }
+}
+
+/**
+ * Delete a content filter rule (admin only)
+ *
+ * @param {string} ruleId - Rule ID
+ * @returns {Promise<{data: Object|null, error: Object|null}>}
+ */
+export async function deleteModerationRule(ruleId) {
+  try {
+    const { error } = await supabase
+      .from('moderation_rules')
+      .delete()
+      .eq('id', ruleId);
+
+    if (error) {
+      console.error('Error deleting moderation rule:', error);
+      return { data: null, error };
+    }
+
+    rulesCache = { rules: null, loadedAt: 0 };
+    return { data: { success: true }, error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in deleteModerationRule:', err);
+    return {
+      data: null,
+      error: {
+        message: 'An unexpected error occurred while deleting the rule',
+        details: err.message
+      }
+    };
+  }
+}
+
+/**
+ * Get the most recent content filter decisions (admin only)
+ *
+ * @param {number} [limit] - Maximum number of decisions
+ * @returns {Promise<{data: Array|null, error: Object|null}>}
+ */
+export async function getModerationDecisions(limit = 50) {
+  try {
+    const { data, error } = await supabase
+      .from('moderation_decisions')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching moderation decisions:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in getModerationDecisions:', err);
+    return {
+      data: null,
+      error: {
+        message: 'An unexpected error occurred while fetching moderation decisions',
+        details: err.message
+      }
+    };
+  }
+}
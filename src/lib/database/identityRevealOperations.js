@@ -0,0 +1,182 @@
+/*
+ * Identity Reveal Operations
+ *
+ * Lets a student share their name or department with the faculty member of
+ * one chat, and take it back. Faculty can ask, but only the student can
+ * reveal. Every request, reveal, decline and revoke is logged by the
+ * database functions these helpers call.
+ */
+
+import { supabase } from '../supabaseClient.js'
+import { subscribeToChannel } from './realtimeOperations.js'
+
+export const REVEAL_FIELDS = ['name', 'department'];
+
+/**
+ * Helper function to check if a string is a valid UUID
+ */
+function isValidUUID(str) {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
+
+/**
+ * Helper function to call an identity reveal RPC for a chat
+ */
+async function callRevealRpc(rpcName, params, verb) {
+  try {
+    if (!isValidUUID(params.p_chat_id)) {
+      return { data: null, error: { message: 'Identity reveal is not available in sample chats' } };
+    }
+
+    const { data, error } = await supabase.rpc(rpcName, params);
+
+    if (error) {
+      console.error(`Error in ${rpcName}:`, error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+
+  } catch (err) {
+    console.error(`Unexpected error in ${rpcName}:`, err);
+    return {
+      data: null,
+      error: {
+        message: `An unexpected error occurred while ${verb}`,
+        details: err.message
+      }
+    };
+  }
+}
+
+/**
+ * Get the reveal state of a chat and, while the student's identity is
+ * shared, the details they chose to share
+ *
+ * @param {string} chatId - Chat ID
+ * @returns {Promise<{data: {reveal: Object|null, identity: Object|null}|null, error: Object|null}>}
+ *   `reveal` is the `identity_reveals` row (null if nothing was ever asked
+ *   or shared); `identity` holds `name` and/or `department` and `year`
+ */
+export async function getIdentityReveal(chatId) {
+  try {
+    if (!isValidUUID(chatId)) {
+      return { data: { reveal: null, identity: null }, error: null };
+    }
+
+    const { data: reveal, error } = await supabase
+      .from('identity_reveals')
+      .select('chat_id, status, fields, request_note, updated_at')
+      .eq('chat_id', chatId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching identity reveal:', error);
+      return { data: null, error };
+    }
+
+    if (reveal?.status !== 'revealed') {
+      return { data: { reveal, identity: null }, error: null };
+    }
+
+    const { data: identity, error: identityError } = await supabase.rpc('get_revealed_identity', { p_chat_id: chatId });
+
+    if (identityError) {
+      console.error('Error fetching revealed identity:', identityError);
+      return { data: null, error: identityError };
+    }
+
+    return { data: { reveal, identity }, error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in getIdentityReveal:', err);
+    return {
+      data: null,
+      error: {
+        message: 'An unexpected error occurred while fetching the identity reveal',
+        details: err.message
+      }
+    };
+  }
+}
+
+/**
+ * Ask the student to reveal their identity (faculty only)
+ *
+ * Nothing is shared until the student accepts.
+ *
+ * @param {string} chatId - Chat ID
+ * @param {string} [note] - Why the faculty member is asking, shown to the student
+ * @returns {Promise<{data: Object|null, error: Object|null}>}
+ */
+export async function requestIdentityReveal(chatId, note = '') {
+  return callRevealRpc(
+    'request_identity_reveal',
+    { p_chat_id: chatId, p_note: note.trim() || null },
+    'requesting an identity reveal'
+  );
+}
+
+/**
+ * Share the chosen details with this chat's faculty member (student only)
+ *
+ * @param {string} chatId - Chat ID
+ * @param {string[]} fields - Any of REVEAL_FIELDS
+ * @returns {Promise<{data: Object|null, error: Object|null}>}
+ */
+export async function revealIdentity(chatId, fields) {
+  return callRevealRpc(
+    'reveal_identity',
+    { p_chat_id: chatId, p_fields: fields },
+    'revealing your identity'
+  );
+}
+
+/**
+ * Turn down the faculty member's reveal request (student only)
+ *
+ * @param {string} chatId - Chat ID
+ * @returns {Promise<{data: Object|null, error: Object|null}>}
+ */
+export async function declineIdentityReveal(chatId) {
+  return callRevealRpc(
+    'decline_identity_reveal',
+    { p_chat_id: chatId },
+    'declining the reveal request'
+  );
+}
+
+/**
+ * Stop sharing your identity in a chat (student only)
+ *
+ * @param {string} chatId - Chat ID
+ * @returns {Promise<{data: Object|null, error: Object|null}>}
+ */
+export async function revokeIdentityReveal(chatId) {
+  return callRevealRpc(
+    'revoke_identity_reveal',
+    { p_chat_id: chatId },
+    'revoking the identity reveal'
+  );
+}
+
+/**
+ * Subscribe to reveal requests, reveals and revokes in a chat
+ *
+ * @param {string} chatId - Chat ID
+ * @param {Function} onChange - Called with the updated `identity_reveals` row
+ * @returns {Function} Unsubscribe function
+ */
+export function subscribeToIdentityReveal(chatId, onChange) {
+  const subscription = subscribeToChannel(
+    `identity-reveal:${chatId}`,
+    (channel) => channel.on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'identity_reveals', filter: `chat_id=eq.${chatId}` },
+      (payload) => onChange(payload.new)
+    )
+  );
+
+  return subscription.unsubscribe;
+}
@@ -6,13 +6,24 @@
  */
 
 // User management
-export { registerUser, checkUserExists } from './userOperations.js'
+export { registerUser, checkUserExists, signInUser, signOutUser, getUserProfile, getAccountRestriction, setPerChatAliases, setSubjectTags, ANONYMOUS_ID_STYLES } from './userOperations.js'
 
 // Chat management
-export { startNewChat, getAvailableFaculty } from './chatOperations.js'
-export { appendMessage, markMessagesAsRead, getChatMessages } from './messageOperations.js'
+export { startNewChat, getAvailableFaculty, CHAT_CATEGORIES, CHAT_URGENCIES } from './chatOperations.js'
+export { setAvailability, describeExpectedResponse, AVAILABILITY_STATUSES, EXPECTED_RESPONSES } from './availabilityOperations.js'
+export { routeNewChat, getCourses } from './routingOperations.js'
+export { appendMessage, editMessage, deleteMessage, getMessageRevisions, MESSAGE_EDIT_WINDOW_MS, markMessagesAsRead, markMessagesAsDelivered, getChatMessages, subscribeToChatMessages, subscribeToUserMessages } from './messageOperations.js'
 export { getUserChats, getUserChatStats, searchUserChats } from './chatRetrieval.js'
-export { reportIssue, getAllReports, resolveReport } from './reportOperations.js'
+export { reportIssue, getAllReports, getMyReports, subscribeToMyReports, resolveReport } from './reportOperations.js'
+export { setReportStatus, assignReport, addReportNote, takeModerationAction, getMyWarnings, acknowledgeWarning, setAccountStatus, getAccountStatusHistory, REPORT_STATUSES, MODERATION_ACTIONS, ACCOUNT_STATUSES } from './moderationOperations.js'
+export { checkMessageContent, logModerationDecisions, registerContentFilter, getModerationRules, saveModerationRule, deleteModerationRule, getModerationDecisions, MESSAGE_BLOCKED_ERROR, CONTENT_RULE_KINDS, CONTENT_RULE_ACTIONS } from './contentFilterOperations.js'
+export { detectPII, redactPII, PII_DETECTED_ERROR } from './piiOperations.js'
+export { getIdentityReveal, requestIdentityReveal, revealIdentity, declineIdentityReveal, revokeIdentityReveal, subscribeToIdentityReveal, REVEAL_FIELDS } from './identityRevealOperations.js'
+export { unmaskUser, getUnmaskAuditLog, MIN_UNMASK_JUSTIFICATION_LENGTH } from './unmaskOperations.js'
+export { getChatReactions, addReaction, removeReaction, subscribeToReactions } from './reactionOperations.js'
+export { uploadAttachment, getAttachmentUrl, validateAttachment, stripAttachmentMetadata, ALLOWED_ATTACHMENT_TYPES, MAX_ATTACHMENT_SIZE } from './attachmentOperations.js'
+export { subscribeToChannel, subscribeToTyping } from './realtimeOperations.js'
+export { queueMessage, getQueuedMessages, requeueMessage, discardMessage, clearOutbox, flushOutbox, startOutboxSync } from './outboxOperations.js'
 
 // Supabase client
 export { supabase } from '../supabaseClient.js'
\ No newline at end of file
@@ -5,6 +5,12 @@
  */
 
 import { supabase } from '../supabaseClient.js'
+import { subscribeToChannel } from './realtimeOperations.js'
+import { checkMessageContent, logModerationDecisions, MESSAGE_BLOCKED_ERROR } from './contentFilterOperations.js'
+import { detectPII, PII_DETECTED_ERROR } from './piiOperations.js'
+
+// Mirrors the window enforced by `edit_message`
+export const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
 
 /**
  * Helper function to check if a string is a valid UUID
@@ -14,96 +20,194 @@ function isValidUUID(str) {
   return uuidRegex.test(str);
 }
 
+/**
+ * Helper function to build the error returned for a message the content
+ * filter blocks
+ */
+function blockedError(decisions) {
+  const rules = decisions.filter(decision => decision.action === 'block').map(decision => decision.rule_name);
+  return {
+    code: MESSAGE_BLOCKED_ERROR,
+    message: `Message blocked by the content filter (${rules.join(', ')})`
+  };
+}
+
+/**
+ * Helper function to warn about personal details before sending; the error
+ * carries the matches so the sender can be shown what was found. This only
+ * saves a round trip: names are checked by the database.
+ */
+async function checkPII(text) {
+  const { data: piiMatches, error: piiError } = await detectPII(text);
+  if (piiError) {
+    return { error: piiError };
+  }
+
+  if (piiMatches.length > 0) {
+    return {
+      error: {
+        code: PII_DETECTED_ERROR,
+        message: 'This message contains personal details that could identify you',
+        matches: piiMatches
+      }
+    };
+  }
+
+  return { error: null };
+}
+
+/**
+ * Helper function to turn the database's refusal of text that may contain
+ * someone's name into PII_DETECTED_ERROR; the database doesn't say which
+ * word it found, so there are no matches
+ */
+function toPIIError(error) {
+  return error?.hint === PII_DETECTED_ERROR
+    ? { code: PII_DETECTED_ERROR, message: error.message, matches: [] }
+    : error;
+}
+
+/**
+ * Converts a `messages` row into the message shape used by the UI
+ * 
+ * @param {Object} row - Row from the messages table
+ * @returns {Object} Message with id, from, text, type, timestamp and receipt status
+ */
+export function toMessage(row) {
+  return {
+    id: row.id,
+    chatId: row.chat_id,
+    from: row.sender_role,
+    text: row.body,
+    type: row.type || 'text',
+    timestamp: row.created_at,
+    editedAt: row.edited_at,
+    deletedAt: row.deleted_at,
+    deliveredAt: row.delivered_at,
+    readAt: row.read_at,
+    isAutoReply: row.is_auto_reply || false,
+    attachment: row.attachment_path
+      ? {
+          path: row.attachment_path,
+          name: row.attachment_name,
+          size: row.attachment_size,
+          mimeType: row.attachment_mime
+        }
+      : null,
+    status: row.read_at ? 'read' : row.delivered_at ? 'delivered' : 'sent'
+  };
+}
+
 /**
  * Appends a new message to an existing chat thread
  * 
+ * Each message is a single row insert, so concurrent senders never
+ * overwrite each other. Text messages go through the content filter first:
+ * blocked messages aren't stored, and the filter's decisions are returned as
+ * `data.moderation` (the database logs them and reports flagged messages).
+ * Text containing personal details is refused with PII_DETECTED_ERROR unless
+ * the sender has seen the warning and chosen to send it anyway: emails, phone
+ * numbers and IDs are found here (with the matches), names by the database
+ * when the message is written (without them).
+ * 
  * @param {Object} messageData - Message data to append
+ * @param {string} [messageData.id] - Client-generated UUID, used to match optimistic messages
  * @param {string} messageData.chatId - Chat thread ID
  * @param {string} messageData.from - Sender ('student' or 'faculty')
  * @param {string} messageData.text - Message content
  * @param {string} [messageData.type] - Message type ('text', 'file', 'image')
- * @param {string} [messageData.timestamp] - Message timestamp
+ * @param {Object} [messageData.attachment] - Uploaded file (see `uploadAttachment`) for 'file' and 'image' messages
+ * @param {boolean} [messageData.piiAcknowledged] - The sender was warned about personal details in the text
  * @returns {Promise<{data: Object|null, error: Object|null}>}
  */
 export async function appendMessage({ 
+  id = null,
   chatId, 
   from, 
   text, 
-  type = 'text', 
-  timestamp = null 
+  type = 'text',
+  attachment = null,
+  piiAcknowledged = false
 }) {
   try {
+    let moderation = { action: 'allow', decisions: [] };
+
+    if (type === 'text') {
+      const { data: verdict, error: filterError } = await checkMessageContent(text);
+      if (filterError) {
+        return { data: null, error: filterError };
+      }
+      moderation = verdict;
+    }
+
+    if (moderation.action === 'block') {
+      await logModerationDecisions(chatId, 'blocked', moderation.decisions);
+      return { data: null, error: blockedError(moderation.decisions) };
+    }
+
+    if (type === 'text' && !piiAcknowledged) {
+      const { error: piiError } = await checkPII(text);
+      if (piiError) {
+        return { data: null, error: piiError };
+      }
+    }
+
     // Check if chatId is a valid UUID
     if (!isValidUUID(chatId)) {
-      console.log('Skipping Supabase update for sample chat ID:', chatId);
+      console.log('Skipping Supabase insert for sample chat ID:', chatId);
       // Return a mock success response for sample data
       const mockMessage = {
-        id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        id: id || `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        chatId,
         from,
         text: text.trim(),
         type,
-        timestamp: timestamp || new Date().toISOString(),
+        timestamp: new Date().toISOString(),
+        attachment,
         status: 'sent'
       };
       return { 
         data: { 
           chat: { id: chatId }, 
-          message: mockMessage 
+          message: mockMessage,
+          moderation
         }, 
         error: null 
       };
     }
 
-    // Create message object
-    const newMessage = {
-      id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      from,
-      text: text.trim(),
-      type,
-      timestamp: timestamp || new Date().toISOString(),
-      status: 'sent'
-    };
-
-    // First, get the current chat to access existing messages
-    const { data: currentChat, error: fetchError } = await supabase
-      .from('chats')
-      .select('messages')
-      .eq('id', chatId)
-      .single();
-
-    if (fetchError) {
-      console.error('Error fetching current chat:', fetchError);
-      return { data: null, error: fetchError };
-    }
-
-    // Append new message to existing messages array
-    const updatedMessages = [...(currentChat.messages || []), newMessage];
-
-    // Update chat with new message
     const { data, error } = await supabase
-      .from('chats')
-      .update({
-        messages: updatedMessages,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', chatId)
-      .select(`
-        *,
-        student:student_id(id, anonymous_id, department, year),
-        faculty:faculty_id(id, anonymous_id, department)
-      `)
+      .from('messages')
+      .insert([{
+        ...(id ? { id } : {}),
+        chat_id: chatId,
+        sender_role: from,
+        body: text.trim(),
+        type,
+        pii_acknowledged: piiAcknowledged,
+        ...(attachment ? {
+          attachment_path: attachment.path,
+          attachment_name: attachment.name,
+          attachment_size: attachment.size,
+          attachment_mime: attachment.mimeType
+        } : {})
+      }])
+      .select()
       .single();
 
     if (error) {
       console.error('Error appending message:', error);
-      return { data: null, error };
+      return { data: null, error: toPIIError(error) };
     }
 
-    console.log('Message appended successfully:', newMessage);
+    const newMessage = toMessage(data);
+
+    console.log('Message appended successfully:', newMessage.id);
     return { 
       data: { 
-        chat: data, 
-        message: newMessage 
+        chat: { id: chatId }, 
+        message: newMessage,
+        moderation
       }, 
       error: null 
     };
@@ -120,12 +224,165 @@ export async function appendMessage({
   }
 }
 
+/**
+ * Edit one of the current user's text messages
+ * 
+ * Only allowed within MESSAGE_EDIT_WINDOW_MS of sending. The previous text is
+ * kept in `message_revisions` for moderators. Edits go through the content
+ * filter like new messages: ones it would block are refused, and the
+ * decisions on a saved edit are returned as `data.moderation` (the database
+ * logs them and reports flagged edits). Personal details are refused
+ * with PII_DETECTED_ERROR unless acknowledged, as in `appendMessage`.
+ * 
+ * @param {string} messageId - Message ID
+ * @param {string} text - New message content
+ * @param {Object} [options] - Edit options
+ * @param {boolean} [options.piiAcknowledged] - The sender was warned about personal details in the text
+ * @returns {Promise<{data: Object|null, error: Object|null}>}
+ */
+export async function editMessage(messageId, text, { piiAcknowledged = false } = {}) {
+  const { data: verdict, error: filterError } = await checkMessageContent(text);
+  if (filterError) {
+    return { data: null, error: filterError };
+  }
+
+  if (verdict.action === 'block') {
+    return { data: null, error: blockedError(verdict.decisions) };
+  }
+
+  if (!piiAcknowledged) {
+    const { error: piiError } = await checkPII(text);
+    if (piiError) {
+      return { data: null, error: piiError };
+    }
+  }
+
+  const result = await changeMessage(
+    'edit_message',
+    { p_message_id: messageId, p_body: text.trim(), p_pii_acknowledged: piiAcknowledged },
+    'editing'
+  );
+  return result.data ? { data: { ...result.data, moderation: verdict }, error: null } : result;
+}
+
+/**
+ * Delete (unsend) one of the current user's messages
+ * 
+ * The message stays in the thread as "message deleted"; its content is only
+ * kept in `message_revisions` for moderators. An attached file stays in
+ * storage, but only admins can open it from then on.
+ * 
+ * @param {string} messageId - Message ID
+ * @returns {Promise<{data: Object|null, error: Object|null}>}
+ */
+export async function deleteMessage(messageId) {
+  return changeMessage('delete_message', { p_message_id: messageId }, 'deleting');
+}
+
+/**
+ * Helper function to call an edit/delete RPC and return the updated message
+ */
+async function changeMessage(rpcName, params, verb) {
+  try {
+    // For sample IDs, just return success
+    if (!isValidUUID(params.p_message_id)) {
+      return { data: { success: true, message: null }, error: null };
+    }
+
+    const { data, error } = await supabase.rpc(rpcName, params);
+
+    if (error) {
+      console.error(`Error in ${rpcName}:`, error);
+      return { data: null, error: toPIIError(error) };
+    }
+
+    return { data: { success: true, message: toMessage(data) }, error: null };
+
+  } catch (err) {
+    console.error(`Unexpected error in ${rpcName}:`, err);
+    return { 
+      data: null, 
+      error: { 
+        message: `An unexpected error occurred while ${verb} message`,
+        details: err.message 
+      }
+    };
+  }
+}
+
+/**
+ * Get the edit and delete history of a chat's messages (admin only)
+ * 
+ * Each revision holds a message's content as it was before that change.
+ * 
+ * @param {string} chatId - Chat thread ID
+ * @returns {Promise<{data: Array|null, error: Object|null}>}
+ */
+export async function getMessageRevisions(chatId) {
+  try {
+    if (!isValidUUID(chatId)) {
+      return { data: [], error: null };
+    }
+
+    const { data, error } = await supabase
+      .from('message_revisions')
+      .select('*')
+      .eq('chat_id', chatId)
+      .order('revised_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching message revisions:', error);
+      return { data: null, error };
+    }
+
+    return { data: data.map(toRevision), error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in getMessageRevisions:', err);
+    return { 
+      data: null, 
+      error: { 
+        message: 'An unexpected error occurred while fetching message history',
+        details: err.message 
+      }
+    };
+  }
+}
+
+/**
+ * Converts a `message_revisions` row into the revision shape used by the UI
+ * 
+ * @param {Object} row - Row from the message_revisions table
+ * @returns {Object} Revision with id, messageId, action, text, type, attachment and revisedAt
+ */
+export function toRevision(row) {
+  return {
+    id: row.id,
+    messageId: row.message_id,
+    action: row.action,
+    text: row.body,
+    type: row.type,
+    attachment: row.attachment_path
+      ? {
+          path: row.attachment_path,
+          name: row.attachment_name,
+          size: row.attachment_size,
+          mimeType: row.attachment_mime
+        }
+      : null,
+    revisedAt: row.revised_at
+  };
+}
+
 /**
  * Get message history for a chat
  * 
+ * Pages back from the newest message: offset 0 is the latest page.
+ * Messages within the page are returned oldest first.
+ * 
  * @param {string} chatId - Chat thread ID
  * @param {number} [limit] - Maximum number of messages to return
- * @param {number} [offset] - Number of messages to skip (for pagination)
+ * @param {number} [offset] - Number of newer messages to skip (for pagination)
  * @returns {Promise<{data: Array|null, error: Object|null}>}
  */
 export async function getChatMessages(chatId, limit = 50, offset = 0) {
@@ -138,23 +395,18 @@ export async function getChatMessages(chatId, limit = 50, offset = 0) {
     }
 
     const { data, error } = await supabase
-      .from('chats')
-      .select('messages')
-      .eq('id', chatId)
-      .single();
+      .from('messages')
+      .select('*')
+      .eq('chat_id', chatId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
 
     if (error) {
       console.error('Error fetching chat messages:', error);
       return { data: null, error };
     }
 
-    // Extract and paginate messages
-    const messages = data.messages || [];
-    const paginatedMessages = messages
-      .slice(offset, offset + limit)
-      .sort((a, b) => new Date(a.timestamp) - new Date(b.timestamp));
-
-    return { data: paginatedMessages, error: null };
+    return { data: data.map(toMessage).reverse(), error: null };
 
   } catch (err) {
     console.error('Unexpected error in getChatMessages:', err);
@@ -169,31 +421,110 @@ export async function getChatMessages(chatId, limit = 50, offset = 0) {
 }
 
 /**
- * Mark messages as read for a specific user
+ * Subscribe to new messages in a chat
+ * 
+ * @param {string} chatId - Chat thread ID
+ * @param {Object} handlers - Event handlers
+ * @param {Function} handlers.onInsert - Called with each new message (see `toMessage`)
+ * @param {Function} [handlers.onUpdate] - Called when a message changes (receipts, edits)
+ * @param {Function} [handlers.onStatusChange] - Called with the channel subscribe status
+ * @returns {Function} Unsubscribe function
+ */
+export function subscribeToChatMessages(chatId, { onInsert, onUpdate, onStatusChange }) {
+  if (!isValidUUID(chatId)) {
+    return () => {};
+  }
+
+  const subscription = subscribeToChannel(
+    `messages:${chatId}`,
+    (channel) => channel
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `chat_id=eq.${chatId}` },
+        (payload) => onInsert(toMessage(payload.new))
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'messages', filter: `chat_id=eq.${chatId}` },
+        (payload) => onUpdate && onUpdate(toMessage(payload.new))
+      ),
+    { onStatusChange }
+  );
+
+  return subscription.unsubscribe;
+}
+
+/**
+ * Subscribe to new messages across all of the current user's chats
+ * 
+ * Row level security limits the events to chats the user takes part in.
+ * 
+ * @param {string} userId - Current user's ID (used to name the channel)
+ * @param {Function} onInsert - Called with each new message (see `toMessage`)
+ * @returns {Function} Unsubscribe function
+ */
+export function subscribeToUserMessages(userId, onInsert) {
+  const subscription = subscribeToChannel(
+    `inbox:${userId}`,
+    (channel) => channel.on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'messages' },
+      (payload) => onInsert(toMessage(payload.new))
+    )
+  );
+
+  return subscription.unsubscribe;
+}
+
+/**
+ * Mark the other party's messages in a chat as read by the current user
+ * 
+ * The reader's role is resolved on the server from the chat participants.
+ * 
+ * @param {string} chatId - Chat thread ID
+ * @returns {Promise<{data: Object|null, error: Object|null}>}
+ */
+export async function markMessagesAsRead(chatId) {
+  return updateReceipts('mark_messages_read', chatId);
+}
+
+/**
+ * Mark the other party's messages in a chat as delivered to the current user
  * 
  * @param {string} chatId - Chat thread ID
- * @param {string} userRole - User role ('student' or 'faculty')
  * @returns {Promise<{data: Object|null, error: Object|null}>}
  */
-export async function markMessagesAsRead(chatId, userRole) {
+export async function markMessagesAsDelivered(chatId) {
+  return updateReceipts('mark_messages_delivered', chatId);
+}
+
+/**
+ * Helper function to call a receipt RPC and report how many messages changed
+ */
+async function updateReceipts(rpcName, chatId) {
   try {
     // For sample IDs, just return success
     if (!isValidUUID(chatId)) {
-      return { data: { success: true }, error: null };
+      return { data: { success: true, updated: 0 }, error: null };
     }
 
-    // For now, just return success since we don't have unread count columns
-    // This can be implemented when you add those columns to your schema
-    return { data: { success: true }, error: null };
+    const { data, error } = await supabase.rpc(rpcName, { p_chat_id: chatId });
+
+    if (error) {
+      console.error(`Error in ${rpcName}:`, error);
+      return { data: null, error: toPIIError(error) };
+    }
+
+    return { data: { success: true, updated: data }, error: null };
 
   } catch (err) {
-    console.error('Unexpected error in markMessagesAsRead:', err);
+    console.error(`Unexpected error in ${rpcName}:`, err);
     return { 
       data: null, 
       error: { 
-        message: 'An unexpected error occurred while marking messages as read',
+        message: 'An unexpected error occurred while updating message receipts',
         details: err.message 
       }
     };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,235 @@
+/*
+ * Moderation Operations
+ *
+ * Handles the moderation workflow for reports (status, assignment, internal
+ * notes and actions against the reported user or chat) and the warnings
+ * shown to warned users. Every step is logged in `moderation_actions` by the
+ * database functions these helpers call.
+ */
+
+import { supabase } from '../supabaseClient.js'
+
+export const REPORT_STATUSES = ['open', 'triaged', 'actioned', 'dismissed'];
+
+export const MODERATION_ACTIONS = ['warn', 'mute', 'suspend', 'close_chat'];
+
+export const ACCOUNT_STATUSES = ['active', 'muted', 'suspended', 'banned'];
+
+/**
+ * Helper function to check if a string is a valid UUID
+ */
+function isValidUUID(str) {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
+
+/**
+ * Helper function to call an admin-only moderation RPC
+ */
+async function callModerationRpc(rpcName, params, verb) {
+  try {
+    const { data, error } = await supabase.rpc(rpcName, params);
+
+    if (error) {
+      console.error(`Error in ${rpcName}:`, error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+
+  } catch (err) {
+    console.error(`Unexpected error in ${rpcName}:`, err);
+    return {
+      data: null,
+      error: {
+        message: `An unexpected error occurred while ${verb}`,
+        details: err.message
+      }
+    };
+  }
+}
+
+/**
+ * Move a report through the moderation queue (admin only)
+ *
+ * 'actioned' and 'dismissed' mark the report resolved, which the reporter
+ * sees along with the resolution note.
+ *
+ * @param {string} reportId - Report ID
+ * @param {string} status - One of REPORT_STATUSES
+ * @param {string} [resolutionNote] - Outcome shown to the reporter
+ * @returns {Promise<{data: Object|null, error: Object|null}>}
+ */
+export async function setReportStatus(reportId, status, resolutionNote = '') {
+  return callModerationRpc(
+    'set_report_status',
+    { p_report_id: reportId, p_status: status, p_resolution_note: resolutionNote.trim() || null },
+    'updating the report status'
+  );
+}
+
+/**
+ * Assign a report to a moderator, or unassign it with `null` (admin only)
+ *
+ * Assigning an open report marks it 'triaged'.
+ *
+ * @param {string} reportId - Report ID
+ * @param {string|null} moderatorId - Admin user ID
+ * @returns {Promise<{data: Object|null, error: Object|null}>}
+ */
+export async function assignReport(reportId, moderatorId) {
+  return callModerationRpc(
+    'assign_report',
+    { p_report_id: reportId, p_moderator_id: moderatorId },
+    'assigning the report'
+  );
+}
+
+/**
+ * Add an internal note to a report (admin only, never shown to users)
+ *
+ * @param {string} reportId - Report ID
+ * @param {string} body - Note text
+ * @returns {Promise<{data: Object|null, error: Object|null}>}
+ */
+export async function addReportNote(reportId, body) {
+  return callModerationRpc(
+    'add_report_note',
+    { p_report_id: reportId, p_body: body.trim() },
+    'adding the note'
+  );
+}
+
+/**
+ * Act on a report (admin only)
+ *
+ * 'warn', 'mute' and 'suspend' apply to the sender of the reported message;
+ * 'close_chat' stops new messages in the reported chat. Mutes default to 24
+ * hours and suspensions to 7 days.
+ *
+ * @param {string} reportId - Report ID
+ * @param {string} action - One of MODERATION_ACTIONS
+ * @param {string} reason - Reason, kept in the log (and shown to warned users)
+ * @param {string} [duration] - Postgres interval for mutes and suspensions, e.g. '3 days'
+ * @returns {Promise<{data: Object|null, error: Object|null}>}
+ */
+export async function takeModerationAction(reportId, action, reason, duration = null) {
+  return callModerationRpc(
+    'take_moderation_action',
+    { p_report_id: reportId, p_action: action, p_reason: reason.trim(), p_duration: duration },
+    'applying the moderation action'
+  );
+}
+
+/**
+ * Get the current user's unacknowledged warnings
+ *
+ * @param {string} userId - User ID
+ * @param {string} [chatId] - Only warnings about this chat
+ * @returns {Promise<{data: Array|null, error: Object|null}>}
+ */
+export async function getMyWarnings(userId, chatId = null) {
+  try {
+    let query = supabase
+      .from('user_warnings')
+      .select('id, chat_id, reason, created_at')
+      .eq('user_id', userId)
+      .is('acknowledged_at', null)
+      .order('created_at', { ascending: false });
+
+    if (chatId) {
+      // Sample chats never have warnings
+      if (!isValidUUID(chatId)) {
+        return { data: [], error: null };
+      }
+      query = query.eq('chat_id', chatId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching warnings:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in getMyWarnings:', err);
+    return {
+      data: null,
+      error: {
+        message: 'An unexpected error occurred while fetching warnings',
+        details: err.message
+      }
+    };
+  }
+}
+
+/**
+ * Dismiss one of the current user's warnings
+ *
+ * @param {string} warningId - Warning ID
+ * @returns {Promise<{data: Object|null, error: Object|null}>}
+ */
+export async function acknowledgeWarning(warningId) {
+  return callModerationRpc(
+    'acknowledge_warning',
+    { p_warning_id: warningId },
+    'dismissing the warning'
+  );
+}
+
+/**
+ * Apply or lift an account restriction (admin only)
+ *
+ * Muted, suspended and banned users can't send messages or start chats;
+ * suspended and banned users can't sign in. Setting 'active' lifts the
+ * restriction. Every change is kept in `account_status_changes`.
+ *
+ * @param {string} userId - User ID
+ * @param {string} status - One of ACCOUNT_STATUSES
+ * @param {string} reason - Why; shown to the user while the restriction lasts
+ * @param {string} [duration] - Postgres interval, e.g. '7 days'; permanent if omitted
+ * @returns {Promise<{data: Object|null, error: Object|null}>}
+ */
+export async function setAccountStatus(userId, status, reason, duration = null) {
+  return callModerationRpc(
+    'set_account_status',
+    { p_user_id: userId, p_status: status, p_reason: reason.trim(), p_duration: duration },
+    'changing the account status'
+  );
+}
+
+/**
+ * Get the history of a user's account status changes, newest first (admin only)
+ *
+ * @param {string} userId - User ID
+ * @returns {Promise<{data: Array|null, error: Object|null}>}
+ */
+export async function getAccountStatusHistory(userId) {
+  try {
+    const { data, error } = await supabase
+      .from('account_status_changes')
+      .select('id, from_status, to_status, expires_at, reason, created_at, changed_by:changed_by(anonymous_id)')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching account status history:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in getAccountStatusHistory:', err);
+    return {
+      data: null,
+      error: {
+        message: 'An unexpected error occurred while fetching account status history',
+        details: err.message
+      }
+    };
+  }
+}
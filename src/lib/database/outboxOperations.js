@@ -0,0 +1,409 @@
+/*
+ * Outbox Operations
+ *
+ * Persistent queue for messages that haven't reached the server yet.
+ * Queued messages are kept in IndexedDB so they survive a page reload,
+ * and are retried with backoff until they are stored or given up on.
+ */
+
+import { appendMessage } from './messageOperations.js'
+import { MESSAGE_BLOCKED_ERROR } from './contentFilterOperations.js'
+import { PII_DETECTED_ERROR } from './piiOperations.js'
+
+const DB_NAME = 'anonbridge-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'messages';
+
+const MAX_ATTEMPTS = 6;
+const INITIAL_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60000;
+
+// Postgres unique_violation: the message already reached the server
+const DUPLICATE_KEY_ERROR = '23505';
+
+// Postgres insufficient_privilege: RLS or moderation refused the message, so
+// retrying won't help (e.g. the chat was closed). The same goes for messages
+// the content filter blocks or that contain unacknowledged personal details.
+const REJECTED_ERRORS = ['42501', MESSAGE_BLOCKED_ERROR, PII_DETECTED_ERROR];
+
+// Used when IndexedDB isn't available (e.g. some private browsing modes)
+const memoryStore = new Map();
+
+// Message ids currently being sent, so overlapping flushes don't double-send
+const inFlight = new Set();
+
+let dbPromise = null;
+
+/**
+ * Helper function to open (and create on first use) the outbox database
+ */
+function openOutbox() {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(null);
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('chatId', 'chatId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('Error opening outbox database, using memory:', request.error);
+        resolve(null);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+/**
+ * Helper function to run a single request against the outbox store
+ */
+async function withStore(mode, run) {
+  const db = await openOutbox();
+
+  if (!db) {
+    const request = run(null);
+    return request ? request.result : undefined;
+  }
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+function readEntries(chatId) {
+  return withStore('readonly', (store) => {
+    if (!store) {
+      return { result: [...memoryStore.values()].filter(entry => entry.chatId === chatId) };
+    }
+    return store.index('chatId').getAll(chatId);
+  });
+}
+
+function writeEntry(entry) {
+  return withStore('readwrite', (store) => {
+    if (!store) {
+      memoryStore.set(entry.id, entry);
+      return null;
+    }
+    return store.put(entry);
+  });
+}
+
+function deleteEntry(id) {
+  return withStore('readwrite', (store) => {
+    if (!store) {
+      memoryStore.delete(id);
+      return null;
+    }
+    return store.delete(id);
+  });
+}
+
+function clearEntries() {
+  return withStore('readwrite', (store) => {
+    if (!store) {
+      memoryStore.clear();
+      return null;
+    }
+    return store.clear();
+  });
+}
+
+/**
+ * Helper function to compute the wait before the next attempt
+ */
+function retryDelay(attempts) {
+  return Math.min(INITIAL_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Queue a message for sending
+ *
+ * @param {Object} messageData - Message to queue
+ * @param {string} messageData.id - Client-generated UUID, reused for every attempt
+ * @param {string} messageData.chatId - Chat thread ID
+ * @param {string} messageData.from - Sender ('student' or 'faculty')
+ * @param {string} messageData.text - Message content
+ * @param {string} [messageData.type] - Message type ('text', 'file', 'image')
+ * @param {Object} [messageData.attachment] - Already-uploaded file (see `uploadAttachment`)
+ * @param {string} [messageData.timestamp] - When the user sent it (ISO string)
+ * @param {boolean} [messageData.piiAcknowledged] - See `appendMessage`
+ * @returns {Promise<{data: Object|null, error: Object|null}>}
+ */
+export async function queueMessage({
+  id,
+  chatId,
+  from,
+  text,
+  type = 'text',
+  attachment = null,
+  timestamp = new Date().toISOString(),
+  piiAcknowledged = false
+}) {
+  try {
+    const entry = {
+      id,
+      chatId,
+      from,
+      text,
+      type,
+      attachment,
+      timestamp,
+      piiAcknowledged,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: 0
+    };
+
+    await writeEntry(entry);
+    return { data: entry, error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in queueMessage:', err);
+    return {
+      data: null,
+      error: {
+        message: 'An unexpected error occurred while queueing message',
+        details: err.message
+      }
+    };
+  }
+}
+
+/**
+ * Get the queued messages for a chat, oldest first
+ *
+ * @param {string} chatId - Chat thread ID
+ * @returns {Promise<{data: Array|null, error: Object|null}>}
+ */
+export async function getQueuedMessages(chatId) {
+  try {
+    const entries = await readEntries(chatId);
+    return {
+      data: entries.sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+      error: null
+    };
+
+  } catch (err) {
+    console.error('Unexpected error in getQueuedMessages:', err);
+    return {
+      data: null,
+      error: {
+        message: 'An unexpected error occurred while reading queued messages',
+        details: err.message
+      }
+    };
+  }
+}
+
+/**
+ * Put a failed message back in the queue for an immediate retry
+ *
+ * @param {Object} entry - Queued message (from `getQueuedMessages` or a sync callback)
+ * @returns {Promise<{data: Object|null, error: Object|null}>}
+ */
+export async function requeueMessage(entry) {
+  return queueMessage(entry);
+}
+
+/**
+ * Remove a message from the queue without sending it
+ *
+ * Used for failed messages the sender gives up on, e.g. ones the server
+ * rejected and that a retry won't get through.
+ *
+ * @param {string} id - Queued message ID
+ * @returns {Promise<{error: Object|null}>}
+ */
+export async function discardMessage(id) {
+  try {
+    await deleteEntry(id);
+    return { error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in discardMessage:', err);
+    return {
+      error: {
+        message: 'An unexpected error occurred while discarding message',
+        details: err.message
+      }
+    };
+  }
+}
+
+/**
+ * Empty the whole outbox, for every chat
+ *
+ * Called on sign-out so the next person using the browser doesn't inherit
+ * (or send) the previous user's unsent messages.
+ *
+ * @returns {Promise<{error: Object|null}>}
+ */
+export async function clearOutbox() {
+  try {
+    await clearEntries();
+    return { error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in clearOutbox:', err);
+    return {
+      error: {
+        message: 'An unexpected error occurred while clearing the outbox',
+        details: err.message
+      }
+    };
+  }
+}
+
+/**
+ * Try to send a chat's due messages, in the order they were written
+ *
+ * Sent messages leave the queue. A failed attempt is rescheduled with
+ * exponential backoff, and after MAX_ATTEMPTS (or at once if the server
+ * rejects it) the message is marked 'failed' and waits for a manual retry
+ * or `discardMessage`.
+ *
+ * @param {string} chatId - Chat thread ID
+ * @param {Object} [options] - Flush options
+ * @param {boolean} [options.force] - Ignore backoff (e.g. the connection just came back)
+ * @returns {Promise<{data: {sent: Array, pending: Array, failed: Array}|null, error: Object|null}>}
+ */
+export async function flushOutbox(chatId, { force = false } = {}) {
+  const result = { sent: [], pending: [], failed: [] };
+
+  try {
+    const { data: entries, error } = await getQueuedMessages(chatId);
+    if (error) {
+      return { data: null, error };
+    }
+
+    // Leave this and later messages queued so the thread stays in order
+    const deferFrom = (index) => {
+      entries.slice(index).forEach(entry => {
+        result[entry.status === 'failed' ? 'failed' : 'pending'].push({ entry });
+      });
+    };
+
+    for (const [index, entry] of entries.entries()) {
+      if (entry.status === 'failed') {
+        result.failed.push({ entry });
+        continue;
+      }
+
+      if (inFlight.has(entry.id) || (!force && entry.nextAttemptAt > Date.now())) {
+        deferFrom(index);
+        break;
+      }
+
+      inFlight.add(entry.id);
+      try {
+        const { data, error: sendError } = await appendMessage(entry);
+
+        if (data || sendError?.code === DUPLICATE_KEY_ERROR) {
+          await deleteEntry(entry.id);
+          result.sent.push({ entry, message: data ? data.message : null });
+          continue;
+        }
+
+        const attempts = entry.attempts + 1;
+        const updated = attempts >= MAX_ATTEMPTS || REJECTED_ERRORS.includes(sendError?.code)
+          ? { ...entry, attempts, status: 'failed', lastError: sendError?.message || null }
+          : { ...entry, attempts, nextAttemptAt: Date.now() + retryDelay(attempts) };
+
+        await writeEntry(updated);
+
+        if (updated.status === 'failed') {
+          result.failed.push({ entry: updated });
+          continue;
+        }
+
+        result.pending.push({ entry: updated });
+        deferFrom(index + 1);
+        break;
+      } finally {
+        inFlight.delete(entry.id);
+      }
+    }
+
+    return { data: result, error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in flushOutbox:', err);
+    return {
+      data: null,
+      error: {
+        message: 'An unexpected error occurred while sending queued messages',
+        details: err.message
+      }
+    };
+  }
+}
+
+/**
+ * Keep a chat's outbox draining while the thread is open
+ *
+ * Flushes immediately, again when each backoff delay elapses, and straight
+ * away when the browser reports it is back online.
+ *
+ * @param {string} chatId - Chat thread ID
+ * @param {Object} handlers - Event handlers
+ * @param {Function} handlers.onSent - Called with `{entry, message}` for each stored message
+ * @param {Function} [handlers.onPending] - Called with `{entry}` for each message awaiting retry
+ * @param {Function} [handlers.onFailed] - Called with `{entry}` for each message that gave up
+ * @returns {{flush: Function, stop: Function}} `flush()` sends due messages now
+ */
+export function startOutboxSync(chatId, { onSent, onPending, onFailed }) {
+  let retryTimer = null;
+  let isStopped = false;
+
+  const flush = async ({ force = false } = {}) => {
+    if (isStopped) return;
+
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+
+    const { data, error } = await flushOutbox(chatId, { force });
+    if (isStopped || error) return;
+
+    data.sent.forEach(onSent);
+    if (onPending) data.pending.forEach(onPending);
+    if (onFailed) data.failed.forEach(onFailed);
+
+    // Offline: wait for the 'online' event instead of polling
+    if (data.pending.length === 0 || !navigator.onLine || retryTimer) return;
+
+    const nextAttemptAt = Math.min(...data.pending.map(({ entry }) => entry.nextAttemptAt));
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      flush();
+    }, Math.max(nextAttemptAt - Date.now(), 0));
+  };
+
+  const handleOnline = () => flush({ force: true });
+
+  window.addEventListener('online', handleOnline);
+  flush();
+
+  return {
+    flush,
+    stop: () => {
+      isStopped = true;
+      window.removeEventListener('online', handleOnline);
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+      }
+    }
+  };
+}
@@ -0,0 +1,100 @@
+/*
+ * PII Operations
+ *
+ * Detects personal details that would give away who is behind an anonymous
+ * message: email addresses, phone numbers and registration or roll numbers.
+ * Used by the composer (to warn and offer redaction) and by `appendMessage`.
+ * Names of registered users are checked by the database when a message is
+ * written, so the list of names never reaches the browser.
+ */
+
+export const PII_DETECTED_ERROR = 'pii_detected';
+
+/*
+ * Pattern detectors, checked in order; a later match overlapping an earlier
+ * one is dropped
+ */
+const PII_PATTERNS = [
+  {
+    type: 'email',
+    // Manipal addresses, including ones typed without the domain suffix, then any other address
+    pattern: /[\w.%+-]+@(?:learner\.)?manipal(?:\.edu)?\b|[\w.%+-]+@[\w-]+(?:\.[\w-]+)+/gi
+  },
+  {
+    type: 'phone',
+    // Indian mobile numbers, with or without +91 and a separator
+    pattern: /(?<![\d+])(?:\+?91[\s-]?)?[6-9]\d{4}[\s-]?\d{5}(?!\d)/g
+  },
+  {
+    type: 'registration_number',
+    // "Reg no: 210905123", "roll number 45", or a bare 9-digit registration number
+    pattern: /\b(?:roll|reg(?:istration)?)\.?\s*(?:no\.?|number|#)?\s*[:-]?\s*[a-z]*\d[\w-]*|\b\d{9}\b/gi
+  }
+];
+
+const REDACTION_LABELS = {
+  email: '[email removed]',
+  phone: '[phone removed]',
+  registration_number: '[registration no. removed]'
+};
+
+/**
+ * Helper function to find pattern matches, skipping any that overlap
+ * matches already found
+ */
+function findPatternMatches(text) {
+  const matches = [];
+
+  for (const { type, pattern } of PII_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index;
+      const end = start + match[0].length;
+
+      if (!matches.some(found => start < found.end && end > found.start)) {
+        matches.push({ type, value: match[0], start, end });
+      }
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Find personal details in a message
+ *
+ * @param {string} text - Message content
+ * @returns {Promise<{data: Array|null, error: Object|null}>} Matches
+ *   ({ type, value, start, end }) in the order they appear; `type` is 'email',
+ *   'phone' or 'registration_number'
+ */
+export async function detectPII(text) {
+  try {
+    return {
+      data: findPatternMatches(text).sort((a, b) => a.start - b.start),
+      error: null
+    };
+
+  } catch (err) {
+    console.error('Unexpected error in detectPII:', err);
+    return {
+      data: null,
+      error: {
+        message: 'An unexpected error occurred while checking for personal details',
+        details: err.message
+      }
+    };
+  }
+}
+
+/**
+ * Replace detected personal details with placeholders like "[email removed]"
+ *
+ * @param {string} text - Message content
+ * @param {Array} matches - Matches from `detectPII` for this text
+ * @returns {string} Redacted text
+ */
+export function redactPII(text, matches) {
+  return [...matches]
+    .sort((a, b) => b.start - a.start)
+    .reduce((redacted, match) => redacted.slice(0, match.start) + REDACTION_LABELS[match.type] + redacted.slice(match.end), text);
+}
@@ -0,0 +1,205 @@
+/*
+ * Reaction Operations
+ *
+ * Handles emoji reactions on individual messages. Like messages, reactions
+ * are stored against the participant's role rather than their user ID.
+ */
+
+import { supabase } from '../supabaseClient.js'
+import { subscribeToChannel } from './realtimeOperations.js'
+
+/**
+ * Helper function to check if a string is a valid UUID
+ */
+function isValidUUID(str) {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
+
+/**
+ * Converts a `message_reactions` row into the reaction shape used by the UI
+ *
+ * @param {Object} row - Row from the message_reactions table
+ * @returns {Object} Reaction with id, messageId, chatId, from and emoji
+ */
+export function toReaction(row) {
+  return {
+    id: row.id,
+    messageId: row.message_id,
+    chatId: row.chat_id,
+    from: row.reactor_role,
+    emoji: row.emoji
+  };
+}
+
+/**
+ * Get all reactions in a chat
+ *
+ * @param {string} chatId - Chat thread ID
+ * @returns {Promise<{data: Array|null, error: Object|null}>}
+ */
+export async function getChatReactions(chatId) {
+  try {
+    // Sample chats have no stored reactions
+    if (!isValidUUID(chatId)) {
+      return { data: [], error: null };
+    }
+
+    const { data, error } = await supabase
+      .from('message_reactions')
+      .select('*')
+      .eq('chat_id', chatId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching reactions:', error);
+      return { data: null, error };
+    }
+
+    return { data: data.map(toReaction), error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in getChatReactions:', err);
+    return {
+      data: null,
+      error: {
+        message: 'An unexpected error occurred while fetching reactions',
+        details: err.message
+      }
+    };
+  }
+}
+
+/**
+ * React to a message
+ *
+ * @param {Object} reactionData - Reaction to add
+ * @param {string} [reactionData.id] - Client-generated UUID, used to match the realtime echo
+ * @param {string} reactionData.messageId - Message being reacted to
+ * @param {string} reactionData.chatId - Chat thread ID
+ * @param {string} reactionData.from - Reacting role ('student' or 'faculty')
+ * @param {string} reactionData.emoji - Emoji
+ * @returns {Promise<{data: Object|null, error: Object|null}>}
+ */
+export async function addReaction({ id = null, messageId, chatId, from, emoji }) {
+  try {
+    if (!isValidUUID(chatId) || !isValidUUID(messageId)) {
+      return {
+        data: { id: id || `reaction_${Date.now()}`, messageId, chatId, from, emoji },
+        error: null
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('message_reactions')
+      .insert([{
+        ...(id ? { id } : {}),
+        message_id: messageId,
+        chat_id: chatId,
+        reactor_role: from,
+        emoji
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding reaction:', error);
+      return { data: null, error };
+    }
+
+    return { data: toReaction(data), error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in addReaction:', err);
+    return {
+      data: null,
+      error: {
+        message: 'An unexpected error occurred while adding reaction',
+        details: err.message
+      }
+    };
+  }
+}
+
+/**
+ * Remove the current participant's reaction from a message
+ *
+ * @param {Object} reactionData - Reaction to remove
+ * @param {string} reactionData.messageId - Message the reaction is on
+ * @param {string} reactionData.from - Reacting role ('student' or 'faculty')
+ * @param {string} reactionData.emoji - Emoji
+ * @returns {Promise<{data: Object|null, error: Object|null}>}
+ */
+export async function removeReaction({ messageId, from, emoji }) {
+  try {
+    if (!isValidUUID(messageId)) {
+      return { data: { success: true }, error: null };
+    }
+
+    const { error } = await supabase
+      .from('message_reactions')
+      .delete()
+      .eq('message_id', messageId)
+      .eq('reactor_role', from)
+      .eq('emoji', emoji);
+
+    if (error) {
+      console.error('Error removing reaction:', error);
+      return { data: null, error };
+    }
+
+    return { data: { success: true }, error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in removeReaction:', err);
+    return {
+      data: null,
+      error: {
+        message: 'An unexpected error occurred while removing reaction',
+        details: err.message
+      }
+    };
+  }
+}
+
+/**
+ * Subscribe to reactions being added and removed in a chat
+ *
+ * DELETE events can't be filtered server-side, and with RLS on they only
+ * carry the removed row's `id`, so `onRemove` gets just that id; callers
+ * match it against the chat's loaded reactions.
+ *
+ * @param {string} chatId - Chat thread ID
+ * @param {Object} handlers - Event handlers
+ * @param {Function} handlers.onAdd - Called with each new reaction (see `toReaction`)
+ * @param {Function} handlers.onRemove - Called with the id of each removed reaction
+ * @param {Function} [handlers.onStatusChange] - Called with the channel subscribe status
+ * @returns {Function} Unsubscribe function
+ */
+export function subscribeToReactions(chatId, { onAdd, onRemove, onStatusChange }) {
+  if (!isValidUUID(chatId)) {
+    return () => {};
+  }
+
+  const subscription = subscribeToChannel(
+    `reactions:${chatId}`,
+    (channel) => channel
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'message_reactions', filter: `chat_id=eq.${chatId}` },
+        (payload) => onAdd(toReaction(payload.new))
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'message_reactions' },
+        (payload) => {
+          if (payload.old?.id) {
+            onRemove(payload.old.id);
+          }
+        }
+      ),
+    { onStatusChange }
+  );
+
+  return subscription.unsubscribe;
+}
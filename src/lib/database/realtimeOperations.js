@@ -0,0 +1,170 @@
+/*
+ * Realtime Operations
+ *
+ * Shared helpers for Supabase Realtime channels.
+ */
+
+import { supabase } from '../supabaseClient.js'
+
+const INITIAL_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+/**
+ * Subscribes to a realtime channel and keeps it subscribed
+ *
+ * When the channel errors or times out (e.g. after a network drop) it is
+ * removed and re-created with exponential backoff, or immediately when the
+ * browser reports it is back online.
+ *
+ * @param {string} name - Channel name
+ * @param {Function} configure - Receives the new channel and attaches `.on(...)` handlers
+ * @param {Object} [options] - Subscription options
+ * @param {Function} [options.onStatusChange] - Called with each subscribe status
+ * @returns {{unsubscribe: Function, send: Function}} Subscription handle; `send(event, payload)` broadcasts on the current channel
+ */
+export function subscribeToChannel(name, configure, { onStatusChange } = {}) {
+  let channel = null;
+  let retryTimer = null;
+  let retryDelay = INITIAL_RETRY_DELAY_MS;
+  let isClosed = false;
+
+  const connect = () => {
+    if (isClosed) return;
+
+    channel = configure(supabase.channel(name));
+    channel.subscribe((status, err) => {
+      if (isClosed) return;
+
+      if (onStatusChange) {
+        onStatusChange(status, err);
+      }
+
+      if (status === 'SUBSCRIBED') {
+        retryDelay = INITIAL_RETRY_DELAY_MS;
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.error(`Realtime channel ${name} ${status}:`, err);
+        scheduleReconnect(retryDelay);
+        retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+      }
+    });
+  };
+
+  const scheduleReconnect = (delay) => {
+    if (retryTimer || isClosed) return;
+
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      if (channel) {
+        supabase.removeChannel(channel);
+        channel = null;
+      }
+      connect();
+    }, delay);
+  };
+
+  const handleOnline = () => {
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+      scheduleReconnect(0);
+    }
+  };
+
+  window.addEventListener('online', handleOnline);
+  connect();
+
+  return {
+    unsubscribe: () => {
+      isClosed = true;
+      window.removeEventListener('online', handleOnline);
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+      }
+      if (channel) {
+        supabase.removeChannel(channel);
+      }
+    },
+    send: (event, payload) => {
+      if (channel && !isClosed) {
+        channel.send({ type: 'broadcast', event, payload });
+      }
+    }
+  };
+}
+
+const TYPING_THROTTLE_MS = 2000;
+const TYPING_EXPIRY_MS = 5000;
+
+/**
+ * Share typing state for a chat over a broadcast channel
+ *
+ * Only the sender's role and anonymous ID are broadcast. Typing updates are
+ * throttled, and remote typing state expires on its own if the "stopped"
+ * event never arrives (closed tab, dropped connection).
+ *
+ * @param {string} chatId - Chat thread ID
+ * @param {Object} self - The local participant
+ * @param {string} self.role - 'student' or 'faculty'
+ * @param {string} self.anonymousId - Anonymous ID shown to the other party
+ * @param {Function} onTypingChange - Called with the typing anonymous ID, or null when they stop
+ * @returns {{notifyTyping: Function, stopTyping: Function, unsubscribe: Function}}
+ */
+export function subscribeToTyping(chatId, { role, anonymousId }, onTypingChange) {
+  let lastSentAt = 0;
+  let isTyping = false;
+  let expiryTimer = null;
+
+  const clearRemoteTyping = () => {
+    if (expiryTimer) {
+      clearTimeout(expiryTimer);
+      expiryTimer = null;
+    }
+    onTypingChange(null);
+  };
+
+  const subscription = subscribeToChannel(
+    `typing:${chatId}`,
+    (channel) => channel.on('broadcast', { event: 'typing' }, ({ payload }) => {
+      if (!payload || payload.role === role) return;
+
+      if (!payload.isTyping) {
+        clearRemoteTyping();
+        return;
+      }
+
+      onTypingChange(payload.anonymousId);
+      if (expiryTimer) {
+        clearTimeout(expiryTimer);
+      }
+      expiryTimer = setTimeout(clearRemoteTyping, TYPING_EXPIRY_MS);
+    })
+  );
+
+  const notifyTyping = () => {
+    const now = Date.now();
+    if (isTyping && now - lastSentAt < TYPING_THROTTLE_MS) return;
+
+    isTyping = true;
+    lastSentAt = now;
+    subscription.send('typing', { role, anonymousId, isTyping: true });
+  };
+
+  const stopTyping = () => {
+    if (!isTyping) return;
+
+    isTyping = false;
+    subscription.send('typing', { role, anonymousId, isTyping: false });
+  };
+
+  return {
+    notifyTyping,
+    stopTyping,
+    unsubscribe: () => {
+      stopTyping();
+      if (expiryTimer) {
+        clearTimeout(expiryTimer);
+      }
+      subscription.unsubscribe();
+    }
+  };
+}
@@ -5,10 +5,24 @@
  */
 
 import { supabase } from '../supabaseClient.js'
+import { toMessage, toRevision } from './messageOperations.js'
+import { subscribeToChannel } from './realtimeOperations.js'
+import { setReportStatus } from './moderationOperations.js'
+
+/**
+ * Helper function to check if a string is a valid UUID
+ */
+function isValidUUID(str) {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
 
 /**
  * Submit an issue report
  * 
+ * When `messageId` is given the report is linked to that exact message, and
+ * the server stores a snapshot of it as it is at report time.
+ * 
  * @param {Object} reportData - Report data
  * @param {string} reportData.reason - Issue type/reason
  * @param {string} [reportData.comment] - Additional comments
@@ -44,7 +58,7 @@ export async function reportIssue({
       reason,
       comment,
       reported_by: reporter?.id || null,
-      chat_id: threadId,
+      chat_id: threadId && isValidUUID(threadId) ? threadId : null,
       timestamp: new Date().toISOString()
     };
 
@@ -77,6 +91,8 @@ export async function reportIssue({
 /**
  * Get all reports (admin only)
  * 
+ * Each report comes with its assignee, internal notes and moderation log.
+ * 
  * @param {Object} [options] - Query options
  * @returns {Promise<{data: Array|null, error: Object|null}>}
  */
@@ -94,7 +110,10 @@ export async function getAllReports(options = {}) {
       .select(`
         *,
         reporter:reported_by(anonymous_id, role),
-        chat:chat_id(id, subject, department)
+        assignee:assigned_to(id, anonymous_id),
+        chat:chat_id(id, subject, department, status),
+        notes:report_notes(id, body, created_at, author:author_id(anonymous_id)),
+        actions:moderation_actions(id, action, details, created_at, moderator:moderator_id(anonymous_id))
       `)
       .order(orderBy, { ascending })
       .range(offset, offset + limit - 1);
@@ -106,7 +125,13 @@ export async function getAllReports(options = {}) {
       return { data: null, error };
     }
 
-    return { data, error: null };
+    const reports = data.map(report => ({
+      ...report,
+      notes: (report.notes || []).sort((a, b) => a.created_at.localeCompare(b.created_at)),
+      actions: (report.actions || []).sort((a, b) => a.created_at.localeCompare(b.created_at))
+    }));
+
+    return { data: await withReportedMessages(reports), error: null };
 
   } catch (err) {
     console.error('Unexpected error in getAllReports:', err);
@@ -121,40 +146,115 @@ export async function getAllReports(options = {}) {
 }
 
 /**
- * Mark a report as resolved
+ * Helper function to attach each reported message with its revision history,
+ * so edited or deleted messages can still be reviewed as originally sent
+ */
+async function withReportedMessages(reports) {
+  const messageIds = [...new Set(reports.map(report => report.message_id).filter(isValidUUID))];
+  if (messageIds.length === 0) {
+    return reports;
+  }
+
+  const { data: messages, error } = await supabase
+    .from('messages')
+    .select('*, revisions:message_revisions(*)')
+    .in('id', messageIds);
+
+  if (error) {
+    console.error('Error fetching reported messages:', error);
+    return reports;
+  }
+
+  return reports.map(report => {
+    const row = messages.find(message => message.id === report.message_id);
+    if (!row) return report;
+
+    const revisions = (row.revisions || [])
+      .map(toRevision)
+      .sort((a, b) => a.revisedAt.localeCompare(b.revisedAt));
+
+    return {
+      ...report,
+      message: toMessage(row),
+      revisions,
+      originalText: revisions.length > 0 ? revisions[0].text : row.body
+    };
+  });
+}
+
+/**
+ * Get the current user's own reports, newest first
  * 
- * @param {string} reportId - Report ID
- * @param {string} resolvedBy - Admin who resolved the report
- * @returns {Promise<{data: Object|null, error: Object|null}>}
+ * @param {string} userId - Reporter's user ID
+ * @param {string} [chatId] - Only reports about this chat
+ * @returns {Promise<{data: Array|null, error: Object|null}>}
  */
-export async function resolveReport(reportId, resolvedBy) {
+export async function getMyReports(userId, chatId = null) {
   try {
-    const { data, error } = await supabase
+    let query = supabase
       .from('reports')
-      .update({
-        resolved: true,
-        resolved_by: resolvedBy,
-        resolved_at: new Date().toISOString()
-      })
-      .eq('id', reportId)
-      .select()
-      .single();
+      .select('id, message_id, chat_id, reason, resolved, resolved_at, resolution_note, timestamp')
+      .eq('reported_by', userId)
+      .order('timestamp', { ascending: false });
+
+    if (chatId) {
+      // Sample chats never have stored reports
+      if (!isValidUUID(chatId)) {
+        return { data: [], error: null };
+      }
+      query = query.eq('chat_id', chatId);
+    }
+
+    const { data, error } = await query;
 
     if (error) {
-      console.error('Error resolving report:', error);
+      console.error('Error fetching own reports:', error);
       return { data: null, error };
     }
 
     return { data, error: null };
 
   } catch (err) {
-    console.error('Unexpected error in resolveReport:', err);
+    console.error('Unexpected error in getMyReports:', err);
     return { 
       data: null, 
       error: { 
-        message: 'An unexpected error occurred while resolving the report',
+        message: 'An unexpected error occurred while fetching your reports',
         details: err.message 
       }
     };
   }
+}
+
+/**
+ * Subscribe to status changes on the current user's reports
+ * 
+ * @param {string} userId - Reporter's user ID
+ * @param {Function} onUpdate - Called with each updated report row
+ * @returns {Function} Unsubscribe function
+ */
+export function subscribeToMyReports(userId, onUpdate) {
+  const subscription = subscribeToChannel(
+    `my-reports:${userId}`,
+    (channel) => channel.on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'reports', filter: `reported_by=eq.${userId}` },
+      (payload) => onUpdate(payload.new)
+    )
+  );
+
+  return subscription.unsubscribe;
+}
+
+/**
+ * Mark a report as resolved (admin only)
+ * 
+ * Shorthand for `setReportStatus(reportId, 'actioned', resolutionNote)`.
+ * 
+ * @param {string} reportId - Report ID
+ * @param {string} [resolutionNote] - Outcome shown to the reporter
+ * @returns {Promise<{data: Object|null, error: Object|null}>}
+ */
+export async function resolveReport(reportId, resolutionNote = '') {
+  return setReportStatus(reportId, 'actioned', resolutionNote);
 }
\ No newline at end of file
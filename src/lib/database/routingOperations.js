@@ -0,0 +1,98 @@
+/*
+ * Routing Operations
+ *
+ * Picks the faculty member for a new chat: a requested course's instructor,
+ * or the best match on subject tags and department, balanced by how many
+ * open chats each faculty member already has. The ranking runs in the
+ * `route_new_chat` database function.
+ */
+
+import { supabase } from '../supabaseClient.js'
+
+/**
+ * Helper function to check if a string is a valid UUID
+ */
+function isValidUUID(str) {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
+
+/**
+ * Choose the faculty member for a new chat
+ *
+ * @param {Object} request - What the chat is about
+ * @param {string} [request.department] - Department to prefer
+ * @param {string} [request.subject] - Chat subject, matched against faculty subject tags
+ * @param {string} [request.courseId] - Course whose instructor the student wants
+ * @returns {Promise<{data: Object|null, error: Object|null}>} `{ faculty_id,
+ *   anonymous_id, department, reason, open_chats }`; `reason` is 'course',
+ *   'subject', 'department' or 'load'
+ */
+export async function routeNewChat({ department = null, subject = null, courseId = null } = {}) {
+  try {
+    if (courseId && !isValidUUID(courseId)) {
+      return { data: null, error: { message: 'Invalid course ID' } };
+    }
+
+    const { data, error } = await supabase.rpc('route_new_chat', {
+      p_department: department,
+      p_subject: subject,
+      p_course_id: courseId
+    });
+
+    if (error) {
+      console.error('Error routing new chat:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in routeNewChat:', err);
+    return {
+      data: null,
+      error: {
+        message: 'An unexpected error occurred while finding a faculty member',
+        details: err.message
+      }
+    };
+  }
+}
+
+/**
+ * Get the courses students can ask about, by course code
+ *
+ * @param {string} [department] - Only courses in this department
+ * @returns {Promise<{data: Array|null, error: Object|null}>}
+ */
+export async function getCourses(department = null) {
+  try {
+    let query = supabase
+      .from('courses')
+      .select('id, code, name, department, instructor_id, tags')
+      .order('code', { ascending: true });
+
+    if (department) {
+      query = query.eq('department', department);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching courses:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in getCourses:', err);
+    return {
+      data: null,
+      error: {
+        message: 'An unexpected error occurred while fetching courses',
+        details: err.message
+      }
+    };
+  }
+}
@@ -0,0 +1,90 @@
+/*
+ * Unmask Operations
+ *
+ * Lets an admin see the real identity (email and contact number) behind an
+ * anonymous account.
+ * Every unmasking needs a justification and is written to the append-only
+ * `unmask_audit_log`, which only super-admins can read.
+ */
+
+import { supabase } from '../supabaseClient.js'
+
+export const MIN_UNMASK_JUSTIFICATION_LENGTH = 10;
+
+/**
+ * Reveal a user's email and contact number (admin only)
+ *
+ * @param {string} userId - User ID
+ * @param {string} justification - Why the identity is needed; logged with the unmasking
+ * @returns {Promise<{data: Object|null, error: Object|null}>} `{ email, contact_number }`
+ */
+export async function unmaskUser(userId, justification) {
+  try {
+    if (justification.trim().length < MIN_UNMASK_JUSTIFICATION_LENGTH) {
+      return {
+        data: null,
+        error: { message: `Please give a justification of at least ${MIN_UNMASK_JUSTIFICATION_LENGTH} characters` }
+      };
+    }
+
+    const { data, error } = await supabase.rpc('unmask_user', {
+      p_user_id: userId,
+      p_justification: justification.trim()
+    });
+
+    if (error) {
+      console.error('Error unmasking user:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in unmaskUser:', err);
+    return {
+      data: null,
+      error: {
+        message: 'An unexpected error occurred while unmasking the user',
+        details: err.message
+      }
+    };
+  }
+}
+
+/**
+ * Get the unmask audit log, newest first (super-admin only)
+ *
+ * @param {number} [limit] - Maximum number of entries; all entries when omitted
+ * @returns {Promise<{data: Array|null, error: Object|null}>}
+ */
+export async function getUnmaskAuditLog(limit = null) {
+  try {
+    let query = supabase
+      .from('unmask_audit_log')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (limit) {
+      query = query.limit(limit);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching unmask audit log:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in getUnmaskAuditLog:', err);
+    return {
+      data: null,
+      error: {
+        message: 'An unexpected error occurred while fetching the unmask audit log',
+        details: err.message
+      }
+    };
+  }
+}
@@ -5,26 +5,45 @@
  */
 
 import { supabase } from '../supabaseClient.js'
+import { clearOutbox } from './outboxOperations.js'
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Same message for unknown email and wrong password so login can't be used
+// to discover which accounts exist
+const INVALID_CREDENTIALS_ERROR = { message: 'Invalid email or password' };
+
+// Restrictions that keep a user out of the app entirely; muted users can
+// still sign in and read their chats
+const LOGIN_BLOCKING_STATUSES = ['suspended', 'banned'];
+
+// Anonymous ID formats generated by the database at sign-up:
+// 'tag' (`Student#K7Q2XM`) or 'handle' (`quiet-otter-4821`)
+export const ANONYMOUS_ID_STYLES = ['tag', 'handle'];
 
 /**
  * Registers a new user in the database
  * 
  * @param {Object} userData - User registration data
  * @param {string} userData.email - User's email address
+ * @param {string} userData.password - Account password (min 8 characters)
  * @param {string} userData.role - User role ('student' or 'faculty')
  * @param {string} userData.department - User's department
  * @param {string} [userData.year] - Academic year (optional, for students)
  * @param {string} [userData.contactNumber] - User's contact number
  * @param {string} [userData.theme] - Preferred theme (optional)
+ * @param {string} [userData.anonymousIdStyle] - One of ANONYMOUS_ID_STYLES; the ID itself is generated by the database
  * @returns {Promise<{data: Object|null, error: Object|null}>}
  */
 export async function registerUser({ 
   email, 
+  password,
   role, 
   department, 
   year = null, 
   contactNumber = null, 
-  theme = 'blue_neon' 
+  theme = 'blue_neon',
+  anonymousIdStyle = 'tag'
 }) {
   try {
     // Validate email domain
@@ -36,49 +55,44 @@ export async function registerUser({
       };
     }
 
-    // Generate anonymous ID
-    const prefix = role === 'student' ? 'Student' : 'Faculty';
-    const randomNum = Math.floor(Math.random() * 899) + 100;
-    let anonymousId = `${prefix}#${randomNum}`;
-
-    // Check if anonymous ID already exists (very rare, but possible)
-    const { data: existingUser } = await supabase
-      .from('users')
-      .select('anonymous_id')
-      .eq('anonymous_id', anonymousId)
-      .single();
-
-    if (existingUser) {
-      // Generate a new one if collision occurs
-      const newRandomNum = Math.floor(Math.random() * 899) + 100;
-      anonymousId = `${prefix}#${newRandomNum}`;
+    if (!password || password.length < MIN_PASSWORD_LENGTH) {
+      return {
+        data: null,
+        error: { message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }
+      };
     }
 
-    // Prepare user data
-    const userData = {
+    // Create the auth account; the profile row in `users` is created from
+    // this metadata by the `on_auth_user_created` trigger, which also
+    // generates a unique anonymous ID in the requested style
+    const { data, error } = await supabase.auth.signUp({
       email: emailLower,
-      role,
-      department,
-      year: role === 'student' ? year : null,
-      anonymous_id: anonymousId,
-      theme,
-      contact_number: contactNumber
-    };
-
-    // Insert user into database
-    const { data, error } = await supabase
-      .from('users')
-      .insert([userData])
-      .select()
-      .single();
+      password,
+      options: {
+        data: {
+          role,
+          department,
+          year: role === 'student' ? year : null,
+          anonymous_id_style: ANONYMOUS_ID_STYLES.includes(anonymousIdStyle) ? anonymousIdStyle : 'tag',
+          theme,
+          contact_number: contactNumber
+        }
+      }
+    });
 
     if (error) {
       console.error('Error registering user:', error);
       return { data: null, error };
     }
 
-    console.log('User registered successfully:', data);
-    return { data, error: null };
+    console.log('User registered successfully:', data.user?.id);
+    return { 
+      data: { 
+        user: data.user, 
+        needsConfirmation: !data.session 
+      }, 
+      error: null 
+    };
 
   } catch (err) {
     console.error('Unexpected error in registerUser:', err);
@@ -95,14 +109,17 @@ export async function registerUser({
 /**
  * Check if a user already exists with the given email
  * 
+ * Emails are private (`user_emails`), so this only ever finds the signed-in
+ * user's own account.
+ * 
  * @param {string} email - Email to check
  * @returns {Promise<{exists: boolean, user: Object|null, error: Object|null}>}
  */
 export async function checkUserExists(email) {
   try {
     const { data, error } = await supabase
-      .from('users')
-      .select('*')
+      .from('user_emails')
+      .select('user_id')
       .eq('email', email.toLowerCase().trim())
       .maybeSingle();
 
@@ -113,7 +130,7 @@ export async function checkUserExists(email) {
 
     return { 
       exists: !!data, 
-      user: data || null, 
+      user: data ? { id: data.user_id } : null, 
       error: null 
     };
 
@@ -128,4 +145,236 @@ export async function checkUserExists(email) {
       }
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Signs a user in with email and password and loads their profile
+ * 
+ * @param {string} email - User's email address
+ * @param {string} password - User's password
+ * @returns {Promise<{data: Object|null, error: Object|null}>}
+ */
+export async function signInUser(email, password) {
+  try {
+    const { data: authData, error: authError } = await supabase.auth.signInWithPassword({
+      email: email.toLowerCase().trim(),
+      password
+    });
+
+    if (authError || !authData.user) {
+      console.error('Error signing in:', authError);
+      return { data: null, error: INVALID_CREDENTIALS_ERROR };
+    }
+
+    const { data: profile, error: profileError } = await getUserProfile(authData.user.id);
+
+    if (profileError || !profile) {
+      // An auth account without a profile can't use the app
+      await supabase.auth.signOut();
+      return { data: null, error: INVALID_CREDENTIALS_ERROR };
+    }
+
+    const restriction = getAccountRestriction(profile);
+
+    if (restriction?.blocksLogin) {
+      await supabase.auth.signOut();
+      return {
+        data: null,
+        error: {
+          code: 'account_restricted',
+          message: `Your account is ${restriction.status}${
+            restriction.expiresAt ? ` until ${new Date(restriction.expiresAt).toLocaleString()}` : ''
+          }`,
+          restriction
+        }
+      };
+    }
+
+    return { 
+      data: { 
+        user: profile, 
+        session: authData.session 
+      }, 
+      error: null 
+    };
+
+  } catch (err) {
+    console.error('Unexpected error in signInUser:', err);
+    return { 
+      data: null, 
+      error: { 
+        message: 'An unexpected error occurred while signing in',
+        details: err.message 
+      }
+    };
+  }
+}
+
+/**
+ * Signs the current user out and clears the stored session and outbox
+ * 
+ * @returns {Promise<{error: Object|null}>}
+ */
+export async function signOutUser() {
+  try {
+    // Unsent messages must not carry over to whoever signs in next
+    await clearOutbox();
+
+    const { error } = await supabase.auth.signOut();
+
+    if (error) {
+      console.error('Error signing out:', error);
+      return { error };
+    }
+
+    return { error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in signOutUser:', err);
+    return { 
+      error: { 
+        message: 'An unexpected error occurred while signing out',
+        details: err.message 
+      }
+    };
+  }
+}
+
+/**
+ * Fetch a user's profile row by ID
+ * 
+ * The email and contact number are joined in from `user_emails`, which
+ * only returns the signed-in user's own; other profiles come back with
+ * both null.
+ * 
+ * @param {string} userId - User's ID (same as the auth user ID)
+ * @returns {Promise<{data: Object|null, error: Object|null}>}
+ */
+export async function getUserProfile(userId) {
+  try {
+    const { data, error } = await supabase
+      .from('users')
+      .select('*, user_emails(email, contact_number)')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching user profile:', error);
+      return { data: null, error };
+    }
+
+    if (!data) {
+      return { data: null, error: null };
+    }
+
+    const { user_emails: privateDetails, ...profile } = data;
+    return {
+      data: {
+        ...profile,
+        email: privateDetails?.email ?? null,
+        contact_number: privateDetails?.contact_number ?? null
+      },
+      error: null
+    };
+
+  } catch (err) {
+    console.error('Unexpected error in getUserProfile:', err);
+    return { 
+      data: null, 
+      error: { 
+        message: 'An unexpected error occurred while fetching profile',
+        details: err.message 
+      }
+    };
+  }
+}
+
+/**
+ * Get the restriction currently applied to a profile, if any
+ * 
+ * Mirrors `effective_account_status` in the database: a mute or suspension
+ * past its expiry no longer applies.
+ * 
+ * @param {Object} profile - Row from `users`
+ * @returns {{status: string, expiresAt: string|null, reason: string|null, blocksLogin: boolean}|null}
+ */
+export function getAccountRestriction(profile) {
+  const status = profile?.account_status || 'active';
+  const expiresAt = profile?.status_expires_at || null;
+
+  if (status === 'active' || (expiresAt && new Date(expiresAt) <= new Date())) {
+    return null;
+  }
+
+  return {
+    status,
+    expiresAt,
+    reason: profile.status_reason || null,
+    blocksLogin: LOGIN_BLOCKING_STATUSES.includes(status)
+  };
+}
+
+
+/**
+ * Turn per-chat pseudonyms on or off for the signed-in student
+ * 
+ * When on, each new chat shows the faculty member a different alias instead
+ * of the student's anonymous ID. Existing chats keep the name they started with.
+ * 
+ * @param {boolean} enabled - Whether new chats get their own alias
+ * @returns {Promise<{data: Object|null, error: Object|null}>}
+ */
+export async function setPerChatAliases(enabled) {
+  try {
+    const { data, error } = await supabase.rpc('set_per_chat_aliases', { p_enabled: enabled });
+
+    if (error) {
+      console.error('Error updating per-chat pseudonyms:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in setPerChatAliases:', err);
+    return { 
+      data: null, 
+      error: { 
+        message: 'An unexpected error occurred while updating your privacy settings',
+        details: err.message 
+      }
+    };
+  }
+}
+
+/**
+ * Set the subjects the signed-in faculty member takes questions on
+ * 
+ * New chats whose subject or course mentions one of these tags are routed
+ * to them first. Tags are stored lowercase and de-duplicated.
+ * 
+ * @param {string[]} tags - Subject tags, e.g. ['data structures', 'dbms']
+ * @returns {Promise<{data: Object|null, error: Object|null}>} Updated profile
+ */
+export async function setSubjectTags(tags) {
+  try {
+    const { data, error } = await supabase.rpc('set_subject_tags', { p_tags: tags });
+
+    if (error) {
+      console.error('Error updating subject tags:', error);
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+
+  } catch (err) {
+    console.error('Unexpected error in setSubjectTags:', err);
+    return { 
+      data: null, 
+      error: { 
+        message: 'An unexpected error occurred while updating your subjects',
+        details: err.message 
+      }
+    };
+  }
+}
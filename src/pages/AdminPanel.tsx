@@ -1,34 +1,55 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, Fragment } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Shield, Users, MessageSquare, AlertTriangle, Eye, Search, Filter, Download, ArrowLeft, FileText, Calendar } from 'lucide-react';
 import AnimatedBackground from '../components/AnimatedBackground';
 import ChatViewModal from '../components/ChatViewModal';
-import { getUserChats, supabase } from '../lib/database';
+import ReportModerationCard, { ModerationReport } from '../components/ReportModerationCard';
+import ModerationRulesPanel from '../components/ModerationRulesPanel';
+import UnmaskAuditPanel from '../components/UnmaskAuditPanel';
+import { useUser } from '../contexts/UserContext';
+import { getUserChats, getAllReports, setAccountStatus, getAccountStatusHistory, getAccountRestriction, REPORT_STATUSES, unmaskUser, MIN_UNMASK_JUSTIFICATION_LENGTH, supabase } from '../lib/database';
+
+// Row from `account_status_changes` (see `getAccountStatusHistory`)
+interface AccountStatusChange {
+  id: string;
+  from_status: string;
+  to_status: string;
+  expires_at: string | null;
+  reason: string;
+  created_at: string;
+  changed_by: { anonymous_id: string } | null;
+}
+
+const RESTRICTION_DEFAULT_DURATIONS: Record<string, string> = {
+  muted: '24 hours',
+  suspended: '7 days'
+};
+
+// Loaded for the user table; real identities (email, contact number) live in
+// `user_emails` and are only fetched through `unmaskUser`, which logs each request
+const USER_LIST_COLUMNS = 'id, role, department, year, anonymous_id, created_at, account_status, status_expires_at, status_reason';
 
 const AdminPanel: React.FC = () => {
   const navigate = useNavigate();
+  const { user, logout } = useUser();
   const [activeTab, setActiveTab] = useState('users');
   const [searchTerm, setSearchTerm] = useState('');
   const [filterRole, setFilterRole] = useState('all');
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [loginForm, setLoginForm] = useState({ name: '', password: '' });
-  const [loginError, setLoginError] = useState('');
   const [users, setUsers] = useState<any[]>([]);
   const [chats, setChats] = useState<any[]>([]);
   const [reports, setReports] = useState<any[]>([]);
+  const [reportFilter, setReportFilter] = useState('queue');
   const [isLoading, setIsLoading] = useState(false);
   const [selectedChatForView, setSelectedChatForView] = useState<any>(null);
   const [isChatViewModalOpen, setIsChatViewModalOpen] = useState(false);
+  const [highlightMessageId, setHighlightMessageId] = useState<string | null>(null);
+  const [statusHistory, setStatusHistory] = useState<{ userId: string; entries: AccountStatusChange[] } | null>(null);
+  const [unmaskedIdentities, setUnmaskedIdentities] = useState<Record<string, { email: string; contact_number: string | null }>>({});
 
-  // Admin credentials
-  const ADMIN_CREDENTIALS = {
-    name: 'Overwatch',
-    password: '********'
-  };
-
-  // Load real-time data
+  // Load real-time data. Access is enforced by ProtectedRoute and, for the
+  // data itself, by the admin RLS policies in the database.
   useEffect(() => {
-    if (isAuthenticated) {
+    if (user?.role === 'admin') {
       loadRealTimeData();
       
       // Set up real-time subscriptions
@@ -59,7 +80,7 @@ const AdminPanel: React.FC = () => {
         reportsSubscription.unsubscribe();
       };
     }
-  }, [isAuthenticated]);
+  }, [user]);
 
   const loadRealTimeData = async () => {
     setIsLoading(true);
@@ -71,7 +92,7 @@ const AdminPanel: React.FC = () => {
     try {
       const { data, error } = await supabase
         .from('users')
-        .select('*')
+        .select(USER_LIST_COLUMNS)
         .order('created_at', { ascending: false });
       
       if (data && !error) {
@@ -97,11 +118,13 @@ const AdminPanel: React.FC = () => {
         const processedChats = data.map(chat => ({
           ...chat,
           participants: [
-            chat.student?.anonymous_id || 'Student#Unknown',
+            chat.student_alias || chat.student?.anonymous_id || 'Student#Unknown',
             chat.faculty?.anonymous_id || 'Faculty#Unknown'
           ],
-          messageCount: chat.messages ? chat.messages.length : 0,
-          lastActivity: new Date(chat.created_at),
+          // Admins can see who is behind a per-chat alias
+          studentAccount: chat.student_alias ? chat.student?.anonymous_id || 'Student#Unknown' : null,
+          messageCount: chat.message_count || 0,
+          lastActivity: new Date(chat.last_message_at || chat.created_at),
           status: 'active'
         }));
         setChats(processedChats);
@@ -113,10 +136,7 @@ const AdminPanel: React.FC = () => {
 
   const loadReports = async () => {
     try {
-      const { data, error } = await supabase
-        .from('reports')
-        .select('*')
-        .order('timestamp', { ascending: false });
+      const { data, error } = await getAllReports();
       
       if (data && !error) {
         setReports(data);
@@ -126,14 +146,9 @@ const AdminPanel: React.FC = () => {
     }
   };
 
-  const handleLogin = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (loginForm.name === ADMIN_CREDENTIALS.name && loginForm.password === ADMIN_CREDENTIALS.password) {
-      setIsAuthenticated(true);
-      setLoginError('');
-    } else {
-      setLoginError('Invalid credentials');
-    }
+  const handleLogout = async () => {
+    await logout();
+    navigate('/');
   };
 
   const handleExportData = async () => {
@@ -141,7 +156,6 @@ const AdminPanel: React.FC = () => {
       const exportData = {
         users: users.map(user => ({
           id: user.id,
-          email: user.email,
           role: user.role,
           department: user.department,
           year: user.year,
@@ -160,6 +174,8 @@ const AdminPanel: React.FC = () => {
           id: report.id,
           message_id: report.message_id,
           reason: report.reason,
+          status: report.status,
+          assigned_to: report.assigned_to,
           reported_by: report.reported_by,
           timestamp: report.timestamp
         })),
@@ -186,89 +202,92 @@ const AdminPanel: React.FC = () => {
     }
   };
 
+  // Apply or lift a restriction; every change needs a reason for the log
+  const handleSetAccountStatus = async (targetUserId: string, status: string) => {
+    const reason = window.prompt(
+      status === 'active' ? 'Reason for lifting the restriction:' : `Reason for setting the account to ${status} (shown to the user):`
+    );
+    if (!reason?.trim()) return;
+
+    let duration: string | null = null;
+    if (status === 'muted' || status === 'suspended') {
+      duration = window.prompt('Duration (e.g. "24 hours", "7 days"); leave empty for no expiry:', RESTRICTION_DEFAULT_DURATIONS[status]);
+      if (duration === null) return;
+    }
+
+    const { error } = await setAccountStatus(targetUserId, status, reason, duration?.trim() || null);
+    if (error) {
+      alert(error.message);
+      return;
+    }
+
+    await loadUsers();
+    if (statusHistory?.userId === targetUserId) {
+      await handleToggleStatusHistory(targetUserId, true);
+    }
+  };
+
+  const handleToggleStatusHistory = async (targetUserId: string, refresh = false) => {
+    if (statusHistory?.userId === targetUserId && !refresh) {
+      setStatusHistory(null);
+      return;
+    }
+
+    const { data } = await getAccountStatusHistory(targetUserId);
+    setStatusHistory({ userId: targetUserId, entries: data || [] });
+  };
+
+  // Reveal a user's email and contact number for this session; the justification is audited
+  const handleUnmaskUser = async (targetUser: { id: string; anonymous_id: string }) => {
+    const justification = window.prompt(
+      `Why do you need the real identity behind ${targetUser.anonymous_id}? This is recorded in the audit log.`
+    );
+    if (justification === null) return;
+
+    if (justification.trim().length < MIN_UNMASK_JUSTIFICATION_LENGTH) {
+      alert(`Please give a justification of at least ${MIN_UNMASK_JUSTIFICATION_LENGTH} characters.`);
+      return;
+    }
+
+    const { data: identity, error } = await unmaskUser(targetUser.id, justification);
+    if (error) {
+      alert(error.message);
+      return;
+    }
+
+    setUnmaskedIdentities(prev => ({ ...prev, [targetUser.id]: identity }));
+  };
+
+  const handleMaskUser = (targetUserId: string) => {
+    setUnmaskedIdentities(prev => {
+      const next = { ...prev };
+      delete next[targetUserId];
+      return next;
+    });
+  };
+
   const handleViewChat = (chat: any) => {
     setSelectedChatForView(chat);
     setIsChatViewModalOpen(true);
   };
 
+  // Open the reported chat scrolled to the reported message
+  const handleViewReportContext = (report: ModerationReport) => {
+    const chat = chats.find(c => c.id === report.chat_id);
+    setSelectedChatForView(chat || {
+      id: report.chat_id,
+      department: report.chat?.department
+    });
+    setHighlightMessageId(report.message_snapshot?.id || report.message_id);
+    setIsChatViewModalOpen(true);
+  };
+
   const handleCloseChatView = () => {
     setSelectedChatForView(null);
+    setHighlightMessageId(null);
     setIsChatViewModalOpen(false);
   };
 
-  if (!isAuthenticated) {
-    return (
-      <div className="min-h-screen relative overflow-hidden bg-gray-900 flex items-center justify-center">
-        <AnimatedBackground />
-        
-        <div className="relative z-10 w-full max-w-md mx-4">
-          <div className="bg-gray-900/90 backdrop-blur-xl border-2 border-red-500/50 rounded-2xl p-8 shadow-2xl">
-            <div className="text-center mb-8">
-              <Shield className="w-12 h-12 text-red-400 mx-auto mb-4" />
-              <h1 className="font-orbitron text-2xl font-bold text-red-400 mb-2">
-                Admin Access
-              </h1>
-              <p className="text-gray-400 text-sm">
-                Restricted Area - Authorized Personnel Only
-              </p>
-            </div>
-
-            <form onSubmit={handleLogin} className="space-y-6">
-              <div>
-                <label className="block text-sm font-medium text-gray-300 mb-2">
-                  Admin Name
-                </label>
-                <input
-                  type="text"
-                  value={loginForm.name}
-                  onChange={(e) => setLoginForm(prev => ({ ...prev, name: e.target.value }))}
-                  className="w-full bg-gray-800/50 border border-gray-600/50 rounded-lg px-4 py-3 text-white placeholder-gray-500 focus:outline-none focus:border-red-400 transition-colors"
-                  placeholder="Enter admin name"
-                  required
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-300 mb-2">
-                  Password
-                </label>
-                <input
-                  type="password"
-                  value={loginForm.password}
-                  onChange={(e) => setLoginForm(prev => ({ ...prev, password: e.target.value }))}
-                  className="w-full bg-gray-800/50 border border-gray-600/50 rounded-lg px-4 py-3 text-white placeholder-gray-500 focus:outline-none focus:border-red-400 transition-colors"
-                  placeholder="Enter password"
-                  required
-                />
-              </div>
-
-              {loginError && (
-                <p className="text-red-400 text-sm text-center">{loginError}</p>
-              )}
-
-              <button
-                type="submit"
-                className="w-full bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 text-white font-semibold py-3 px-4 rounded-lg transition-all duration-300 transform hover:scale-105"
-              >
-                Access Admin Panel
-              </button>
-            </form>
-
-            <div className="mt-6 pt-6 border-t border-gray-700/50">
-              <button
-                onClick={() => navigate('/')}
-                className="w-full flex items-center justify-center gap-2 text-gray-400 hover:text-gray-300 transition-colors"
-              >
-                <ArrowLeft className="w-4 h-4" />
-                Back to Homepage
-              </button>
-            </div>
-          </div>
-        </div>
-      </div>
-    );
-  }
-
   const formatTime = (timestamp: Date | string) => {
     const date = new Date(timestamp);
     return date.toLocaleString('en-US', {
@@ -291,17 +310,26 @@ const AdminPanel: React.FC = () => {
   };
 
   const filteredUsers = users.filter(user => {
-    const matchesSearch = user.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    const matchesSearch = unmaskedIdentities[user.id]?.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          user.anonymous_id?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         user.department?.toLowerCase().includes(searchTerm.toLowerCase());
+                         user.department?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         // Resolve per-chat aliases to the account behind them
+                         chats.some(chat => chat.student_id === user.id && chat.student_alias?.toLowerCase().includes(searchTerm.toLowerCase()));
     const matchesRole = filterRole === 'all' || user.role === filterRole;
     return matchesSearch && matchesRole;
   });
 
+  const moderators = users.filter(u => u.role === 'admin');
+
+  const filteredReports = reports.filter(report =>
+    reportFilter === 'all' ||
+    (reportFilter === 'queue' ? report.status === 'open' || report.status === 'triaged' : report.status === reportFilter)
+  );
+
   const stats = {
     totalUsers: users.length,
     activeChats: chats.filter(c => c.status === 'active').length,
-    pendingReports: reports.filter(r => !r.resolved).length,
+    pendingReports: reports.filter(r => r.status === 'open' || r.status === 'triaged').length,
     totalMessages: chats.reduce((sum, chat) => sum + (chat.messageCount || 0), 0)
   };
 
@@ -354,7 +382,7 @@ const AdminPanel: React.FC = () => {
                   <span className="xs:hidden">Export</span>
                 </button>
                 <button
-                  onClick={() => setIsAuthenticated(false)}
+                  onClick={handleLogout}
                   className="px-3 sm:px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors text-xs sm:text-sm"
                 >
                   Logout
@@ -414,7 +442,9 @@ const AdminPanel: React.FC = () => {
               {[
                 { id: 'users', label: 'User Management', icon: Users },
                 { id: 'chats', label: 'Chat Logs', icon: MessageSquare },
-                { id: 'reports', label: 'Abuse Reports', icon: AlertTriangle }
+                { id: 'reports', label: 'Abuse Reports', icon: AlertTriangle },
+                { id: 'rules', label: 'Content Rules', icon: Filter },
+                ...(user?.isSuperAdmin ? [{ id: 'audit', label: 'Unmask Audit', icon: FileText }] : [])
               ].map((tab) => (
                 <button
                   key={tab.id}
@@ -474,14 +504,42 @@ const AdminPanel: React.FC = () => {
                         <th className="text-left py-3 px-2 sm:px-4 font-medium text-gray-300 text-sm sm:text-base hidden sm:table-cell">Department</th>
                         <th className="text-left py-3 px-2 sm:px-4 font-medium text-gray-300 text-sm sm:text-base">Anonymous ID</th>
                         <th className="text-left py-3 px-2 sm:px-4 font-medium text-gray-300 text-sm sm:text-base hidden lg:table-cell">Created</th>
+                        <th className="text-left py-3 px-2 sm:px-4 font-medium text-gray-300 text-sm sm:text-base">Status</th>
                       </tr>
                     </thead>
                     <tbody>
-                      {filteredUsers.map((user) => (
-                        <tr key={user.id} className="border-b border-gray-700/30 hover:bg-gray-700/20">
+                      {filteredUsers.map((user) => {
+                        const restriction = getAccountRestriction(user);
+                        const historyEntries = statusHistory && statusHistory.userId === user.id ? statusHistory.entries : null;
+                        return (
+                        <Fragment key={user.id}>
+                        <tr className="border-b border-gray-700/30 hover:bg-gray-700/20">
                           <td className="py-3 px-2 sm:px-4">
                             <div>
-                              <p className="text-white font-medium text-sm sm:text-base">{user.email}</p>
+                              {unmaskedIdentities[user.id] ? (
+                                <p className="text-white font-medium text-sm sm:text-base">
+                                  {unmaskedIdentities[user.id].email}
+                                  {unmaskedIdentities[user.id].contact_number && (
+                                    <span className="ml-2 text-gray-400 text-xs sm:text-sm">{unmaskedIdentities[user.id].contact_number}</span>
+                                  )}
+                                  <button
+                                    onClick={() => handleMaskUser(user.id)}
+                                    className="ml-2 text-xs text-gray-400 hover:text-gray-200 transition-colors"
+                                  >
+                                    Hide
+                                  </button>
+                                </p>
+                              ) : (
+                                <p className="text-gray-500 text-sm sm:text-base italic">
+                                  Identity hidden
+                                  <button
+                                    onClick={() => handleUnmaskUser(user)}
+                                    className="ml-2 px-2 py-0.5 not-italic text-xs bg-red-600/20 text-red-400 border border-red-600/50 rounded hover:bg-red-600/30 transition-colors"
+                                  >
+                                    Unmask
+                                  </button>
+                                </p>
+                              )}
                               {user.year && <p className="text-gray-400 text-xs sm:text-sm">{user.year}</p>}
                             </div>
                           </td>
@@ -497,8 +555,68 @@ const AdminPanel: React.FC = () => {
                           <td className="py-3 px-2 sm:px-4 text-gray-400 text-xs sm:text-sm hidden lg:table-cell">
                             {formatTime(user.created_at)}
                           </td>
+                          <td className="py-3 px-2 sm:px-4">
+                            <div className="flex flex-col gap-1">
+                              <span className={`text-xs sm:text-sm font-medium capitalize ${restriction ? 'text-red-400' : 'text-green-400'}`}>
+                                {restriction ? restriction.status : 'active'}
+                                {restriction?.expiresAt && (
+                                  <span className="text-gray-500 normal-case font-normal"> until {formatTime(restriction.expiresAt)}</span>
+                                )}
+                              </span>
+                              {user.role !== 'admin' && (
+                                <div className="flex flex-wrap gap-1 text-xs">
+                                  {restriction ? (
+                                    <button
+                                      onClick={() => handleSetAccountStatus(user.id, 'active')}
+                                      className="px-2 py-0.5 bg-green-600/20 text-green-400 border border-green-600/50 rounded hover:bg-green-600/30 transition-colors"
+                                    >
+                                      Lift
+                                    </button>
+                                  ) : (
+                                    ['muted', 'suspended', 'banned'].map(status => (
+                                      <button
+                                        key={status}
+                                        onClick={() => handleSetAccountStatus(user.id, status)}
+                                        className="px-2 py-0.5 bg-red-600/20 text-red-400 border border-red-600/50 rounded hover:bg-red-600/30 transition-colors"
+                                      >
+                                        {status === 'muted' ? 'Mute' : status === 'suspended' ? 'Suspend' : 'Ban'}
+                                      </button>
+                                    ))
+                                  )}
+                                  <button
+                                    onClick={() => handleToggleStatusHistory(user.id)}
+                                    className="px-2 py-0.5 text-gray-400 hover:text-gray-200 transition-colors"
+                                  >
+                                    History
+                                  </button>
+                                </div>
+                              )}
+                            </div>
+                          </td>
                         </tr>
-                      ))}
+                        {historyEntries && (
+                          <tr className="border-b border-gray-700/30 bg-gray-800/40">
+                            <td colSpan={6} className="py-2 px-2 sm:px-4">
+                              {historyEntries.length === 0 ? (
+                                <p className="text-gray-500 text-xs sm:text-sm">No status changes</p>
+                              ) : (
+                                <div className="space-y-1">
+                                  {historyEntries.map(entry => (
+                                    <p key={entry.id} className="text-xs sm:text-sm text-gray-300">
+                                      <span className="text-gray-500">{formatTime(entry.created_at)} • </span>
+                                      <span className="text-purple-400 font-mono">{entry.changed_by?.anonymous_id || 'System'}</span>{' '}
+                                      {entry.from_status} → {entry.to_status}
+                                      {entry.expires_at ? ` until ${formatTime(entry.expires_at)}` : ''}: {entry.reason}
+                                    </p>
+                                  ))}
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                        </Fragment>
+                        );
+                      })}
                     </tbody>
                   </table>
                 </div>
@@ -518,6 +636,9 @@ const AdminPanel: React.FC = () => {
                             {chat.participants.map((participant: string, index: number) => (
                               <React.Fragment key={participant}>
                                 <span className="text-purple-400 font-mono text-xs sm:text-sm">{participant}</span>
+                                {index === 0 && chat.studentAccount && (
+                                  <span className="text-gray-500 text-xs">(alias of <span className="font-mono text-gray-300">{chat.studentAccount}</span>)</span>
+                                )}
                                 {index < chat.participants.length - 1 && (
                                   <span className="text-gray-500">↔</span>
                                 )}
@@ -563,32 +684,37 @@ const AdminPanel: React.FC = () => {
             {/* Reports Tab */}
             {activeTab === 'reports' && (
               <div className="p-4 sm:p-6">
-                <h2 className="font-orbitron text-lg sm:text-xl font-bold text-white mb-6">Abuse Reports</h2>
+                <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-6">
+                  <h2 className="font-orbitron text-lg sm:text-xl font-bold text-white">Moderation Queue</h2>
+                  <div className="flex flex-wrap gap-2">
+                    {['queue', 'all', ...REPORT_STATUSES].map((status) => (
+                      <button
+                        key={status}
+                        onClick={() => setReportFilter(status)}
+                        className={`px-3 py-1 rounded-lg text-xs sm:text-sm capitalize transition-colors ${
+                          reportFilter === status
+                            ? 'bg-red-600/20 text-red-400 border border-red-600/50'
+                            : 'bg-gray-700/50 text-gray-400 border border-gray-600/50 hover:text-gray-300'
+                        }`}
+                      >
+                        {status === 'queue' ? 'Needs review' : status}
+                      </button>
+                    ))}
+                  </div>
+                </div>
                 <div className="space-y-3 sm:space-y-4">
-                  {reports.map((report) => (
-                    <div key={report.id} className="bg-gray-700/30 border border-gray-600/30 rounded-lg p-3 sm:p-4">
-                      <div className="flex flex-col lg:flex-row items-start justify-between gap-3 mb-3">
-                        <div className="flex-1">
-                          <p className="text-white font-medium mb-1 text-sm sm:text-base">Reason: {report.reason}</p>
-                          <div className="text-xs sm:text-sm text-gray-400 space-y-1">
-                            <p>Message ID: <span className="text-purple-400 font-mono">{report.message_id}</span></p>
-                            <p>Reported by: <span className="text-purple-400 font-mono">{report.reported_by}</span></p>
-                            <p>Time: {formatTime(report.timestamp)}</p>
-                          </div>
-                        </div>
-                        <div className="flex gap-2 w-full lg:w-auto">
-                          <button className="flex-1 lg:flex-none px-2 sm:px-3 py-1 bg-green-600/20 text-green-400 border border-green-600/50 rounded-lg hover:bg-green-600/30 transition-colors text-xs sm:text-sm">
-                            Resolve
-                          </button>
-                          <button className="flex-1 lg:flex-none px-2 sm:px-3 py-1 bg-red-600/20 text-red-400 border border-red-600/50 rounded-lg hover:bg-red-600/30 transition-colors text-xs sm:text-sm">
-                            View Details
-                          </button>
-                        </div>
-                      </div>
-                    </div>
+                  {filteredReports.map((report) => (
+                    <ReportModerationCard
+                      key={report.id}
+                      report={report}
+                      moderators={moderators}
+                      currentUserId={user?.id}
+                      onViewContext={() => handleViewReportContext(report)}
+                      onChanged={loadReports}
+                    />
                   ))}
                   
-                  {reports.length === 0 && (
+                  {filteredReports.length === 0 && (
                     <div className="text-center py-12">
                       <AlertTriangle className="w-12 h-12 text-gray-600 mx-auto mb-4" />
                       <p className="text-gray-400">No reports available</p>
@@ -597,6 +723,28 @@ const AdminPanel: React.FC = () => {
                 </div>
               </div>
             )}
+
+            {/* Content Rules Tab */}
+            {activeTab === 'rules' && (
+              <div className="p-4 sm:p-6">
+                <div className="mb-6">
+                  <h2 className="font-orbitron text-lg sm:text-xl font-bold text-white">Content Rules</h2>
+                  <p className="text-gray-400 text-sm mt-1">Checked on every outgoing message: block stops it, warn asks the sender to confirm, flag files a report.</p>
+                </div>
+                <ModerationRulesPanel />
+              </div>
+            )}
+
+            {/* Unmask Audit Tab (super-admins only) */}
+            {activeTab === 'audit' && user?.isSuperAdmin && (
+              <div className="p-4 sm:p-6">
+                <div className="mb-6">
+                  <h2 className="font-orbitron text-lg sm:text-xl font-bold text-white">Unmask Audit Log</h2>
+                  <p className="text-gray-400 text-sm mt-1">Every time an admin revealed the real identity behind an account, with their justification. Entries can't be edited or deleted.</p>
+                </div>
+                <UnmaskAuditPanel />
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -608,9 +756,11 @@ const AdminPanel: React.FC = () => {
           onClose={handleCloseChatView}
           chatId={selectedChatForView.id}
           participants={selectedChatForView.participants || ['Student#Unknown', 'Faculty#Unknown']}
+          studentAccount={selectedChatForView.studentAccount}
           department={selectedChatForView.department}
           messageCount={selectedChatForView.messageCount}
           createdAt={selectedChatForView.created_at}
+          highlightMessageId={highlightMessageId}
         />
       )}
     </div>
@@ -92,7 +92,7 @@ const ContactSupport: React.FC = () => {
     },
     {
       question: 'Can faculty see my real identity?',
-      answer: 'No, faculty only see your anonymous ID (e.g., Student#123). Your real identity remains protected.'
+      answer: 'No, faculty only see your anonymous ID (e.g., Student#K7Q2XM), or a different pseudonym in each chat if you turn that on. Your real identity remains protected.'
     },
     {
       question: 'What if I encounter technical issues?',
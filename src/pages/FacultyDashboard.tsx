@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { MessageSquare, Filter, LogOut, Settings, AlertTriangle, User, Search, Clock, Star, Archive, Menu, X } from 'lucide-react';
 import { useUser } from '../contexts/UserContext';
@@ -7,7 +7,18 @@ import ChatBox from '../components/ChatBox';
 import Sidebar from '../components/Sidebar';
 import ThemeSelector from '../components/ThemeSelector';
 import AnimatedBackground from '../components/AnimatedBackground';
-import { getUserChats, appendMessage } from '../lib/database';
+import UnreadBadge from '../components/UnreadBadge';
+import AvailabilitySettings, { AvailabilitySettingsValue } from '../components/AvailabilitySettings';
+import { getUserChats, subscribeToUserMessages, markMessagesAsDelivered, setSubjectTags, setAvailability } from '../lib/database';
+
+interface InboxMessage {
+  chatId: string;
+  from: 'student' | 'faculty';
+  text: string;
+  timestamp: string;
+}
+
+const BASE_TITLE = 'AnonBridge - Secure Anonymous Communication';
 
 interface StudentChat {
   id: string;
@@ -33,13 +44,14 @@ interface StudentChat {
 }
 
 const FacultyDashboard: React.FC = () => {
-  const { user, setUser } = useUser();
+  const { user, setUser, logout } = useUser();
   const { currentTheme, themes, currentBackground } = useTheme();
   const theme = themes.find(t => t.id === currentTheme) || themes[0];
   const navigate = useNavigate();
   
   const [selectedChat, setSelectedChat] = useState<string>('');
   const [isThemeSelectorOpen, setIsThemeSelectorOpen] = useState(false);
+  const [isAvailabilityOpen, setIsAvailabilityOpen] = useState(false);
   const [studentChats, setStudentChats] = useState<StudentChat[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterDepartment, setFilterDepartment] = useState('all');
@@ -56,82 +68,171 @@ const FacultyDashboard: React.FC = () => {
   }, [user, currentTheme]);
 
   // Load student chats from Supabase
-  useEffect(() => {
-    const loadStudentChats = async () => {
-      if (user) {
-        const { data: chats, error } = await getUserChats(user.id, 'faculty', {
-          orderBy: 'created_at',
-          ascending: false
-        });
-
-        if (chats && !error) {
-          const formattedChats: StudentChat[] = chats.map(chat => ({
-            id: chat.id,
-            anonymousId: chat.student?.anonymous_id || 'Student#Unknown',
-            department: chat.department,
-            lastMessage: chat.lastMessage || 'No messages yet',
-            timestamp: new Date(chat.created_at),
-            unreadCount: chat.unreadCount || 0,
-            priority: 'normal', // You can add this field to your database if needed
-            threadTitle: chat.subject || 'General Question',
-            subject: chat.subject || 'General Question',
-            isArchived: chat.status === 'archived',
-            isPinned: false, // You can add this field to your database if needed
-            studentYear: chat.student?.year,
-            messageCount: chat.messageCount || 0,
-            status: chat.status,
-            student: chat.student
-          }));
-          setStudentChats(formattedChats);
-        } else {
-          // Initialize with 2 sample chats if no data
-          const sampleChats: StudentChat[] = [
-            {
-              id: 'sample_faculty_1',
-              anonymousId: 'Student#128',
-              department: 'Computer Science Engineering',
-              lastMessage: 'Thank you for the explanation about data structures!',
-              timestamp: new Date(Date.now() - 180000),
-              unreadCount: 1,
-              priority: 'normal',
-              threadTitle: 'Assignment Questions',
-              subject: 'Data Structures',
-              isArchived: false,
-              isPinned: true,
-              studentYear: '2nd Year',
-              messageCount: 15,
-              status: 'active'
-            },
-            {
-              id: 'sample_faculty_2',
-              anonymousId: 'Student#096',
-              department: 'Computer Science Engineering',
-              lastMessage: 'Could you help me understand the algorithm complexity?',
-              timestamp: new Date(Date.now() - 1800000),
-              unreadCount: 2,
-              priority: 'high',
-              threadTitle: 'Exam Preparation',
-              subject: 'Algorithms',
-              isArchived: false,
-              isPinned: false,
-              studentYear: '3rd Year',
-              messageCount: 8,
-              status: 'waiting'
-            }
-          ];
-          setStudentChats(sampleChats);
-        }
+  const loadStudentChats = useCallback(async () => {
+    if (user) {
+      const { data: chats, error } = await getUserChats(user.id, 'faculty', {
+        orderBy: 'created_at',
+        ascending: false
+      });
+
+      if (chats && !error) {
+        const formattedChats: StudentChat[] = chats.map(chat => ({
+          id: chat.id,
+          anonymousId: chat.participants.student,
+          department: chat.department,
+          lastMessage: chat.lastMessage || 'No messages yet',
+          timestamp: new Date(chat.created_at),
+          unreadCount: chat.unreadCount || 0,
+          priority: chat.urgency || 'normal',
+          threadTitle: chat.subject || 'General Question',
+          subject: chat.subject || 'General Question',
+          isArchived: chat.status === 'archived',
+          isPinned: false, // You can add this field to your database if needed
+          studentYear: chat.student?.year,
+          messageCount: chat.messageCount || 0,
+          status: chat.status,
+          student: chat.student
+        }));
+        setStudentChats(formattedChats);
+      } else {
+        // Initialize with 2 sample chats if no data
+        const sampleChats: StudentChat[] = [
+          {
+            id: 'sample_faculty_1',
+            anonymousId: 'Student#128',
+            department: 'Computer Science Engineering',
+            lastMessage: 'Thank you for the explanation about data structures!',
+            timestamp: new Date(Date.now() - 180000),
+            unreadCount: 1,
+            priority: 'normal',
+            threadTitle: 'Assignment Questions',
+            subject: 'Data Structures',
+            isArchived: false,
+            isPinned: true,
+            studentYear: '2nd Year',
+            messageCount: 15,
+            status: 'active'
+          },
+          {
+            id: 'sample_faculty_2',
+            anonymousId: 'Student#096',
+            department: 'Computer Science Engineering',
+            lastMessage: 'Could you help me understand the algorithm complexity?',
+            timestamp: new Date(Date.now() - 1800000),
+            unreadCount: 2,
+            priority: 'high',
+            threadTitle: 'Exam Preparation',
+            subject: 'Algorithms',
+            isArchived: false,
+            isPinned: false,
+            studentYear: '3rd Year',
+            messageCount: 8,
+            status: 'waiting'
+          }
+        ];
+        setStudentChats(sampleChats);
       }
-    };
+    }
+  }, [user]);
 
+  useEffect(() => {
     loadStudentChats();
-  }, [user]);
+  }, [loadStudentChats]);
+
+  const selectedChatRef = useRef(selectedChat);
+  const knownChatIdsRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    selectedChatRef.current = selectedChat;
+  }, [selectedChat]);
+
+  useEffect(() => {
+    knownChatIdsRef.current = new Set(studentChats.map(chat => chat.id));
+  }, [studentChats]);
+
+  // Keep unread counts live for chats that aren't open
+  useEffect(() => {
+    if (!user) return;
+
+    return subscribeToUserMessages(user.id, (message: InboxMessage) => {
+      // The open chat's ChatBox handles its own messages and receipts
+      if (message.from === 'faculty' || message.chatId === selectedChatRef.current) return;
+
+      markMessagesAsDelivered(message.chatId);
 
-  const handleLogout = () => {
-    setUser(null);
+      // A newly routed chat: reload to pick it up with its server-side count
+      if (!knownChatIdsRef.current.has(message.chatId)) {
+        loadStudentChats();
+        return;
+      }
+
+      setStudentChats(prev => prev.map(chat => 
+        chat.id === message.chatId
+          ? { 
+              ...chat, 
+              lastMessage: message.text, 
+              timestamp: new Date(message.timestamp),
+              messageCount: chat.messageCount + 1,
+              unreadCount: chat.unreadCount + 1 
+            }
+          : chat
+      ));
+    });
+  }, [user, loadStudentChats]);
+
+  // Global unread count covers every chat, not just the filtered list
+  const totalUnreadCount = studentChats.reduce((sum, chat) => sum + chat.unreadCount, 0);
+
+  // Global unread badge in the browser tab
+  useEffect(() => {
+    document.title = totalUnreadCount > 0 ? `(${totalUnreadCount}) ${BASE_TITLE}` : BASE_TITLE;
+    return () => {
+      document.title = BASE_TITLE;
+    };
+  }, [totalUnreadCount]);
+
+  const handleLogout = async () => {
+    await logout();
     navigate('/');
   };
 
+  const handleEditSubjectTags = async () => {
+    if (!user) return;
+
+    const input = window.prompt(
+      'Subjects you take questions on, separated by commas (e.g. data structures, dbms):',
+      (user.subjectTags || []).join(', ')
+    );
+    if (input === null) return;
+
+    const { data: profile, error } = await setSubjectTags(input.split(','));
+    if (error) {
+      alert(error.message || 'Failed to update your subjects');
+      return;
+    }
+
+    setUser({ ...user, subjectTags: profile.subject_tags });
+  };
+
+  const handleSaveAvailability = async (settings: AvailabilitySettingsValue): Promise<string | null> => {
+    if (!user) return null;
+
+    const { data: profile, error } = await setAvailability(settings);
+    if (error) {
+      return error.message || 'Failed to update your availability';
+    }
+
+    setUser({
+      ...user,
+      availabilityStatus: profile.availability_status,
+      officeHours: profile.office_hours,
+      officeHoursTimezone: profile.office_hours_timezone,
+      autoReply: profile.auto_reply
+    });
+    setIsAvailabilityOpen(false);
+    return null;
+  };
+
   const togglePinChat = (chatId: string) => {
     setStudentChats(prev => prev.map(chat => 
       chat.id === chatId 
@@ -189,40 +290,25 @@ const FacultyDashboard: React.FC = () => {
     }
   };
 
-  const handleNewMessage = async (message: string) => {
-    if (!user || !selectedChat) return;
-
-    try {
-      // Update local state immediately
-      setStudentChats(prev => prev.map(chat => 
-        chat.id === selectedChat 
-          ? { 
-              ...chat, 
-              lastMessage: message, 
-              timestamp: new Date(),
-              messageCount: chat.messageCount + 1,
-              status: 'active' as const
-            }
-          : chat
-      ));
-
-      // Send to Supabase
-      const { data, error } = await appendMessage({
-        chatId: selectedChat,
-        from: 'faculty',
-        text: message
-      });
+  // ChatBox has already stored the message; only refresh the thread list
+  const handleNewMessage = (message: string) => {
+    if (!selectedChat) return;
 
-      if (error) {
-        console.error('Error sending message:', error);
-      }
-    } catch (error) {
-      console.error('Error handling new message:', error);
-    }
+    setStudentChats(prev => prev.map(chat => 
+      chat.id === selectedChat 
+        ? { 
+            ...chat, 
+            lastMessage: message, 
+            timestamp: new Date(),
+            messageCount: chat.messageCount + 1,
+            status: 'active' as const
+          }
+        : chat
+    ));
   };
 
+  // ProtectedRoute handles redirects; this only narrows the type
   if (!user) {
-    navigate('/login');
     return null;
   }
 
@@ -270,7 +356,6 @@ const FacultyDashboard: React.FC = () => {
     return matchesSearch && matchesDepartment && matchesPriority && matchesStatus && !chat.isArchived;
   });
 
-  const totalUnreadCount = filteredChats.reduce((sum, chat) => sum + chat.unreadCount, 0);
   const urgentChats = filteredChats.filter(chat => chat.priority === 'urgent').length;
   const waitingChats = filteredChats.filter(chat => chat.status === 'waiting').length;
   const pinnedChats = filteredChats.filter(chat => chat.isPinned);
@@ -306,9 +391,10 @@ const FacultyDashboard: React.FC = () => {
             <div className="flex items-center gap-3">
               <button
                 onClick={() => setIsMobileChatListOpen(!isMobileChatListOpen)}
-                className="p-2 rounded-lg hover:bg-gray-800/50 transition-colors"
+                className="relative p-2 rounded-lg hover:bg-gray-800/50 transition-colors"
               >
                 <Menu className="w-5 h-5 text-white" />
+                <UnreadBadge count={totalUnreadCount} color={theme.primary} className="absolute -top-1 -right-1" />
               </button>
               <div>
                 <h1 className="font-orbitron text-lg font-bold text-red-400">
@@ -416,6 +502,40 @@ const FacultyDashboard: React.FC = () => {
                 </div>
               )}
 
+              {/* Subjects new chats are routed to this faculty member for */}
+              {!isChatSidebarCollapsed && (
+                <div className="flex items-center gap-2 mb-4 text-xs text-gray-300">
+                  <span className="flex-1 truncate" title="New chats on these subjects are routed to you first">
+                    Subjects: {user.subjectTags?.length ? user.subjectTags.join(', ') : <span className="text-gray-500">none set</span>}
+                  </span>
+                  <button
+                    onClick={handleEditSubjectTags}
+                    className="px-2 py-0.5 rounded bg-gray-800/50 hover:text-white transition-colors"
+                  >
+                    Edit
+                  </button>
+                </div>
+              )}
+
+              {/* Status and office hours students see before starting a chat */}
+              {!isChatSidebarCollapsed && (
+                <div className="flex items-center gap-2 -mt-2 mb-4 text-xs text-gray-300">
+                  <span className="flex-1 truncate" title="Students see how soon you're likely to reply before they start a chat">
+                    Status: <span className="capitalize">{(user.availabilityStatus || 'available').replace(/_/g, ' ')}</span>
+                    {' · '}
+                    {user.officeHours?.length
+                      ? `${user.officeHours.length} office hours slot${user.officeHours.length === 1 ? '' : 's'}`
+                      : <span className="text-gray-500">no office hours</span>}
+                  </span>
+                  <button
+                    onClick={() => setIsAvailabilityOpen(true)}
+                    className="px-2 py-0.5 rounded bg-gray-800/50 hover:text-white transition-colors"
+                  >
+                    Edit
+                  </button>
+                </div>
+              )}
+
               {/* Collapsed state - show only icons */}
               {isChatSidebarCollapsed && (
                 <div className="space-y-4">
@@ -732,6 +852,10 @@ const FacultyDashboard: React.FC = () => {
                     role="faculty" 
                     threadId={selectedChat} 
                     recipientId={selectedChat}
+                    participants={{
+                      student: studentChats.find(c => c.id === selectedChat)?.anonymousId || 'Student#Unknown',
+                      faculty: user.anonymousId
+                    }}
                     onClose={closeChat}
                     onNewMessage={handleNewMessage}
                   />
@@ -777,6 +901,23 @@ const FacultyDashboard: React.FC = () => {
         isOpen={isThemeSelectorOpen}
         onClose={() => setIsThemeSelectorOpen(false)}
       />
+
+      {isAvailabilityOpen && (
+        <AvailabilitySettings
+          initial={{
+            status: user.availabilityStatus || 'available',
+            officeHours: user.officeHours || [],
+            // Default a first schedule to the browser's time zone
+            timezone: user.officeHours?.length
+              ? user.officeHoursTimezone || 'UTC'
+              : Intl.DateTimeFormat().resolvedOptions().timeZone,
+            autoReply: user.autoReply || ''
+          }}
+          accentColor={theme.primary}
+          onSave={handleSaveAvailability}
+          onClose={() => setIsAvailabilityOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -1,27 +1,32 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate, useSearchParams } from 'react-router-dom';
-import { Mail, User, GraduationCap, Building, ArrowRight, Shield, ArrowLeft } from 'lucide-react';
-import { useUser } from '../contexts/UserContext';
+import { useNavigate, useSearchParams, useLocation } from 'react-router-dom';
+import { Mail, Lock, User, GraduationCap, Building, ArrowRight, Shield, ArrowLeft, Ban } from 'lucide-react';
+import { useUser, toUser, AccountRestriction } from '../contexts/UserContext';
 import { useTheme } from '../contexts/ThemeContext';
 import GlitchButton from '../components/GlitchButton';
 import AnimatedBackground from '../components/AnimatedBackground';
-import { checkUserExists } from '../lib/database';
+import { signInUser } from '../lib/database';
 
 const Login: React.FC = () => {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
+  const location = useLocation();
   const { setUser } = useUser();
   const { setCurrentTheme } = useTheme();
   
   const [formData, setFormData] = useState({
     email: '',
+    password: '',
     role: searchParams.get('role') || '',
     department: '',
     year: ''
   });
   
+  const isAdminLogin = formData.role === 'admin';
+  
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(false);
+  const [restriction, setRestriction] = useState<AccountRestriction | null>(null);
 
   const departments = [
     'Computer Science Engineering',
@@ -48,7 +53,7 @@ const Login: React.FC = () => {
       root.style.setProperty('--form-secondary', '#7c3aed');
       root.style.setProperty('--form-accent', '#06b6d4');
       root.style.setProperty('--form-glow', '#00d4ff80');
-    } else if (formData.role === 'faculty') {
+    } else if (formData.role === 'faculty' || formData.role === 'admin') {
       root.style.setProperty('--form-primary', '#ff4444');
       root.style.setProperty('--form-secondary', '#ff8800');
       root.style.setProperty('--form-accent', '#ff6b35');
@@ -91,11 +96,15 @@ const Login: React.FC = () => {
       newErrors.email = emailError;
     }
 
+    if (!formData.password) {
+      newErrors.password = 'Password is required';
+    }
+
     if (!formData.role) {
       newErrors.role = 'Please select your role';
     }
 
-    if (!formData.department) {
+    if (!isAdminLogin && !formData.department) {
       newErrors.department = 'Please select your department';
     }
 
@@ -107,44 +116,32 @@ const Login: React.FC = () => {
     return Object.keys(newErrors).length === 0;
   };
 
-  const generateAnonymousId = (role: string) => {
-    const prefix = role === 'student' ? 'Student' : 'Faculty';
-    const randomNum = Math.floor(Math.random() * 999) + 100;
-    return `${prefix}#${randomNum}`;
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!validateForm()) return;
 
     setIsLoading(true);
+    setRestriction(null);
 
     try {
-      // Check if user exists
-      const { exists, user, error: checkError } = await checkUserExists(formData.email);
-      
-      if (checkError) {
-        setErrors({ submit: 'Error checking user existence. Please try again.' });
+      const { data, error: signInError } = await signInUser(formData.email, formData.password);
+
+      if (signInError?.code === 'account_restricted') {
+        setRestriction(signInError.restriction);
         setIsLoading(false);
         return;
       }
 
-      if (!exists) {
-        setErrors({ email: 'No account found with this email. Please register first.' });
+      if (signInError || !data) {
+        setErrors({ submit: signInError?.message || 'Invalid email or password' });
         setIsLoading(false);
         return;
       }
 
-      // Create user object
-      const userObj = {
-        id: user.id,
-        email: formData.email,
-        role: user.role as 'student' | 'faculty',
-        department: user.department,
-        year: user.year,
-        anonymousId: user.anonymous_id
-      };
+      const { user } = data;
+
+      const userObj = toUser(user);
 
       setUser(userObj);
 
@@ -155,8 +152,11 @@ const Login: React.FC = () => {
         setCurrentTheme('red_alert');
       }
 
-      // Navigate to appropriate dashboard
-      navigate(userObj.role === 'student' ? '/student' : '/faculty');
+      // Return to the page the user was trying to reach, else their dashboard.
+      // ProtectedRoute bounces them to their own dashboard if the role differs.
+      const from = (location.state as { from?: { pathname: string } } | null)?.from?.pathname;
+      const dashboardPath = userObj.role === 'admin' ? '/admin' : `/${userObj.role}`;
+      navigate(from || dashboardPath, { replace: true });
     } catch (error) {
       console.error('Login error:', error);
       setErrors({ submit: 'Login failed. Please try again.' });
@@ -189,7 +189,7 @@ const Login: React.FC = () => {
         background: 'linear-gradient(135deg, rgba(0, 212, 255, 0.1), rgba(124, 58, 237, 0.1))',
         boxShadow: '0 0 30px var(--form-glow)'
       };
-    } else if (formData.role === 'faculty') {
+    } else if (formData.role === 'faculty' || isAdminLogin) {
       return {
         borderColor: 'var(--form-primary)',
         background: 'linear-gradient(135deg, rgba(255, 68, 68, 0.1), rgba(255, 136, 0, 0.1))',
@@ -291,70 +291,103 @@ const Login: React.FC = () => {
               </p>
             </div>
 
-            {/* Role Selection */}
-            <div>
-              <label className="block text-sm font-medium text-gray-300 mb-3 font-rajdhani uppercase tracking-wide">
-                Select Role *
-              </label>
-              <div className="grid grid-cols-2 gap-2 sm:gap-3">
-                {['student', 'faculty'].map((role) => (
-                  <button
-                    key={role}
-                    type="button"
-                    onClick={() => handleInputChange('role', role)}
-                    className={`p-3 sm:p-4 rounded-lg border-2 transition-all duration-300 flex flex-col items-center gap-2 ${
-                      formData.role === role
-                        ? 'text-white shadow-lg'
-                        : 'border-gray-600 hover:border-gray-500 text-gray-400 hover:text-gray-300'
-                    }`}
-                    style={{
-                      borderColor: formData.role === role ? 'var(--form-primary)' : undefined,
-                      background: formData.role === role ? 'var(--form-glow)' : undefined,
-                      boxShadow: formData.role === role ? '0 0 20px var(--form-glow)' : undefined
-                    }}
-                  >
-                    {role === 'student' ? (
-                      <GraduationCap className="w-5 h-5 sm:w-6 sm:h-6" />
-                    ) : (
-                      <User className="w-5 h-5 sm:w-6 sm:h-6" />
-                    )}
-                    <span className="font-rajdhani font-medium capitalize text-sm sm:text-base">{role}</span>
-                  </button>
-                ))}
-              </div>
-              {errors.role && <p className="text-red-400 text-xs sm:text-sm mt-1">{errors.role}</p>}
-            </div>
-
-            {/* Department Selection */}
+            {/* Password Field */}
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2 font-rajdhani uppercase tracking-wide">
-                Department *
+                Password
               </label>
               <div className="relative">
-                <Building className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 sm:w-5 sm:h-5 text-gray-400" />
-                <select
-                  value={formData.department}
-                  onChange={(e) => handleInputChange('department', e.target.value)}
-                  className="w-full bg-gray-800/50 border border-gray-600/50 rounded-lg pl-10 sm:pl-12 pr-4 py-2 sm:py-3 text-white focus:outline-none transition-all duration-300 appearance-none text-sm sm:text-base"
-                  required
+                <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 sm:w-5 sm:h-5 text-gray-400" />
+                <input
+                  type="password"
+                  value={formData.password}
+                  onChange={(e) => handleInputChange('password', e.target.value)}
+                  className="w-full bg-gray-800/50 border border-gray-600/50 rounded-lg pl-10 sm:pl-12 pr-4 py-2 sm:py-3 text-white placeholder-gray-500 focus:outline-none transition-all duration-300 text-sm sm:text-base"
+                  placeholder="Enter your password"
+                  autoComplete="current-password"
                   style={{
-                    focusBorderColor: 'var(--form-primary)',
-                    borderColor: formData.department ? 'var(--form-primary)' : undefined
+                    borderColor: formData.password ? (errors.password ? '#ef4444' : 'var(--form-primary)') : undefined
                   }}
                   onFocus={(e) => e.target.style.borderColor = 'var(--form-primary)'}
-                  onBlur={(e) => e.target.style.borderColor = formData.department ? 'var(--form-primary)' : '#6b7280'}
-                >
-                  <option value="">Select Department</option>
-                  {departments.map((dept) => (
-                    <option key={dept} value={dept} className="bg-gray-800">
-                      {dept}
-                    </option>
-                  ))}
-                </select>
+                  onBlur={(e) => e.target.style.borderColor = formData.password ? (errors.password ? '#ef4444' : 'var(--form-primary)') : '#6b7280'}
+                />
               </div>
-              {errors.department && <p className="text-red-400 text-xs sm:text-sm mt-1">{errors.department}</p>}
+              {errors.password && <p className="text-red-400 text-xs sm:text-sm mt-1">{errors.password}</p>}
             </div>
 
+            {isAdminLogin ? (
+              <div className="p-3 rounded-lg border-2 flex items-center gap-3" style={{ borderColor: 'var(--form-primary)', background: 'var(--form-glow)' }}>
+                <Shield className="w-5 h-5 text-white" />
+                <span className="font-rajdhani font-medium text-white text-sm sm:text-base">Administrator sign-in</span>
+              </div>
+            ) : (
+              <>
+                {/* Role Selection */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-3 font-rajdhani uppercase tracking-wide">
+                    Select Role *
+                  </label>
+                  <div className="grid grid-cols-2 gap-2 sm:gap-3">
+                    {['student', 'faculty'].map((role) => (
+                      <button
+                        key={role}
+                        type="button"
+                        onClick={() => handleInputChange('role', role)}
+                        className={`p-3 sm:p-4 rounded-lg border-2 transition-all duration-300 flex flex-col items-center gap-2 ${
+                          formData.role === role
+                            ? 'text-white shadow-lg'
+                            : 'border-gray-600 hover:border-gray-500 text-gray-400 hover:text-gray-300'
+                        }`}
+                        style={{
+                          borderColor: formData.role === role ? 'var(--form-primary)' : undefined,
+                          background: formData.role === role ? 'var(--form-glow)' : undefined,
+                          boxShadow: formData.role === role ? '0 0 20px var(--form-glow)' : undefined
+                        }}
+                      >
+                        {role === 'student' ? (
+                          <GraduationCap className="w-5 h-5 sm:w-6 sm:h-6" />
+                        ) : (
+                          <User className="w-5 h-5 sm:w-6 sm:h-6" />
+                        )}
+                        <span className="font-rajdhani font-medium capitalize text-sm sm:text-base">{role}</span>
+                      </button>
+                    ))}
+                  </div>
+                  {errors.role && <p className="text-red-400 text-xs sm:text-sm mt-1">{errors.role}</p>}
+                </div>
+
+                {/* Department Selection */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2 font-rajdhani uppercase tracking-wide">
+                    Department *
+                  </label>
+                  <div className="relative">
+                    <Building className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 sm:w-5 sm:h-5 text-gray-400" />
+                    <select
+                      value={formData.department}
+                      onChange={(e) => handleInputChange('department', e.target.value)}
+                      className="w-full bg-gray-800/50 border border-gray-600/50 rounded-lg pl-10 sm:pl-12 pr-4 py-2 sm:py-3 text-white focus:outline-none transition-all duration-300 appearance-none text-sm sm:text-base"
+                      required
+                      style={{
+                        focusBorderColor: 'var(--form-primary)',
+                        borderColor: formData.department ? 'var(--form-primary)' : undefined
+                      }}
+                      onFocus={(e) => e.target.style.borderColor = 'var(--form-primary)'}
+                      onBlur={(e) => e.target.style.borderColor = formData.department ? 'var(--form-primary)' : '#6b7280'}
+                    >
+                      <option value="">Select Department</option>
+                      {departments.map((dept) => (
+                        <option key={dept} value={dept} className="bg-gray-800">
+                          {dept}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  {errors.department && <p className="text-red-400 text-xs sm:text-sm mt-1">{errors.department}</p>}
+                </div>
+              </>
+            )}
+
             {/* Year Selection (Students Only) */}
             {formData.role === 'student' && (
               <div>
@@ -412,6 +445,24 @@ const Login: React.FC = () => {
             {errors.submit && (
               <p className="text-red-400 text-xs sm:text-sm text-center">{errors.submit}</p>
             )}
+
+            {restriction && (
+              <div className="p-3 sm:p-4 bg-red-900/30 border border-red-700/50 rounded-lg text-xs sm:text-sm text-red-200 space-y-1">
+                <p className="flex items-center gap-2 font-medium text-red-300">
+                  <Ban className="w-4 h-4" />
+                  {restriction.status === 'banned' ? 'This account has been banned' : 'This account is suspended'}
+                </p>
+                <p>
+                  {restriction.expiresAt
+                    ? `You can sign in again after ${new Date(restriction.expiresAt).toLocaleString()}.`
+                    : 'This restriction does not expire.'}
+                </p>
+                {restriction.reason && <p>Reason: {restriction.reason}</p>}
+                <p className="text-red-300/80">
+                  If you think this is a mistake, please contact support.
+                </p>
+              </div>
+            )}
           </form>
 
           {/* Footer */}
@@ -1,10 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { Mail, User, GraduationCap, Building, ArrowRight, Shield, ArrowLeft } from 'lucide-react';
+import { Mail, Lock, User, GraduationCap, Building, ArrowRight, Shield, ArrowLeft } from 'lucide-react';
 import { useTheme } from '../contexts/ThemeContext';
 import GlitchButton from '../components/GlitchButton';
 import AnimatedBackground from '../components/AnimatedBackground';
-import { registerUser, checkUserExists } from '../lib/database';
+import { registerUser } from '../lib/database';
 
 const Register: React.FC = () => {
   const navigate = useNavigate();
@@ -13,9 +13,12 @@ const Register: React.FC = () => {
   
   const [formData, setFormData] = useState({
     email: '',
+    password: '',
+    confirmPassword: '',
     role: searchParams.get('role') || '',
     department: '',
-    year: ''
+    year: '',
+    anonymousIdStyle: 'tag'
   });
   
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -89,6 +92,14 @@ const Register: React.FC = () => {
       newErrors.email = emailError;
     }
 
+    if (formData.password.length < 8) {
+      newErrors.password = 'Password must be at least 8 characters';
+    }
+
+    if (formData.confirmPassword !== formData.password) {
+      newErrors.confirmPassword = 'Passwords do not match';
+    }
+
     if (!formData.role) {
       newErrors.role = 'Please select your role';
     }
@@ -105,12 +116,6 @@ const Register: React.FC = () => {
     return Object.keys(newErrors).length === 0;
   };
 
-  const generateAnonymousId = (role: string) => {
-    const prefix = role === 'student' ? 'Student' : 'Faculty';
-    const randomNum = Math.floor(Math.random() * 999) + 100;
-    return `${prefix}#${randomNum}`;
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -119,27 +124,14 @@ const Register: React.FC = () => {
     setIsLoading(true);
 
     try {
-      // Check if user already exists
-      const { exists, error: checkError } = await checkUserExists(formData.email);
-      
-      if (checkError) {
-        setErrors({ submit: 'Error checking user existence. Please try again.' });
-        setIsLoading(false);
-        return;
-      }
-
-      if (exists) {
-        setErrors({ email: 'An account with this email already exists. Please login instead.' });
-        setIsLoading(false);
-        return;
-      }
-
       // Register the user
       const { data: newUser, error: registerError } = await registerUser({
         email: formData.email,
+        password: formData.password,
         role: formData.role as 'student' | 'faculty',
         department: formData.department,
         year: formData.year,
+        anonymousIdStyle: formData.anonymousIdStyle,
         theme: formData.role === 'student' ? 'blue_neon' : 'red_alert'
       });
 
@@ -150,7 +142,9 @@ const Register: React.FC = () => {
       }
 
       // Success - redirect to login
-      alert('Account created successfully! You can now login.');
+      alert(newUser?.needsConfirmation
+        ? 'Account created! Check your email to confirm your address, then login.'
+        : 'Account created successfully! You can now login.');
       navigate(`/login?role=${formData.role}`);
 
     } catch (error) {
@@ -288,6 +282,57 @@ const Register: React.FC = () => {
               </p>
             </div>
 
+            {/* Password Fields */}
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2 font-rajdhani uppercase tracking-wide">
+                  Password *
+                </label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 sm:w-5 sm:h-5 text-gray-400" />
+                  <input
+                    type="password"
+                    value={formData.password}
+                    onChange={(e) => handleInputChange('password', e.target.value)}
+                    className="w-full bg-gray-800/50 border border-gray-600/50 rounded-lg pl-10 sm:pl-12 pr-4 py-2 sm:py-3 text-white placeholder-gray-500 focus:outline-none transition-all duration-300 text-sm sm:text-base"
+                    placeholder="At least 8 characters"
+                    autoComplete="new-password"
+                    required
+                    style={{
+                      borderColor: formData.password ? (errors.password ? '#ef4444' : 'var(--form-primary)') : undefined
+                    }}
+                    onFocus={(e) => e.target.style.borderColor = 'var(--form-primary)'}
+                    onBlur={(e) => e.target.style.borderColor = formData.password ? (errors.password ? '#ef4444' : 'var(--form-primary)') : '#6b7280'}
+                  />
+                </div>
+                {errors.password && <p className="text-red-400 text-xs sm:text-sm mt-1">{errors.password}</p>}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2 font-rajdhani uppercase tracking-wide">
+                  Confirm Password *
+                </label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 sm:w-5 sm:h-5 text-gray-400" />
+                  <input
+                    type="password"
+                    value={formData.confirmPassword}
+                    onChange={(e) => handleInputChange('confirmPassword', e.target.value)}
+                    className="w-full bg-gray-800/50 border border-gray-600/50 rounded-lg pl-10 sm:pl-12 pr-4 py-2 sm:py-3 text-white placeholder-gray-500 focus:outline-none transition-all duration-300 text-sm sm:text-base"
+                    placeholder="Re-enter your password"
+                    autoComplete="new-password"
+                    required
+                    style={{
+                      borderColor: formData.confirmPassword ? (errors.confirmPassword ? '#ef4444' : 'var(--form-primary)') : undefined
+                    }}
+                    onFocus={(e) => e.target.style.borderColor = 'var(--form-primary)'}
+                    onBlur={(e) => e.target.style.borderColor = formData.confirmPassword ? (errors.confirmPassword ? '#ef4444' : 'var(--form-primary)') : '#6b7280'}
+                  />
+                </div>
+                {errors.confirmPassword && <p className="text-red-400 text-xs sm:text-sm mt-1">{errors.confirmPassword}</p>}
+              </div>
+            </div>
+
             {/* Role Selection */}
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-3 font-rajdhani uppercase tracking-wide">
@@ -383,6 +428,40 @@ const Register: React.FC = () => {
               </div>
             )}
 
+            {/* Anonymous ID Style */}
+            {formData.role && (
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2 font-rajdhani uppercase tracking-wide">
+                  Anonymous ID Style
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {[
+                    { style: 'tag', example: formData.role === 'student' ? 'Student#K7Q2XM' : 'Faculty#K7Q2XM' },
+                    { style: 'handle', example: 'quiet-otter-4821' }
+                  ].map(({ style, example }) => (
+                    <button
+                      key={style}
+                      type="button"
+                      onClick={() => handleInputChange('anonymousIdStyle', style)}
+                      className={`p-2 sm:p-3 rounded-lg border-2 transition-all duration-300 text-xs sm:text-sm font-medium font-mono ${
+                        formData.anonymousIdStyle === style
+                          ? 'text-white shadow-lg'
+                          : 'border-gray-600 hover:border-gray-500 text-gray-400 hover:text-gray-300'
+                      }`}
+                      style={{
+                        borderColor: formData.anonymousIdStyle === style ? 'var(--form-primary)' : undefined,
+                        background: formData.anonymousIdStyle === style ? 'var(--form-glow)' : undefined,
+                        boxShadow: formData.anonymousIdStyle === style ? '0 0 15px var(--form-glow)' : undefined
+                      }}
+                    >
+                      {example}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-gray-500 text-xs mt-1">Your ID is chosen at random in this format</p>
+              </div>
+            )}
+
             {/* Submit Button */}
             <GlitchButton
               type="submit"
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { MessageSquare, Plus, LogOut, Settings, Search, Filter, Archive, Star, Menu, X } from 'lucide-react';
 import { useUser } from '../contexts/UserContext';
@@ -7,7 +7,18 @@ import ChatBox from '../components/ChatBox';
 import Sidebar from '../components/Sidebar';
 import ThemeSelector from '../components/ThemeSelector';
 import AnimatedBackground from '../components/AnimatedBackground';
-import { startNewChat, getUserChats, getAvailableFaculty } from '../lib/database';
+import UnreadBadge from '../components/UnreadBadge';
+import NewChatDialog, { Course, NewChatDraft } from '../components/NewChatDialog';
+import { startNewChat, getUserChats, getCourses, subscribeToUserMessages, markMessagesAsDelivered, setPerChatAliases, PII_DETECTED_ERROR } from '../lib/database';
+
+interface InboxMessage {
+  chatId: string;
+  from: 'student' | 'faculty';
+  text: string;
+  timestamp: string;
+}
+
+const BASE_TITLE = 'AnonBridge - Secure Anonymous Communication';
 
 interface ChatThread {
   id: string;
@@ -15,6 +26,9 @@ interface ChatThread {
   lastMessage: string;
   timestamp: Date;
   facultyId: string;
+  /** The student's pseudonym in this chat, if it has one */
+  studentAlias?: string | null;
+  courseId?: string | null;
   unreadCount: number;
   isArchived: boolean;
   isPinned: boolean;
@@ -29,7 +43,7 @@ interface ChatThread {
 }
 
 const StudentDashboard: React.FC = () => {
-  const { user, setUser } = useUser();
+  const { user, setUser, logout } = useUser();
   const { currentTheme, themes, currentBackground } = useTheme();
   const theme = themes.find(t => t.id === currentTheme) || themes[0];
   const navigate = useNavigate();
@@ -42,19 +56,20 @@ const StudentDashboard: React.FC = () => {
   const [isCreatingThread, setIsCreatingThread] = useState(false);
   const [isChatSidebarCollapsed, setIsChatSidebarCollapsed] = useState(false);
   const [isMobileChatListOpen, setIsMobileChatListOpen] = useState(true);
-  const [availableFaculty, setAvailableFaculty] = useState<any[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [isNewChatOpen, setIsNewChatOpen] = useState(false);
 
-  // Load available faculty on mount
+  // Courses the student can route a question to, from their department
   useEffect(() => {
-    const loadAvailableFaculty = async () => {
+    const loadCourses = async () => {
       if (user) {
-        const { data: faculty, error } = await getAvailableFaculty(user.department);
-        if (faculty && !error) {
-          setAvailableFaculty(faculty);
+        const { data, error } = await getCourses(user.department);
+        if (data && !error) {
+          setCourses(data);
         }
       }
     };
-    loadAvailableFaculty();
+    loadCourses();
   }, [user]);
 
   // Load chat threads from Supabase
@@ -73,6 +88,8 @@ const StudentDashboard: React.FC = () => {
             lastMessage: chat.lastMessage || 'No messages yet',
             timestamp: new Date(chat.created_at),
             facultyId: chat.faculty?.anonymous_id || 'Faculty#Unknown',
+            studentAlias: chat.student_alias,
+            courseId: chat.course_id,
             unreadCount: chat.unreadCount || 0,
             isArchived: chat.status === 'archived',
             isPinned: false, // You can add this field to your database if needed
@@ -120,81 +137,138 @@ const StudentDashboard: React.FC = () => {
     loadChatThreads();
   }, [user]);
 
-  const handleLogout = () => {
-    setUser(null);
+  const selectedThreadRef = useRef(selectedThread);
+
+  useEffect(() => {
+    selectedThreadRef.current = selectedThread;
+  }, [selectedThread]);
+
+  // Keep unread counts live for threads that aren't open
+  useEffect(() => {
+    if (!user) return;
+
+    return subscribeToUserMessages(user.id, (message: InboxMessage) => {
+      // The open thread's ChatBox handles its own messages and receipts
+      if (message.from === 'student' || message.chatId === selectedThreadRef.current) return;
+
+      markMessagesAsDelivered(message.chatId);
+      setChatThreads(prev => prev.map(thread => 
+        thread.id === message.chatId
+          ? { 
+              ...thread, 
+              lastMessage: message.text, 
+              timestamp: new Date(message.timestamp),
+              unreadCount: thread.unreadCount + 1 
+            }
+          : thread
+      ));
+    });
+  }, [user]);
+
+  const totalUnreadCount = chatThreads.reduce((sum, thread) => sum + thread.unreadCount, 0);
+
+  // Global unread badge in the browser tab
+  useEffect(() => {
+    document.title = totalUnreadCount > 0 ? `(${totalUnreadCount}) ${BASE_TITLE}` : BASE_TITLE;
+    return () => {
+      document.title = BASE_TITLE;
+    };
+  }, [totalUnreadCount]);
+
+  const handleLogout = async () => {
+    await logout();
     navigate('/');
   };
 
-  const startNewChatThread = async () => {
+  const handleTogglePerChatAliases = async () => {
     if (!user) return;
+
+    const { error } = await setPerChatAliases(!user.perChatAliases);
+    if (error) {
+      alert(error.message || 'Failed to update your privacy settings');
+      return;
+    }
+
+    setUser({ ...user, perChatAliases: !user.perChatAliases });
+  };
+
+  const openThread = (threadId: string) => {
+    setSelectedThread(threadId);
+    // On mobile, show chat when thread is selected
+    if (window.innerWidth < 1024) {
+      setIsMobileChatListOpen(false);
+    }
+  };
+
+  // Resolves to an error message for the dialog, or null once the chat exists
+  const handleCreateChat = async (draft: NewChatDraft): Promise<string | null> => {
+    if (!user) return null;
     
     setIsCreatingThread(true);
     
     try {
-      // Get a random available faculty member
-      const randomFaculty = availableFaculty.length > 0 
-        ? availableFaculty[Math.floor(Math.random() * availableFaculty.length)]
-        : null;
-
-      if (!randomFaculty) {
-        console.error('No available faculty found');
-        setIsCreatingThread(false);
-        return;
-      }
-
-      const subjects = [
-        'General Question', 'Assignment Help', 'Exam Preparation', 
-        'Project Guidance', 'Career Advice', 'Course Content',
-        'Technical Doubt', 'Study Material', 'Lab Work', 'Research'
-      ];
-      
-      const randomSubject = subjects[Math.floor(Math.random() * subjects.length)];
-      
-      // Create new chat in Supabase
+      // Create new chat in Supabase with the faculty member the dialog
+      // previewed, or whoever routing picks now
       const { data: newChat, error } = await startNewChat({
         studentId: user.id,
-        facultyId: randomFaculty.id,
-        subject: randomSubject,
+        facultyId: draft.facultyId,
+        subject: draft.subject,
         department: user.department,
+        courseId: draft.courseId,
+        category: draft.category,
+        urgency: draft.urgency,
         firstMessage: {
           from: 'student',
-          text: `Hello! I have a question about ${randomSubject.toLowerCase()}. Could you please help me?`,
+          text: draft.message,
+          piiAcknowledged: draft.piiAcknowledged,
           timestamp: new Date().toISOString()
         }
       });
 
-      if (newChat && !error) {
-        const newThread: ChatThread = {
-          id: newChat.id,
-          title: randomSubject,
-          lastMessage: 'Chat started...',
-          timestamp: new Date(),
-          facultyId: newChat.faculty?.anonymous_id || randomFaculty.anonymous_id,
-          unreadCount: 0,
-          isArchived: false,
-          isPinned: false,
-          department: user.department,
-          subject: randomSubject,
-          status: 'waiting',
-          faculty: newChat.faculty
-        };
-
-        setChatThreads(prev => [newThread, ...prev]);
-        setSelectedThread(newThread.id);
-        // On mobile, show chat when thread is selected
-        if (window.innerWidth < 1024) {
-          setIsMobileChatListOpen(false);
-        }
-      } else {
+      // The database found a name in the opening message; it doesn't say which, so just ask
+      if (error?.code === PII_DETECTED_ERROR && !draft.piiAcknowledged && window.confirm(`${error.message}. Send it anyway?`)) {
+        return handleCreateChat({ ...draft, piiAcknowledged: true });
+      }
+
+      if (!newChat || error) {
         console.error('Error creating new chat:', error);
+        return error?.message || 'Could not start a new chat. Please try again.';
       }
+
+      const newThread: ChatThread = {
+        id: newChat.id,
+        title: draft.subject,
+        lastMessage: newChat.last_message_text || draft.message,
+        timestamp: new Date(),
+        facultyId: newChat.faculty?.anonymous_id || newChat.routing?.anonymous_id || 'Faculty#Unknown',
+        studentAlias: newChat.student_alias,
+        courseId: draft.courseId,
+        unreadCount: 0,
+        isArchived: false,
+        isPinned: false,
+        department: user.department,
+        subject: draft.subject,
+        status: 'waiting',
+        faculty: newChat.faculty
+      };
+
+      setChatThreads(prev => [newThread, ...prev]);
+      setIsNewChatOpen(false);
+      openThread(newThread.id);
+      return null;
     } catch (error) {
       console.error('Error starting new chat:', error);
+      return 'Could not start a new chat. Please try again.';
     } finally {
       setIsCreatingThread(false);
     }
   };
 
+  const handleOpenSimilarThread = (threadId: string) => {
+    setIsNewChatOpen(false);
+    openThread(threadId);
+  };
+
   const togglePinThread = (threadId: string) => {
     setChatThreads(prev => prev.map(thread => 
       thread.id === threadId 
@@ -236,8 +310,8 @@ const StudentDashboard: React.FC = () => {
     }
   };
 
+  // ProtectedRoute handles redirects; this only narrows the type
   if (!user) {
-    navigate('/login');
     return null;
   }
 
@@ -265,7 +339,6 @@ const StudentDashboard: React.FC = () => {
     return matchesSearch && matchesFilter && !thread.isArchived;
   });
 
-  const totalUnreadCount = chatThreads.reduce((sum, thread) => sum + thread.unreadCount, 0);
   const pinnedThreads = chatThreads.filter(thread => thread.isPinned && !thread.isArchived);
 
   // Check if background should show overlay
@@ -299,9 +372,10 @@ const StudentDashboard: React.FC = () => {
             <div className="flex items-center gap-3">
               <button
                 onClick={() => setIsMobileChatListOpen(!isMobileChatListOpen)}
-                className="p-2 rounded-lg hover:bg-gray-800/50 transition-colors"
+                className="relative p-2 rounded-lg hover:bg-gray-800/50 transition-colors"
               >
                 <Menu className="w-5 h-5 text-white" />
+                <UnreadBadge count={totalUnreadCount} color={theme.primary} className="absolute -top-1 -right-1" />
               </button>
               <div>
                 <h1 className="font-orbitron text-lg font-bold" style={{ color: theme.primary }}>
@@ -394,7 +468,7 @@ const StudentDashboard: React.FC = () => {
               {/* New Chat Button */}
               {!isChatSidebarCollapsed && (
                 <button
-                  onClick={startNewChatThread}
+                  onClick={() => setIsNewChatOpen(true)}
                   disabled={isCreatingThread}
                   className="w-full font-rajdhani font-semibold py-3 px-4 rounded-lg transition-all duration-300 flex items-center justify-center gap-2 hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed text-sm sm:text-base"
                   style={{
@@ -411,11 +485,27 @@ const StudentDashboard: React.FC = () => {
                 </button>
               )}
 
+              {/* Per-chat pseudonyms */}
+              {!isChatSidebarCollapsed && (
+                <label
+                  className="mt-3 flex items-center gap-2 text-xs text-gray-300 cursor-pointer"
+                  title="Faculty see a different name for you in each new chat, so your chats can't be linked"
+                >
+                  <input
+                    type="checkbox"
+                    checked={!!user.perChatAliases}
+                    onChange={handleTogglePerChatAliases}
+                    style={{ accentColor: theme.primary }}
+                  />
+                  New pseudonym for each chat
+                </label>
+              )}
+
               {/* Collapsed state - show only new chat icon */}
               {isChatSidebarCollapsed && (
                 <div className="space-y-4">
                   <button
-                    onClick={startNewChatThread}
+                    onClick={() => setIsNewChatOpen(true)}
                     disabled={isCreatingThread}
                     className="w-full p-2 sm:p-3 rounded-lg transition-all duration-300 flex items-center justify-center hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
                     style={{
@@ -623,7 +713,10 @@ const StudentDashboard: React.FC = () => {
                       <p className="text-white text-xs truncate mb-2">{thread.lastMessage}</p>
                       
                       <div className="flex items-center justify-between text-xs">
-                        <span style={{ color: theme.accent }}>{thread.facultyId}</span>
+                        <span style={{ color: theme.accent }}>
+                          {thread.facultyId}
+                          {thread.studentAlias && <span className="text-gray-400"> • you: {thread.studentAlias}</span>}
+                        </span>
                         <span className="text-white">{formatTime(thread.timestamp)}</span>
                       </div>
                     </div>
@@ -660,6 +753,10 @@ const StudentDashboard: React.FC = () => {
               <ChatBox 
                 role="student" 
                 threadId={selectedThread} 
+                participants={{
+                  student: chatThreads.find(thread => thread.id === selectedThread)?.studentAlias || user.anonymousId,
+                  faculty: chatThreads.find(thread => thread.id === selectedThread)?.facultyId || 'Faculty#Unknown'
+                }}
                 onClose={closeChat}
                 onNewMessage={(message) => {
                   setChatThreads(prev => prev.map(thread => 
@@ -717,6 +814,19 @@ const StudentDashboard: React.FC = () => {
         isOpen={isThemeSelectorOpen}
         onClose={() => setIsThemeSelectorOpen(false)}
       />
+
+      {/* New Question Dialog */}
+      {isNewChatOpen && (
+        <NewChatDialog
+          department={user.department}
+          courses={courses}
+          threads={chatThreads}
+          accentColor={theme.primary}
+          onOpenThread={handleOpenSimilarThread}
+          onSubmit={handleCreateChat}
+          onClose={() => setIsNewChatOpen(false)}
+        />
+      )}
     </div>
   );
 };
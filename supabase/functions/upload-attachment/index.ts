@@ -0,0 +1,238 @@
+/*
+ * Upload Attachment
+ *
+ * Stores a chat attachment for one of the chat's participants. Browsers strip
+ * metadata before uploading (see `attachmentOperations.js`); this function
+ * checks the file again and refuses it if it still carries any, so a
+ * modified client can't put a geotagged photo or a signed PDF in a chat.
+ * Participants can't write to the `chat-attachments` bucket directly.
+ *
+ * Request: multipart form with `chatId` and `file`
+ * Response: `{ path }` of the stored object, or `{ error }`
+ */
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const ATTACHMENT_BUCKET = 'chat-attachments';
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf',
+  'text/plain': 'txt'
+};
+
+// Same keys and tags the browser blanks
+const PDF_INFO_KEYS = 'Author|Creator|Producer|Title|Subject|Keywords';
+const PDF_XMP_TAGS = 'dc:creator|dc:title|pdf:Author|pdf:Producer|pdf:Keywords|xmp:CreatorTool';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+function respond(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Helper function to find EXIF, XMP, IPTC and comment segments in a JPEG
+ */
+function jpegMetadata(bytes: Uint8Array) {
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+
+    // Start of scan: only image data follows
+    if (marker === 0xda) {
+      break;
+    }
+
+    // APP1 (EXIF, XMP), APP13 (IPTC), COM
+    if (marker === 0xe1 || marker === 0xed || marker === 0xfe) {
+      return 'EXIF, XMP or IPTC data';
+    }
+
+    offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+  }
+
+  return null;
+}
+
+/**
+ * Helper function to find text and EXIF chunks in a PNG
+ */
+function pngMetadata(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const chunk = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+
+    if (['tEXt', 'zTXt', 'iTXt', 'eXIf'].includes(chunk)) {
+      return `a ${chunk} chunk`;
+    }
+
+    if (chunk === 'IEND') {
+      break;
+    }
+
+    offset += 12 + length;
+  }
+
+  return null;
+}
+
+/**
+ * Helper function to find EXIF and XMP chunks in a WebP
+ */
+function webpMetadata(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const chunk = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const length = view.getUint32(offset + 4, true);
+
+    if (chunk === 'EXIF' || chunk === 'XMP ') {
+      return `an ${chunk.trim()} chunk`;
+    }
+
+    offset += 8 + length + (length % 2);
+  }
+
+  return null;
+}
+
+/**
+ * Helper function to find author metadata the browser should have blanked
+ * in a PDF: info values, XMP tags, and the objects that indirect values,
+ * `/Info` and `/Metadata` point at. Objects that can't be found are inside
+ * compressed object streams and can't be checked, so they count as metadata.
+ */
+function pdfMetadata(bytes: Uint8Array) {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+
+  const hasValue = (pattern: RegExp, source = text) =>
+    [...source.matchAll(pattern)].some((match) => /\S/.test(match[1]));
+
+  if (
+    hasValue(new RegExp(`/(?:${PDF_INFO_KEYS})\\s*\\(((?:\\\\.|[^\\\\)])*)\\)`, 'g'))
+    || hasValue(new RegExp(`/(?:${PDF_INFO_KEYS})\\s*<([0-9A-Fa-f\\s]*)>`, 'g'))
+    || hasValue(new RegExp(`<(?:${PDF_XMP_TAGS})>([\\s\\S]*?)</(?:${PDF_XMP_TAGS})>`, 'g'))
+    || hasValue(new RegExp(`(?:${PDF_XMP_TAGS})="([^"]*)"`, 'g'))
+  ) {
+    return 'document info or XMP values';
+  }
+
+  const references = new RegExp(`/(${PDF_INFO_KEYS}|Info|Metadata)\\s+(\\d+)\\s+(\\d+)\\s+R\\b`, 'g');
+
+  for (const [, key, number, generation] of text.matchAll(references)) {
+    const objects = [...text.matchAll(
+      new RegExp(`(?<![0-9])${number}\\s+${generation}\\s+obj\\b([\\s\\S]*?)\\bendobj`, 'g')
+    )];
+
+    if (objects.length === 0) {
+      return `a compressed /${key} object`;
+    }
+
+    for (const [, body] of objects) {
+      const filled = key === 'Metadata'
+        ? hasValue(/stream\r?\n([\s\S]*?)\s*endstream/g, body)
+        : hasValue(/\(((?:\\.|[^\\)])*)\)/g, body) || hasValue(/<([0-9A-Fa-f\s]*)>/g, body);
+
+      if (filled) {
+        return `a /${key} value`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * What metadata is left in a file, or null when it's clean
+ */
+function findMetadata(bytes: Uint8Array, mimeType: string) {
+  switch (mimeType) {
+    case 'image/jpeg':
+      return jpegMetadata(bytes);
+    case 'image/png':
+      return pngMetadata(bytes);
+    case 'image/webp':
+      return webpMetadata(bytes);
+    case 'application/pdf':
+      return pdfMetadata(bytes);
+    default:
+      return null;
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const form = await req.formData();
+    const chatId = form.get('chatId');
+    const file = form.get('file');
+
+    if (typeof chatId !== 'string' || !(file instanceof File)) {
+      return respond({ error: 'A chat and a file are required' }, 400);
+    }
+
+    const extension = FILE_EXTENSIONS[file.type];
+    if (!extension) {
+      return respond({ error: 'Only JPEG, PNG and WebP images, PDFs and plain text files can be attached' }, 400);
+    }
+
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      return respond({ error: `Attachments must be ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB or smaller` }, 400);
+    }
+
+    // The caller's own session decides whether they take part in the chat
+    const caller = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } }
+    });
+
+    const { error: participantError } = await caller.rpc('chat_participant_role', { p_chat_id: chatId });
+    if (participantError) {
+      return respond({ error: 'You can only attach files to chats you take part in' }, 403);
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const metadata = findMetadata(bytes, file.type);
+    if (metadata) {
+      return respond({ error: `This file still carries metadata (${metadata}) and can't be attached` }, 422);
+    }
+
+    const storage = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const path = `${chatId}/${crypto.randomUUID()}.${extension}`;
+
+    const { error: uploadError } = await storage.storage
+      .from(ATTACHMENT_BUCKET)
+      .upload(path, bytes, { contentType: file.type, upsert: false });
+
+    if (uploadError) {
+      console.error('Error storing attachment:', uploadError);
+      return respond({ error: 'The attachment could not be stored' }, 500);
+    }
+
+    return respond({ path });
+
+  } catch (err) {
+    console.error('Unexpected error in upload-attachment:', err);
+    return respond({ error: 'An unexpected error occurred while uploading attachment' }, 500);
+  }
+});
@@ -0,0 +1,71 @@
+/*
+  # Move authentication onto Supabase Auth
+
+  1. Schema Changes
+    - Drop the unused `password` column from `users`; credentials now live in
+      `auth.users.encrypted_password` (salted bcrypt, managed by Supabase Auth)
+    - Link `users.id` to `auth.users.id` so `auth.uid()` identifies the profile row
+
+  2. Functions & Triggers
+    - `handle_new_auth_user()` creates the `users` profile row from the sign-up
+      metadata whenever a new auth user is created
+    - Only 'student' and 'faculty' roles can be requested at sign-up
+
+  3. Security
+    - Remove the anon INSERT/SELECT policies on `users`; registration goes through
+      Supabase Auth and the email lookup no longer reveals which accounts exist
+*/
+
+-- Drop the legacy password column (never written by the client)
+ALTER TABLE users DROP COLUMN IF EXISTS password;
+
+-- Link profile rows to auth users
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'users' AND constraint_name = 'users_id_auth_fkey'
+  ) THEN
+    ALTER TABLE users
+    ADD CONSTRAINT users_id_auth_fkey
+    FOREIGN KEY (id) REFERENCES auth.users(id) ON DELETE CASCADE
+    NOT VALID;
+  END IF;
+END $$;
+
+-- Create profile row for each new auth user
+CREATE OR REPLACE FUNCTION handle_new_auth_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  requested_role text := NEW.raw_user_meta_data->>'role';
+BEGIN
+  IF requested_role NOT IN ('student', 'faculty') THEN
+    RAISE EXCEPTION 'Invalid role requested at sign-up';
+  END IF;
+
+  INSERT INTO public.users (
+    id, email, role, department, year, anonymous_id, theme, contact_number
+  ) VALUES (
+    NEW.id,
+    lower(NEW.email),
+    requested_role,
+    NEW.raw_user_meta_data->>'department',
+    CASE WHEN requested_role = 'student' THEN NEW.raw_user_meta_data->>'year' END,
+    NEW.raw_user_meta_data->>'anonymous_id',
+    COALESCE(NEW.raw_user_meta_data->>'theme', 'blue_neon'),
+    NEW.raw_user_meta_data->>'contact_number'
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_auth_user();
+
+-- Registration and lookups now require an authenticated session
+DROP POLICY IF EXISTS "Allow anonymous user registration" ON users;
+DROP POLICY IF EXISTS "Allow anonymous users to check existing emails" ON users;
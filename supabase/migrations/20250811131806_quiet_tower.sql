@@ -0,0 +1,114 @@
+/*
+  # Admin role and admin-only access policies
+
+  1. Schema Changes
+    - Allow 'admin' in `users.role`
+    - Admin accounts are promoted by an operator, never self-registered:
+        UPDATE users SET role = 'admin' WHERE email = 'someone@manipal.edu';
+
+  2. Functions & Triggers
+    - `is_admin()` checks the caller's role without tripping RLS recursion
+    - `prevent_role_change()` stops users from editing their own role
+
+  3. Security
+    - Replace the "any authenticated user" policies on `users` and `chats`
+    - Enable RLS on `reports`; only admins can read all reports or resolve them
+*/
+
+-- Allow the admin role
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users ADD CONSTRAINT users_role_check
+  CHECK (role IN ('student', 'faculty', 'admin'));
+
+-- Role check used by policies; SECURITY DEFINER so it can read users under RLS
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Only admins (or the service role) may change a user's role
+CREATE OR REPLACE FUNCTION prevent_role_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role
+     AND auth.uid() IS NOT NULL
+     AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can change user roles';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_users_role_change ON users;
+CREATE TRIGGER prevent_users_role_change
+  BEFORE UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_role_change();
+
+-- Users: own row, chat counterparts, the faculty directory, and admins
+DROP POLICY IF EXISTS "Users can read user data for chats" ON users;
+
+CREATE POLICY "Users can read chat counterparts"
+ON users FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM chats
+    WHERE (chats.student_id = auth.uid() AND chats.faculty_id = users.id)
+       OR (chats.faculty_id = auth.uid() AND chats.student_id = users.id)
+  )
+);
+
+CREATE POLICY "Users can read faculty directory"
+ON users FOR SELECT
+TO authenticated
+USING (role = 'faculty');
+
+CREATE POLICY "Admins can read all users"
+ON users FOR SELECT
+TO authenticated
+USING (is_admin());
+
+-- Chats: participants only, plus admins
+DROP POLICY IF EXISTS "Allow authenticated users to view chats" ON chats;
+DROP POLICY IF EXISTS "Allow authenticated users to update chats" ON chats;
+DROP POLICY IF EXISTS "Allow authenticated users to create chats" ON chats;
+
+CREATE POLICY "Admins can read all chats"
+ON chats FOR SELECT
+TO authenticated
+USING (is_admin());
+
+CREATE POLICY "Admins can update all chats"
+ON chats FOR UPDATE
+TO authenticated
+USING (is_admin());
+
+-- Reports: reporters see their own, admins see and resolve all
+ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can create reports" ON reports;
+CREATE POLICY "Users can create reports"
+ON reports FOR INSERT
+TO authenticated
+WITH CHECK (reported_by = auth.uid());
+
+DROP POLICY IF EXISTS "Users can read own reports" ON reports;
+CREATE POLICY "Users can read own reports"
+ON reports FOR SELECT
+TO authenticated
+USING (reported_by = auth.uid());
+
+DROP POLICY IF EXISTS "Admins can read all reports" ON reports;
+CREATE POLICY "Admins can read all reports"
+ON reports FOR SELECT
+TO authenticated
+USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can update reports" ON reports;
+CREATE POLICY "Admins can update reports"
+ON reports FOR UPDATE
+TO authenticated
+USING (is_admin());
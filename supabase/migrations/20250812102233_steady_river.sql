@@ -0,0 +1,134 @@
+/*
+  # Move chat messages into their own table
+
+  1. New Tables
+    - `messages` - one row per message, replacing the `chats.messages` jsonb[] array
+      - `legacy_id` keeps the old `msg_...` ids so existing reports still resolve
+
+  2. Schema Changes
+    - Add `last_message_text`, `last_message_at` and `message_count` to `chats`,
+      maintained by trigger so chat lists don't need to read message history
+    - Copy existing jsonb messages into `messages`, then drop `chats.messages`
+
+  3. Indexes
+    - `(chat_id, created_at)` for paginated history reads
+
+  4. Security
+    - Participants can read their chat's messages and insert as their own role
+    - Admins can read all messages
+*/
+
+CREATE TABLE IF NOT EXISTS messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  chat_id uuid NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  sender_role text NOT NULL CHECK (sender_role IN ('student', 'faculty')),
+  body text NOT NULL,
+  type text NOT NULL DEFAULT 'text' CHECK (type IN ('text', 'file', 'image')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  edited_at timestamptz,
+  deleted_at timestamptz,
+  legacy_id text
+);
+
+CREATE INDEX IF NOT EXISTS idx_messages_chat_id_created_at
+  ON messages USING btree (chat_id, created_at DESC);
+
+-- Chat summary columns
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS last_message_text text;
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS last_message_at timestamptz;
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS message_count integer NOT NULL DEFAULT 0;
+
+-- Keep chat summary in step with inserts
+CREATE OR REPLACE FUNCTION update_chat_on_new_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE chats
+  SET
+    last_message_text = NEW.body,
+    last_message_at = NEW.created_at,
+    message_count = message_count + 1
+  WHERE id = NEW.chat_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS update_chat_on_new_message ON messages;
+CREATE TRIGGER update_chat_on_new_message
+  AFTER INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_chat_on_new_message();
+
+-- Copy existing jsonb messages (trigger disabled; summary is filled below)
+ALTER TABLE messages DISABLE TRIGGER update_chat_on_new_message;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'chats' AND column_name = 'messages'
+  ) THEN
+    INSERT INTO messages (chat_id, sender_role, body, type, created_at, legacy_id)
+    SELECT
+      c.id,
+      m->>'from',
+      COALESCE(m->>'text', ''),
+      COALESCE(m->>'type', 'text'),
+      COALESCE((m->>'timestamp')::timestamptz, c.created_at),
+      m->>'id'
+    FROM chats c, unnest(c.messages) AS m
+    WHERE m->>'from' IN ('student', 'faculty');
+
+    ALTER TABLE chats DROP COLUMN messages;
+  END IF;
+END $$;
+
+ALTER TABLE messages ENABLE TRIGGER update_chat_on_new_message;
+
+UPDATE chats c
+SET
+  message_count = s.message_count,
+  last_message_at = s.last_message_at,
+  last_message_text = s.last_message_text
+FROM (
+  SELECT DISTINCT ON (chat_id)
+    chat_id,
+    count(*) OVER (PARTITION BY chat_id) AS message_count,
+    created_at AS last_message_at,
+    body AS last_message_text
+  FROM messages
+  ORDER BY chat_id, created_at DESC
+) s
+WHERE c.id = s.chat_id;
+
+-- Row level security
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can read chat messages"
+ON messages FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM chats
+    WHERE chats.id = messages.chat_id
+      AND (chats.student_id = auth.uid() OR chats.faculty_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Participants can send as their own role"
+ON messages FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM chats
+    WHERE chats.id = messages.chat_id
+      AND (
+        (chats.student_id = auth.uid() AND messages.sender_role = 'student')
+        OR (chats.faculty_id = auth.uid() AND messages.sender_role = 'faculty')
+      )
+  )
+);
+
+CREATE POLICY "Admins can read all messages"
+ON messages FOR SELECT
+TO authenticated
+USING (is_admin());
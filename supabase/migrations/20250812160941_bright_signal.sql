@@ -0,0 +1,17 @@
+/*
+  # Publish messages over Supabase Realtime
+
+  1. Realtime
+    - Add `messages` to the `supabase_realtime` publication so open chats
+      receive new messages as they are inserted (RLS still applies)
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE messages;
+  END IF;
+END $$;
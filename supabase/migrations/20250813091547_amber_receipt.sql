@@ -0,0 +1,73 @@
+/*
+  # Delivery and read receipts for messages
+
+  1. Schema Changes
+    - Add `delivered_at` and `read_at` to `messages`
+
+  2. Functions
+    - `mark_messages_delivered(p_chat_id)` and `mark_messages_read(p_chat_id)`
+      stamp the other party's messages for the calling participant. They run as
+      SECURITY DEFINER so participants never need a general UPDATE policy on
+      `messages`; each returns the number of messages updated.
+*/
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS delivered_at timestamptz;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS read_at timestamptz;
+
+-- Resolve the caller's role in a chat, or fail if they aren't a participant
+CREATE OR REPLACE FUNCTION chat_participant_role(p_chat_id uuid)
+RETURNS text AS $$
+DECLARE
+  participant_role text;
+BEGIN
+  SELECT CASE
+    WHEN student_id = auth.uid() THEN 'student'
+    WHEN faculty_id = auth.uid() THEN 'faculty'
+  END
+  INTO participant_role
+  FROM chats
+  WHERE id = p_chat_id;
+
+  IF participant_role IS NULL THEN
+    RAISE EXCEPTION 'Not a participant in this chat';
+  END IF;
+
+  RETURN participant_role;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION mark_messages_delivered(p_chat_id uuid)
+RETURNS integer AS $$
+DECLARE
+  reader_role text := chat_participant_role(p_chat_id);
+  updated_count integer;
+BEGIN
+  UPDATE messages
+  SET delivered_at = now()
+  WHERE chat_id = p_chat_id
+    AND sender_role <> reader_role
+    AND delivered_at IS NULL;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION mark_messages_read(p_chat_id uuid)
+RETURNS integer AS $$
+DECLARE
+  reader_role text := chat_participant_role(p_chat_id);
+  updated_count integer;
+BEGIN
+  UPDATE messages
+  SET
+    read_at = now(),
+    delivered_at = COALESCE(delivered_at, now())
+  WHERE chat_id = p_chat_id
+    AND sender_role <> reader_role
+    AND read_at IS NULL;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
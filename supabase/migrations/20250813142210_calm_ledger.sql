@@ -0,0 +1,60 @@
+/*
+  # Per-participant unread tracking
+
+  1. Schema Changes
+    - Add `student_last_read_at` and `faculty_last_read_at` to `chats`
+
+  2. Functions
+    - `mark_messages_read(p_chat_id)` now also moves the reader's last-read marker
+    - `unread_count(chats)` is a computed column for PostgREST
+      (`select=*,unread_count`): the number of the other party's messages
+      newer than the caller's last-read marker
+*/
+
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS student_last_read_at timestamptz;
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS faculty_last_read_at timestamptz;
+
+CREATE OR REPLACE FUNCTION mark_messages_read(p_chat_id uuid)
+RETURNS integer AS $$
+DECLARE
+  reader_role text := chat_participant_role(p_chat_id);
+  updated_count integer;
+BEGIN
+  UPDATE messages
+  SET
+    read_at = now(),
+    delivered_at = COALESCE(delivered_at, now())
+  WHERE chat_id = p_chat_id
+    AND sender_role <> reader_role
+    AND read_at IS NULL;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+  UPDATE chats
+  SET
+    student_last_read_at = CASE WHEN reader_role = 'student' THEN now() ELSE student_last_read_at END,
+    faculty_last_read_at = CASE WHEN reader_role = 'faculty' THEN now() ELSE faculty_last_read_at END
+  WHERE id = p_chat_id;
+
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION unread_count(chat chats)
+RETURNS integer AS $$
+  SELECT count(*)::integer
+  FROM messages m
+  WHERE m.chat_id = chat.id
+    AND m.deleted_at IS NULL
+    AND m.sender_role = CASE
+      WHEN chat.student_id = auth.uid() THEN 'faculty'
+      WHEN chat.faculty_id = auth.uid() THEN 'student'
+    END
+    AND m.created_at > COALESCE(
+      CASE
+        WHEN chat.student_id = auth.uid() THEN chat.student_last_read_at
+        ELSE chat.faculty_last_read_at
+      END,
+      '-infinity'::timestamptz
+    );
+$$ LANGUAGE sql STABLE;
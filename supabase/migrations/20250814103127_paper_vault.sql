@@ -0,0 +1,82 @@
+/*
+  # Chat attachments
+
+  1. Schema Changes
+    - Add `attachment_path`, `attachment_name`, `attachment_size` and
+      `attachment_mime` to `messages`
+    - File and image messages must point at an object inside their own chat's
+      folder (`<chat_id>/<object>`)
+
+  2. Storage
+    - Private `chat-attachments` bucket, 10 MB per file, images (JPEG, PNG,
+      WebP), PDF and plain text only
+
+  3. Security
+    - Chat participants can upload into and read their chat's folder
+    - Admins can read all attachments
+    - Nobody can update or delete attachments through the API
+*/
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachment_path text;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachment_name text;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachment_size integer;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachment_mime text;
+
+-- Older 'file'/'image' rows from the jsonb era have no stored object
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_attachment_check;
+ALTER TABLE messages ADD CONSTRAINT messages_attachment_check
+  CHECK (
+    (type = 'text' AND attachment_path IS NULL)
+    OR (type IN ('file', 'image') AND attachment_path LIKE chat_id::text || '/%')
+  ) NOT VALID;
+
+-- Storage bucket
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'chat-attachments',
+  'chat-attachments',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf', 'text/plain']
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- Participant check on the chat folder of an object path
+CREATE OR REPLACE FUNCTION is_attachment_participant(object_name text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM chats
+    WHERE chats.id::text = (storage.foldername(object_name))[1]
+      AND (chats.student_id = auth.uid() OR chats.faculty_id = auth.uid())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Participants can upload chat attachments" ON storage.objects;
+CREATE POLICY "Participants can upload chat attachments"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'chat-attachments'
+  AND is_attachment_participant(name)
+);
+
+DROP POLICY IF EXISTS "Participants can read chat attachments" ON storage.objects;
+CREATE POLICY "Participants can read chat attachments"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'chat-attachments'
+  AND is_attachment_participant(name)
+);
+
+DROP POLICY IF EXISTS "Admins can read chat attachments" ON storage.objects;
+CREATE POLICY "Admins can read chat attachments"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'chat-attachments'
+  AND is_admin()
+);
@@ -0,0 +1,91 @@
+/*
+  # Message reactions
+
+  1. New Tables
+    - `message_reactions` - one row per (message, participant role, emoji)
+      - Reactions record the reacting role, not the user, like `messages`
+      - `chat_id` is kept on the row so a chat's reactions load and stream
+        with a single filter
+
+  2. Realtime
+    - Add `message_reactions` to the `supabase_realtime` publication
+    - REPLICA IDENTITY FULL so DELETE events carry the removed reaction
+
+  3. Security
+    - Participants can read their chat's reactions and add or remove their own
+    - Admins can read all reactions
+*/
+
+CREATE TABLE IF NOT EXISTS message_reactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  chat_id uuid NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  reactor_role text NOT NULL CHECK (reactor_role IN ('student', 'faculty')),
+  emoji text NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (message_id, reactor_role, emoji)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_reactions_chat_id
+  ON message_reactions USING btree (chat_id);
+
+ALTER TABLE message_reactions REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'message_reactions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE message_reactions;
+  END IF;
+END $$;
+
+-- Row level security
+ALTER TABLE message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can read chat reactions"
+ON message_reactions FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM chats
+    WHERE chats.id = message_reactions.chat_id
+      AND (chats.student_id = auth.uid() OR chats.faculty_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Participants can react as their own role"
+ON message_reactions FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM chats
+    JOIN messages ON messages.chat_id = chats.id
+    WHERE chats.id = message_reactions.chat_id
+      AND messages.id = message_reactions.message_id
+      AND (
+        (chats.student_id = auth.uid() AND message_reactions.reactor_role = 'student')
+        OR (chats.faculty_id = auth.uid() AND message_reactions.reactor_role = 'faculty')
+      )
+  )
+);
+
+CREATE POLICY "Participants can remove their own reactions"
+ON message_reactions FOR DELETE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM chats
+    WHERE chats.id = message_reactions.chat_id
+      AND (
+        (chats.student_id = auth.uid() AND message_reactions.reactor_role = 'student')
+        OR (chats.faculty_id = auth.uid() AND message_reactions.reactor_role = 'faculty')
+      )
+  )
+);
+
+CREATE POLICY "Admins can read all reactions"
+ON message_reactions FOR SELECT
+TO authenticated
+USING (is_admin());
@@ -0,0 +1,151 @@
+/*
+  # Message edits and deletions with revision history
+
+  1. New Tables
+    - `message_revisions` - the content of a message before each edit or
+      deletion, so moderators always have the original
+
+  2. Functions
+    - `edit_message(p_message_id, p_body)` - the sender can edit a text message
+      within 15 minutes of sending it
+    - `delete_message(p_message_id)` - the sender can delete a message at any
+      time; its content and attachment are cleared from `messages` and only
+      kept in `message_revisions`
+    - Both record the previous content first and keep the chat preview
+      (`last_message_text`) in step
+
+  3. Security
+    - Only admins can read `message_revisions`; rows are written by the
+      SECURITY DEFINER functions above
+*/
+
+CREATE TABLE IF NOT EXISTS message_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  chat_id uuid NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  action text NOT NULL CHECK (action IN ('edit', 'delete')),
+  body text NOT NULL,
+  type text NOT NULL,
+  attachment_path text,
+  attachment_name text,
+  attachment_size integer,
+  attachment_mime text,
+  revised_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_revisions_message_id
+  ON message_revisions USING btree (message_id, revised_at);
+
+CREATE INDEX IF NOT EXISTS idx_message_revisions_chat_id
+  ON message_revisions USING btree (chat_id);
+
+-- Lock a message for change and check the caller sent it
+CREATE OR REPLACE FUNCTION lock_own_message(p_message_id uuid)
+RETURNS messages AS $$
+DECLARE
+  target messages;
+BEGIN
+  SELECT * INTO target FROM messages WHERE id = p_message_id FOR UPDATE;
+
+  IF target.id IS NULL OR chat_participant_role(target.chat_id) <> target.sender_role THEN
+    RAISE EXCEPTION 'You can only change your own messages';
+  END IF;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION record_message_revision(target messages, revision_action text)
+RETURNS void AS $$
+  INSERT INTO message_revisions (
+    message_id, chat_id, action, body, type,
+    attachment_path, attachment_name, attachment_size, attachment_mime
+  )
+  VALUES (
+    target.id, target.chat_id, revision_action, target.body, target.type,
+    target.attachment_path, target.attachment_name, target.attachment_size, target.attachment_mime
+  );
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION edit_message(p_message_id uuid, p_body text)
+RETURNS messages AS $$
+DECLARE
+  target messages := lock_own_message(p_message_id);
+BEGIN
+  IF target.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be edited';
+  END IF;
+
+  IF target.type <> 'text' THEN
+    RAISE EXCEPTION 'Only text messages can be edited';
+  END IF;
+
+  IF now() - target.created_at > interval '15 minutes' THEN
+    RAISE EXCEPTION 'Messages can only be edited within 15 minutes of sending';
+  END IF;
+
+  IF btrim(COALESCE(p_body, '')) = '' THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+
+  IF btrim(p_body) = target.body THEN
+    RETURN target;
+  END IF;
+
+  PERFORM record_message_revision(target, 'edit');
+
+  UPDATE messages
+  SET body = btrim(p_body), edited_at = now()
+  WHERE id = p_message_id
+  RETURNING * INTO target;
+
+  UPDATE chats
+  SET last_message_text = target.body
+  WHERE id = target.chat_id AND last_message_at = target.created_at;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION delete_message(p_message_id uuid)
+RETURNS messages AS $$
+DECLARE
+  target messages := lock_own_message(p_message_id);
+BEGIN
+  IF target.deleted_at IS NOT NULL THEN
+    RETURN target;
+  END IF;
+
+  PERFORM record_message_revision(target, 'delete');
+
+  UPDATE messages
+  SET
+    body = '',
+    type = 'text',
+    attachment_path = NULL,
+    attachment_name = NULL,
+    attachment_size = NULL,
+    attachment_mime = NULL,
+    deleted_at = now()
+  WHERE id = p_message_id
+  RETURNING * INTO target;
+
+  UPDATE chats
+  SET last_message_text = 'Message deleted'
+  WHERE id = target.chat_id AND last_message_at = target.created_at;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Internal helpers: only callable from the functions above
+REVOKE EXECUTE ON FUNCTION lock_own_message(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_message_revision(messages, text) FROM PUBLIC, anon, authenticated;
+
+-- Row level security
+ALTER TABLE message_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read message revisions"
+ON message_revisions FOR SELECT
+TO authenticated
+USING (is_admin());
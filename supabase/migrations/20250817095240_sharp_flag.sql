@@ -0,0 +1,84 @@
+/*
+  # Per-message reports with a server-side snapshot
+
+  1. Schema Changes
+    - Add `message_snapshot` (jsonb) to `reports`: the reported message as it
+      was when the report was filed, captured by trigger so it can't be forged
+    - Add `resolution_note` to `reports` for the outcome shown to the reporter
+
+  2. Functions & Triggers
+    - `prepare_report()` runs before each insert: it checks the reporter takes
+      part in the chat, checks the message belongs to that chat, fills the
+      snapshot, and clears any resolution fields sent by the client
+
+  3. Realtime
+    - Add `reports` to the `supabase_realtime` publication so reporters see
+      status changes on their own reports (RLS still applies)
+*/
+
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS message_snapshot jsonb;
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS resolution_note text;
+
+CREATE INDEX IF NOT EXISTS idx_reports_reported_by ON reports USING btree (reported_by);
+
+CREATE OR REPLACE FUNCTION prepare_report()
+RETURNS TRIGGER AS $$
+DECLARE
+  reported messages;
+BEGIN
+  NEW.resolved := false;
+  NEW.resolved_by := NULL;
+  NEW.resolved_at := NULL;
+  NEW.resolution_note := NULL;
+  NEW.message_snapshot := NULL;
+
+  IF NEW.chat_id IS NOT NULL AND auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM chats
+    WHERE id = NEW.chat_id
+      AND (student_id = auth.uid() OR faculty_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'You can only report chats you take part in';
+  END IF;
+
+  -- Messages are matched by id, or by the old `msg_...` id for legacy reports
+  SELECT * INTO reported
+  FROM messages
+  WHERE id::text = NEW.message_id OR legacy_id = NEW.message_id
+  LIMIT 1;
+
+  IF reported.id IS NOT NULL THEN
+    IF reported.chat_id IS DISTINCT FROM NEW.chat_id THEN
+      RAISE EXCEPTION 'Reported message does not belong to this chat';
+    END IF;
+
+    NEW.message_snapshot := jsonb_build_object(
+      'id', reported.id,
+      'sender_role', reported.sender_role,
+      'body', reported.body,
+      'type', reported.type,
+      'attachment_path', reported.attachment_path,
+      'attachment_name', reported.attachment_name,
+      'created_at', reported.created_at,
+      'edited_at', reported.edited_at
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS prepare_report ON reports;
+CREATE TRIGGER prepare_report
+  BEFORE INSERT ON reports
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_report();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'reports'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE reports;
+  END IF;
+END $$;
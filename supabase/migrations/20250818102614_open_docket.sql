@@ -0,0 +1,376 @@
+/*
+  # Moderation queue for reports
+
+  1. Schema Changes
+    - `reports.status` ('open', 'triaged', 'actioned', 'dismissed'); existing
+      resolved reports become 'actioned'. `resolved` stays in step with it
+      so reporters keep seeing resolution updates
+    - `reports.assigned_to` - the moderator handling the report
+    - `users.account_status` ('active', 'muted', 'suspended', 'banned') and
+      `users.status_expires_at`, set by the mute and suspend actions
+    - `chats.status` can now be 'closed'; closed chats accept no new messages
+
+  2. New Tables
+    - `report_notes` - internal moderator notes on a report
+    - `moderation_actions` - log of every moderation step: status changes,
+      assignments, notes, warnings, mutes, suspensions and closed chats
+    - `user_warnings` - warnings shown to the warned user in the chat
+
+  3. Functions
+    - `set_report_status`, `assign_report`, `add_report_note` and
+      `take_moderation_action` (warn, mute, suspend, close_chat); all are
+      admin-only and write to `moderation_actions`
+    - `acknowledge_warning(p_warning_id)` - the warned user dismisses a warning
+
+  4. Security
+    - Reports are no longer updated directly; changes go through the
+      functions above so nothing escapes the log
+    - Only admins can read notes and the action log; users read their own
+      warnings; only admins can change `account_status`
+*/
+
+-- Report workflow
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'open'
+  CHECK (status IN ('open', 'triaged', 'actioned', 'dismissed'));
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS assigned_to uuid REFERENCES users(id) ON DELETE SET NULL;
+
+UPDATE reports SET status = 'actioned' WHERE resolved AND status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_reports_status ON reports USING btree (status, timestamp DESC);
+
+-- Account restrictions
+ALTER TABLE users ADD COLUMN IF NOT EXISTS account_status text NOT NULL DEFAULT 'active'
+  CHECK (account_status IN ('active', 'muted', 'suspended', 'banned'));
+ALTER TABLE users ADD COLUMN IF NOT EXISTS status_expires_at timestamptz;
+
+-- Closed chats
+ALTER TABLE chats DROP CONSTRAINT IF EXISTS chats_status_check;
+ALTER TABLE chats ADD CONSTRAINT chats_status_check
+  CHECK (status IN ('active', 'waiting', 'resolved', 'archived', 'closed'));
+
+CREATE TABLE IF NOT EXISTS report_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id uuid NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+  author_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  body text NOT NULL CHECK (btrim(body) <> ''),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_notes_report_id
+  ON report_notes USING btree (report_id, created_at);
+
+CREATE TABLE IF NOT EXISTS moderation_actions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id uuid REFERENCES reports(id) ON DELETE SET NULL,
+  moderator_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  action text NOT NULL CHECK (
+    action IN ('status', 'assign', 'note', 'warn', 'mute', 'suspend', 'close_chat')
+  ),
+  target_user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  chat_id uuid REFERENCES chats(id) ON DELETE SET NULL,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_report_id
+  ON moderation_actions USING btree (report_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_target_user_id
+  ON moderation_actions USING btree (target_user_id);
+
+CREATE TABLE IF NOT EXISTS user_warnings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  chat_id uuid REFERENCES chats(id) ON DELETE SET NULL,
+  report_id uuid REFERENCES reports(id) ON DELETE SET NULL,
+  reason text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  acknowledged_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_warnings_user_id
+  ON user_warnings USING btree (user_id, created_at DESC);
+
+-- Only admins (or the service role) may change an account's status
+CREATE OR REPLACE FUNCTION prevent_account_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.account_status IS DISTINCT FROM OLD.account_status
+      OR NEW.status_expires_at IS DISTINCT FROM OLD.status_expires_at)
+     AND auth.uid() IS NOT NULL
+     AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can change account status';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_users_account_status_change ON users;
+CREATE TRIGGER prevent_users_account_status_change
+  BEFORE UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_account_status_change();
+
+-- Closed chats take no new messages
+CREATE OR REPLACE FUNCTION prevent_message_in_closed_chat()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM chats WHERE id = NEW.chat_id AND status = 'closed') THEN
+    RAISE EXCEPTION 'This chat has been closed by a moderator'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS prevent_message_in_closed_chat ON messages;
+CREATE TRIGGER prevent_message_in_closed_chat
+  BEFORE INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_message_in_closed_chat();
+
+-- Lock a report for a moderation step; admins only
+CREATE OR REPLACE FUNCTION lock_report_for_moderation(p_report_id uuid)
+RETURNS reports AS $$
+DECLARE
+  target reports;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can moderate reports';
+  END IF;
+
+  SELECT * INTO target FROM reports WHERE id = p_report_id FOR UPDATE;
+
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'Report not found';
+  END IF;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION log_moderation_action(
+  p_report_id uuid,
+  p_action text,
+  p_target_user_id uuid,
+  p_chat_id uuid,
+  p_details jsonb
+)
+RETURNS void AS $$
+  INSERT INTO moderation_actions (report_id, moderator_id, action, target_user_id, chat_id, details)
+  VALUES (p_report_id, auth.uid(), p_action, p_target_user_id, p_chat_id, COALESCE(p_details, '{}'::jsonb));
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Status change without locking or logging (callers do both)
+CREATE OR REPLACE FUNCTION apply_report_status(target reports, p_status text, p_resolution_note text)
+RETURNS reports AS $$
+DECLARE
+  updated reports;
+BEGIN
+  UPDATE reports
+  SET
+    status = p_status,
+    resolved = p_status IN ('actioned', 'dismissed'),
+    resolved_by = CASE
+      WHEN p_status IN ('actioned', 'dismissed') THEN (SELECT anonymous_id FROM users WHERE id = auth.uid())
+    END,
+    resolved_at = CASE WHEN p_status IN ('actioned', 'dismissed') THEN now() END,
+    resolution_note = CASE
+      WHEN p_status IN ('actioned', 'dismissed') THEN NULLIF(btrim(COALESCE(p_resolution_note, '')), '')
+    END
+  WHERE id = target.id
+  RETURNING * INTO updated;
+
+  RETURN updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_report_status(p_report_id uuid, p_status text, p_resolution_note text DEFAULT NULL)
+RETURNS reports AS $$
+DECLARE
+  target reports := lock_report_for_moderation(p_report_id);
+BEGIN
+  IF p_status NOT IN ('open', 'triaged', 'actioned', 'dismissed') THEN
+    RAISE EXCEPTION 'Unknown report status: %', p_status;
+  END IF;
+
+  IF target.status = p_status THEN
+    RETURN target;
+  END IF;
+
+  PERFORM log_moderation_action(
+    target.id, 'status', NULL, target.chat_id,
+    jsonb_build_object('from', target.status, 'to', p_status, 'note', p_resolution_note)
+  );
+
+  RETURN apply_report_status(target, p_status, p_resolution_note);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION assign_report(p_report_id uuid, p_moderator_id uuid)
+RETURNS reports AS $$
+DECLARE
+  target reports := lock_report_for_moderation(p_report_id);
+BEGIN
+  IF p_moderator_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = p_moderator_id AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Reports can only be assigned to administrators';
+  END IF;
+
+  PERFORM log_moderation_action(
+    target.id, 'assign', NULL, target.chat_id,
+    jsonb_build_object('from', target.assigned_to, 'to', p_moderator_id)
+  );
+
+  UPDATE reports
+  SET
+    assigned_to = p_moderator_id,
+    status = CASE WHEN status = 'open' AND p_moderator_id IS NOT NULL THEN 'triaged' ELSE status END
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION add_report_note(p_report_id uuid, p_body text)
+RETURNS report_notes AS $$
+DECLARE
+  target reports := lock_report_for_moderation(p_report_id);
+  note report_notes;
+BEGIN
+  IF btrim(COALESCE(p_body, '')) = '' THEN
+    RAISE EXCEPTION 'Note cannot be empty';
+  END IF;
+
+  INSERT INTO report_notes (report_id, author_id, body)
+  VALUES (target.id, auth.uid(), btrim(p_body))
+  RETURNING * INTO note;
+
+  PERFORM log_moderation_action(
+    target.id, 'note', NULL, target.chat_id,
+    jsonb_build_object('note_id', note.id)
+  );
+
+  RETURN note;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+/*
+  Warn, mute or suspend the sender of the reported message, or close the
+  chat it was sent in. Open and triaged reports become 'actioned'.
+*/
+CREATE OR REPLACE FUNCTION take_moderation_action(
+  p_report_id uuid,
+  p_action text,
+  p_reason text,
+  p_duration interval DEFAULT NULL
+)
+RETURNS moderation_actions AS $$
+DECLARE
+  target reports := lock_report_for_moderation(p_report_id);
+  sender_role text;
+  target_user_id uuid;
+  expires_at timestamptz;
+  logged moderation_actions;
+BEGIN
+  IF p_action NOT IN ('warn', 'mute', 'suspend', 'close_chat') THEN
+    RAISE EXCEPTION 'Unknown moderation action: %', p_action;
+  END IF;
+
+  IF btrim(COALESCE(p_reason, '')) = '' THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  IF target.chat_id IS NULL THEN
+    RAISE EXCEPTION 'This report is not linked to a chat';
+  END IF;
+
+  sender_role := target.message_snapshot->>'sender_role';
+
+  SELECT CASE sender_role
+    WHEN 'student' THEN student_id
+    WHEN 'faculty' THEN faculty_id
+  END
+  INTO target_user_id
+  FROM chats
+  WHERE id = target.chat_id;
+
+  IF p_action <> 'close_chat' AND target_user_id IS NULL THEN
+    RAISE EXCEPTION 'The sender of the reported message could not be found';
+  END IF;
+
+  IF p_action = 'warn' THEN
+    INSERT INTO user_warnings (user_id, chat_id, report_id, reason)
+    VALUES (target_user_id, target.chat_id, target.id, btrim(p_reason));
+
+  ELSIF p_action IN ('mute', 'suspend') THEN
+    expires_at := now() + COALESCE(
+      p_duration,
+      CASE p_action WHEN 'mute' THEN interval '24 hours' ELSE interval '7 days' END
+    );
+
+    UPDATE users
+    SET
+      account_status = CASE p_action WHEN 'mute' THEN 'muted' ELSE 'suspended' END,
+      status_expires_at = expires_at
+    WHERE id = target_user_id;
+
+  ELSE
+    UPDATE chats SET status = 'closed', updated_at = now() WHERE id = target.chat_id;
+  END IF;
+
+  INSERT INTO moderation_actions (report_id, moderator_id, action, target_user_id, chat_id, details)
+  VALUES (
+    target.id, auth.uid(), p_action, target_user_id, target.chat_id,
+    jsonb_build_object('reason', btrim(p_reason), 'expires_at', expires_at)
+  )
+  RETURNING * INTO logged;
+
+  IF target.status IN ('open', 'triaged') THEN
+    PERFORM apply_report_status(target, 'actioned', NULL);
+  END IF;
+
+  RETURN logged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION acknowledge_warning(p_warning_id uuid)
+RETURNS void AS $$
+  UPDATE user_warnings
+  SET acknowledged_at = COALESCE(acknowledged_at, now())
+  WHERE id = p_warning_id AND user_id = auth.uid();
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Internal helpers: only callable from the functions above
+REVOKE EXECUTE ON FUNCTION lock_report_for_moderation(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION log_moderation_action(uuid, text, uuid, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION apply_report_status(reports, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Row level security
+DROP POLICY IF EXISTS "Admins can update reports" ON reports;
+
+ALTER TABLE report_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE moderation_actions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_warnings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read report notes"
+ON report_notes FOR SELECT
+TO authenticated
+USING (is_admin());
+
+CREATE POLICY "Admins can read moderation actions"
+ON moderation_actions FOR SELECT
+TO authenticated
+USING (is_admin());
+
+CREATE POLICY "Users can read own warnings"
+ON user_warnings FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can read all warnings"
+ON user_warnings FOR SELECT
+TO authenticated
+USING (is_admin());
@@ -0,0 +1,278 @@
+/*
+  # Enforce account restrictions
+
+  1. Schema Changes
+    - `users.status_reason` - why the account is restricted, shown to its owner
+
+  2. New Tables
+    - `account_status_changes` - every change to an account's status, with the
+      admin who made it, the reason and the expiry
+
+  3. Functions
+    - `effective_account_status(p_user_id)` - the account status, treating an
+      expired mute or suspension as 'active'
+    - `set_account_status(p_user_id, p_status, p_reason, p_duration)` - admins
+      apply or lift a restriction (a reason is required)
+    - `take_moderation_action` now records mutes and suspensions in
+      `account_status_changes` as well
+
+  4. Enforcement
+    - Muted, suspended and banned users can't send messages or start chats
+      (BEFORE INSERT triggers on `messages` and `chats`)
+    - Suspended and banned users are turned away at login by the client
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS status_reason text;
+
+CREATE TABLE IF NOT EXISTS account_status_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  changed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  from_status text NOT NULL,
+  to_status text NOT NULL,
+  expires_at timestamptz,
+  reason text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_status_changes_user_id
+  ON account_status_changes USING btree (user_id, created_at DESC);
+
+-- The prevent_account_status_change trigger also covers the reason
+CREATE OR REPLACE FUNCTION prevent_account_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.account_status IS DISTINCT FROM OLD.account_status
+      OR NEW.status_expires_at IS DISTINCT FROM OLD.status_expires_at
+      OR NEW.status_reason IS DISTINCT FROM OLD.status_reason)
+     AND auth.uid() IS NOT NULL
+     AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can change account status';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION effective_account_status(p_user_id uuid)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN status_expires_at IS NOT NULL AND status_expires_at <= now() THEN 'active'
+    ELSE account_status
+  END
+  FROM users
+  WHERE id = p_user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Change an account's status and record it; callers check permissions
+CREATE OR REPLACE FUNCTION apply_account_status(
+  p_user_id uuid,
+  p_status text,
+  p_expires_at timestamptz,
+  p_reason text
+)
+RETURNS users AS $$
+DECLARE
+  target users;
+BEGIN
+  INSERT INTO account_status_changes (user_id, changed_by, from_status, to_status, expires_at, reason)
+  SELECT id, auth.uid(), effective_account_status(id), p_status, p_expires_at, btrim(p_reason)
+  FROM users
+  WHERE id = p_user_id;
+
+  UPDATE users
+  SET
+    account_status = p_status,
+    status_expires_at = p_expires_at,
+    status_reason = CASE WHEN p_status = 'active' THEN NULL ELSE btrim(p_reason) END
+  WHERE id = p_user_id
+  RETURNING * INTO target;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_account_status(
+  p_user_id uuid,
+  p_status text,
+  p_reason text,
+  p_duration interval DEFAULT NULL
+)
+RETURNS users AS $$
+DECLARE
+  target_role text;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can change account status';
+  END IF;
+
+  IF p_status NOT IN ('active', 'muted', 'suspended', 'banned') THEN
+    RAISE EXCEPTION 'Unknown account status: %', p_status;
+  END IF;
+
+  IF btrim(COALESCE(p_reason, '')) = '' THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  SELECT role INTO target_role FROM users WHERE id = p_user_id;
+
+  IF target_role IS NULL THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF target_role = 'admin' AND p_status <> 'active' THEN
+    RAISE EXCEPTION 'Administrator accounts cannot be restricted';
+  END IF;
+
+  RETURN apply_account_status(
+    p_user_id,
+    p_status,
+    CASE WHEN p_status <> 'active' AND p_duration IS NOT NULL THEN now() + p_duration END,
+    p_reason
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION take_moderation_action(
+  p_report_id uuid,
+  p_action text,
+  p_reason text,
+  p_duration interval DEFAULT NULL
+)
+RETURNS moderation_actions AS $$
+DECLARE
+  target reports := lock_report_for_moderation(p_report_id);
+  sender_role text;
+  target_user_id uuid;
+  expires_at timestamptz;
+  logged moderation_actions;
+BEGIN
+  IF p_action NOT IN ('warn', 'mute', 'suspend', 'close_chat') THEN
+    RAISE EXCEPTION 'Unknown moderation action: %', p_action;
+  END IF;
+
+  IF btrim(COALESCE(p_reason, '')) = '' THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  IF target.chat_id IS NULL THEN
+    RAISE EXCEPTION 'This report is not linked to a chat';
+  END IF;
+
+  sender_role := target.message_snapshot->>'sender_role';
+
+  SELECT CASE sender_role
+    WHEN 'student' THEN student_id
+    WHEN 'faculty' THEN faculty_id
+  END
+  INTO target_user_id
+  FROM chats
+  WHERE id = target.chat_id;
+
+  IF p_action <> 'close_chat' AND target_user_id IS NULL THEN
+    RAISE EXCEPTION 'The sender of the reported message could not be found';
+  END IF;
+
+  IF p_action = 'warn' THEN
+    INSERT INTO user_warnings (user_id, chat_id, report_id, reason)
+    VALUES (target_user_id, target.chat_id, target.id, btrim(p_reason));
+
+  ELSIF p_action IN ('mute', 'suspend') THEN
+    -- Never soften a ban or a longer suspension
+    IF effective_account_status(target_user_id) = 'banned' THEN
+      RAISE EXCEPTION 'This user is already banned';
+    END IF;
+
+    expires_at := now() + COALESCE(
+      p_duration,
+      CASE p_action WHEN 'mute' THEN interval '24 hours' ELSE interval '7 days' END
+    );
+
+    PERFORM apply_account_status(
+      target_user_id,
+      CASE p_action WHEN 'mute' THEN 'muted' ELSE 'suspended' END,
+      expires_at,
+      p_reason
+    );
+
+  ELSE
+    UPDATE chats SET status = 'closed', updated_at = now() WHERE id = target.chat_id;
+  END IF;
+
+  INSERT INTO moderation_actions (report_id, moderator_id, action, target_user_id, chat_id, details)
+  VALUES (
+    target.id, auth.uid(), p_action, target_user_id, target.chat_id,
+    jsonb_build_object('reason', btrim(p_reason), 'expires_at', expires_at)
+  )
+  RETURNING * INTO logged;
+
+  IF target.status IN ('open', 'triaged') THEN
+    PERFORM apply_report_status(target, 'actioned', NULL);
+  END IF;
+
+  RETURN logged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Restricted users can't send messages
+CREATE OR REPLACE FUNCTION check_sender_account_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  sender_id uuid;
+  sender_status text;
+BEGIN
+  SELECT CASE NEW.sender_role
+    WHEN 'student' THEN student_id
+    WHEN 'faculty' THEN faculty_id
+  END
+  INTO sender_id
+  FROM chats
+  WHERE id = NEW.chat_id;
+
+  sender_status := effective_account_status(sender_id);
+
+  IF sender_status IS NOT NULL AND sender_status <> 'active' THEN
+    RAISE EXCEPTION 'Your account is % and cannot send messages', sender_status
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_sender_account_status ON messages;
+CREATE TRIGGER check_sender_account_status
+  BEFORE INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION check_sender_account_status();
+
+-- Restricted users can't start chats
+CREATE OR REPLACE FUNCTION check_chat_creator_account_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  creator_status text := effective_account_status(COALESCE(auth.uid(), NEW.student_id));
+BEGIN
+  IF creator_status IS NOT NULL AND creator_status <> 'active' THEN
+    RAISE EXCEPTION 'Your account is % and cannot start new chats', creator_status
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_chat_creator_account_status ON chats;
+CREATE TRIGGER check_chat_creator_account_status
+  BEFORE INSERT ON chats
+  FOR EACH ROW
+  EXECUTE FUNCTION check_chat_creator_account_status();
+
+-- Internal helper: only callable from the functions above
+REVOKE EXECUTE ON FUNCTION apply_account_status(uuid, text, timestamptz, text) FROM PUBLIC, anon, authenticated;
+
+-- Row level security
+ALTER TABLE account_status_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read account status changes"
+ON account_status_changes FOR SELECT
+TO authenticated
+USING (is_admin());
@@ -0,0 +1,205 @@
+/*
+  # Content moderation rules for outgoing messages
+
+  1. New Tables
+    - `moderation_rules` - rules run on every outgoing message
+      - `kind`: 'word_list' (`config.words`), 'regex' (`config.pattern`,
+        `config.flags`) or 'score' (`config.threshold`, local scoring stub)
+      - `action`: 'block' (not sent), 'warn' (sender is asked to confirm)
+        or 'flag' (sent, and a report is filed automatically)
+    - `moderation_decisions` - log of every rule that matched a message
+
+  2. Functions
+    - `log_moderation_decisions(p_chat_id, p_message_id, p_outcome, p_decisions)`
+      - the sender's client logs what the filter decided; flagged messages
+      get one automated report (`reported_by` is NULL)
+    - `enforce_block_rules()` - BEFORE INSERT trigger on `messages` that
+      re-checks enabled word-list and regex 'block' rules on the server, so a
+      modified client can't skip them
+
+  3. Security
+    - Signed-in users can read enabled rules (the filter runs in the client
+      first); only admins can manage rules or read decisions
+*/
+
+CREATE TABLE IF NOT EXISTS moderation_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  kind text NOT NULL CHECK (kind IN ('word_list', 'regex', 'score')),
+  config jsonb NOT NULL DEFAULT '{}'::jsonb,
+  action text NOT NULL CHECK (action IN ('block', 'warn', 'flag')),
+  enabled boolean NOT NULL DEFAULT true,
+  updated_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS moderation_decisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id uuid REFERENCES moderation_rules(id) ON DELETE SET NULL,
+  rule_name text NOT NULL,
+  action text NOT NULL CHECK (action IN ('block', 'warn', 'flag')),
+  outcome text NOT NULL CHECK (outcome IN ('sent', 'blocked', 'withdrawn')),
+  chat_id uuid REFERENCES chats(id) ON DELETE SET NULL,
+  message_id uuid REFERENCES messages(id) ON DELETE SET NULL,
+  sender_role text,
+  matched text,
+  score numeric,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_decisions_created_at
+  ON moderation_decisions USING btree (created_at DESC);
+
+-- Starter rules; admins tune these from the AdminPanel
+INSERT INTO moderation_rules (name, kind, config, action)
+SELECT * FROM (VALUES
+  ('Profanity', 'word_list', '{"words": ["fuck", "shit", "bitch", "bastard", "asshole"]}'::jsonb, 'warn'),
+  ('Harassment', 'word_list', '{"words": ["kill yourself", "kys", "retard", "loser", "idiot"]}'::jsonb, 'flag'),
+  ('Contact details', 'regex', '{"pattern": "\\b\\d{10}\\b|[\\w.+-]+@[\\w-]+\\.[\\w.]+", "flags": "i"}'::jsonb, 'warn'),
+  ('Hostility score', 'score', '{"threshold": 0.8}'::jsonb, 'flag')
+) AS starter(name, kind, config, action)
+WHERE NOT EXISTS (SELECT 1 FROM moderation_rules);
+
+CREATE OR REPLACE FUNCTION touch_moderation_rule()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := now();
+  NEW.updated_by := auth.uid();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS touch_moderation_rule ON moderation_rules;
+CREATE TRIGGER touch_moderation_rule
+  BEFORE INSERT OR UPDATE ON moderation_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_moderation_rule();
+
+-- Server-side backstop for block rules the database can evaluate
+CREATE OR REPLACE FUNCTION enforce_block_rules()
+RETURNS TRIGGER AS $$
+DECLARE
+  rule moderation_rules;
+  word text;
+BEGIN
+  FOR rule IN
+    SELECT * FROM moderation_rules
+    WHERE enabled AND action = 'block' AND kind IN ('word_list', 'regex')
+  LOOP
+    IF rule.kind = 'word_list' THEN
+      FOR word IN SELECT jsonb_array_elements_text(COALESCE(rule.config->'words', '[]'::jsonb)) LOOP
+        IF btrim(word) <> '' AND NEW.body ~* ('\m' || regexp_replace(btrim(word), '([.*+?^${}()|\[\]\\])', '\\\1', 'g') || '\M') THEN
+          RAISE EXCEPTION 'Message blocked by the content filter (%)', rule.name
+            USING ERRCODE = 'insufficient_privilege';
+        END IF;
+      END LOOP;
+    ELSE
+      BEGIN
+        IF NEW.body ~* (rule.config->>'pattern') THEN
+          RAISE EXCEPTION 'Message blocked by the content filter (%)', rule.name
+            USING ERRCODE = 'insufficient_privilege';
+        END IF;
+      EXCEPTION
+        -- JavaScript-only syntax is checked by the client filter alone
+        WHEN invalid_regular_expression THEN NULL;
+      END;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_block_rules ON messages;
+CREATE TRIGGER enforce_block_rules
+  BEFORE INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_block_rules();
+
+/*
+  p_decisions: [{ "rule_id", "action", "matched", "score" }, ...]
+  p_outcome: 'sent' (with p_message_id), 'blocked' or 'withdrawn'
+*/
+CREATE OR REPLACE FUNCTION log_moderation_decisions(
+  p_chat_id uuid,
+  p_message_id uuid,
+  p_outcome text,
+  p_decisions jsonb
+)
+RETURNS void AS $$
+DECLARE
+  caller_role text := chat_participant_role(p_chat_id);
+  decision jsonb;
+  rule moderation_rules;
+  flagged_rules text[] := ARRAY[]::text[];
+BEGIN
+  IF p_outcome NOT IN ('sent', 'blocked', 'withdrawn') THEN
+    RAISE EXCEPTION 'Unknown outcome: %', p_outcome;
+  END IF;
+
+  IF p_message_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM messages
+    WHERE id = p_message_id AND chat_id = p_chat_id AND sender_role = caller_role
+  ) THEN
+    RAISE EXCEPTION 'You can only log decisions about your own messages';
+  END IF;
+
+  FOR decision IN SELECT jsonb_array_elements(COALESCE(p_decisions, '[]'::jsonb)) LOOP
+    SELECT * INTO rule FROM moderation_rules WHERE id = (decision->>'rule_id')::uuid;
+    CONTINUE WHEN rule.id IS NULL;
+
+    INSERT INTO moderation_decisions (rule_id, rule_name, action, outcome, chat_id, message_id, sender_role, matched, score)
+    VALUES (
+      rule.id, rule.name, rule.action, p_outcome, p_chat_id, p_message_id, caller_role,
+      left(decision->>'matched', 200), (decision->>'score')::numeric
+    );
+
+    IF rule.action = 'flag' THEN
+      flagged_rules := flagged_rules || rule.name;
+    END IF;
+  END LOOP;
+
+  -- One automated report per flagged message
+  IF p_outcome = 'sent' AND p_message_id IS NOT NULL AND cardinality(flagged_rules) > 0 THEN
+    INSERT INTO reports (message_id, reason, comment, reported_by, chat_id, "timestamp")
+    VALUES (
+      p_message_id::text,
+      'Automated flag',
+      'Matched: ' || array_to_string(flagged_rules, ', '),
+      NULL,
+      p_chat_id,
+      now()
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Row level security
+ALTER TABLE moderation_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE moderation_decisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read enabled moderation rules"
+ON moderation_rules FOR SELECT
+TO authenticated
+USING (enabled OR is_admin());
+
+CREATE POLICY "Admins can create moderation rules"
+ON moderation_rules FOR INSERT
+TO authenticated
+WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update moderation rules"
+ON moderation_rules FOR UPDATE
+TO authenticated
+USING (is_admin());
+
+CREATE POLICY "Admins can delete moderation rules"
+ON moderation_rules FOR DELETE
+TO authenticated
+USING (is_admin());
+
+CREATE POLICY "Admins can read moderation decisions"
+ON moderation_decisions FOR SELECT
+TO authenticated
+USING (is_admin());
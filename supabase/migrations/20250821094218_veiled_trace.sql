@@ -0,0 +1,29 @@
+/*
+  # Name lookup for the identity leak (PII) detector
+
+  1. Functions
+    - `find_user_names(p_text)` - returns the words in `p_text` that match part
+      of a registered user's name. Names come from the local part of the
+      university email (`firstname.lastname@...`), since profiles store no
+      other name.
+
+  2. Security
+    - SECURITY DEFINER so the detector can check names without reading other
+      users' emails; only the matching words from the caller's own text are
+      returned, never whose name they are
+    - Signed-in users only
+*/
+
+CREATE OR REPLACE FUNCTION find_user_names(p_text text)
+RETURNS SETOF text AS $$
+  SELECT DISTINCT word
+  FROM regexp_split_to_table(lower(COALESCE(p_text, '')), '[^a-z]+') AS word
+  WHERE length(word) >= 3
+    AND EXISTS (
+      SELECT 1 FROM users
+      WHERE word = ANY (regexp_split_to_array(lower(split_part(email, '@', 1)), '[^a-z]+'))
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION find_user_names(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION find_user_names(text) TO authenticated;
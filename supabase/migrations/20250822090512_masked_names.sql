@@ -0,0 +1,214 @@
+/*
+  # Unguessable anonymous IDs and per-chat pseudonyms
+
+  1. Anonymous IDs
+    - `generate_anonymous_id(p_role, p_style)` is the only generator:
+      - 'tag': `Student#` / `Faculty#` + 6 random base-32 characters
+        (about a billion values per role, e.g. `Student#K7Q2XM`)
+      - 'handle': adjective-animal-number (e.g. `quiet-otter-4821`)
+    - `handle_new_auth_user()` now generates the ID itself in the style
+      requested at sign-up (`anonymous_id_style`), retrying on collisions;
+      IDs sent by the client are ignored
+    - `users.anonymous_id` is unique and required; existing duplicates are
+      given fresh IDs first
+
+  2. Per-chat pseudonyms
+    - `users.per_chat_aliases` - the student's opt-in, changed through
+      `set_per_chat_aliases(p_enabled)`
+    - `chats.student_alias` - set when an opted-in student starts a chat, in
+      the same style as their anonymous ID, so each chat shows a different
+      name for the same student. It can't be changed afterwards.
+
+  3. Security
+    - Faculty can no longer read the `users` row of a student who is aliased
+      in a chat with them, so the student's anonymous ID, department and year
+      aren't shown next to the alias. Admins still read both.
+    - `chats.student_id` is still visible to the chat's faculty member; the
+      app never displays it.
+*/
+
+CREATE OR REPLACE FUNCTION generate_anonymous_id(p_role text, p_style text DEFAULT 'tag')
+RETURNS text AS $$
+DECLARE
+  -- Crockford base 32: no I, L, O or U to misread
+  alphabet constant text := '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+  adjectives constant text[] := ARRAY[
+    'amber', 'bold', 'brave', 'bright', 'calm', 'clever', 'cosmic', 'crisp',
+    'daring', 'eager', 'fuzzy', 'gentle', 'golden', 'happy', 'hidden', 'jolly',
+    'keen', 'lucky', 'mellow', 'misty', 'nimble', 'noble', 'quiet', 'rapid',
+    'silent', 'silver', 'steady', 'sunny', 'swift', 'velvet', 'witty', 'zesty'
+  ];
+  animals constant text[] := ARRAY[
+    'badger', 'beaver', 'bison', 'cobra', 'crane', 'dingo', 'eagle', 'falcon',
+    'ferret', 'gecko', 'heron', 'ibis', 'jackal', 'koala', 'lemur', 'lynx',
+    'marten', 'moose', 'newt', 'ocelot', 'otter', 'panda', 'puffin', 'quokka',
+    'raven', 'salmon', 'tapir', 'tiger', 'walrus', 'wombat', 'yak', 'zebra'
+  ];
+  -- 16 random bytes; bytes 6 and 8 carry the UUID version/variant bits, so
+  -- only bytes 0-5 are used
+  random_bytes bytea := decode(replace(gen_random_uuid()::text, '-', ''), 'hex');
+  tag text := '';
+BEGIN
+  IF p_style = 'handle' THEN
+    RETURN adjectives[get_byte(random_bytes, 0) % 32 + 1]
+      || '-' || animals[get_byte(random_bytes, 1) % 32 + 1]
+      || '-' || ((get_byte(random_bytes, 2) * 256 + get_byte(random_bytes, 3)) % 9000 + 1000);
+  END IF;
+
+  FOR i IN 0..5 LOOP
+    tag := tag || substr(alphabet, get_byte(random_bytes, i) % 32 + 1, 1);
+  END LOOP;
+
+  RETURN CASE p_role WHEN 'faculty' THEN 'Faculty' WHEN 'admin' THEN 'Admin' ELSE 'Student' END || '#' || tag;
+END;
+$$ LANGUAGE plpgsql VOLATILE SET search_path = public;
+
+-- A fresh ID (or alias) not used by any account or chat
+CREATE OR REPLACE FUNCTION unused_anonymous_id(p_role text, p_style text)
+RETURNS text AS $$
+DECLARE
+  candidate text;
+BEGIN
+  FOR attempt IN 1..20 LOOP
+    candidate := generate_anonymous_id(p_role, p_style);
+
+    IF NOT EXISTS (SELECT 1 FROM users WHERE anonymous_id = candidate)
+       AND NOT EXISTS (SELECT 1 FROM chats WHERE student_alias = candidate) THEN
+      RETURN candidate;
+    END IF;
+  END LOOP;
+
+  RAISE EXCEPTION 'Could not generate a unique anonymous ID';
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- Per-chat pseudonyms
+ALTER TABLE users ADD COLUMN IF NOT EXISTS per_chat_aliases boolean NOT NULL DEFAULT false;
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS student_alias text;
+
+-- Give duplicate or missing IDs a fresh one, keeping the oldest holder's
+UPDATE users
+SET anonymous_id = unused_anonymous_id(role, 'tag')
+WHERE anonymous_id IS NULL
+   OR EXISTS (
+     SELECT 1 FROM users AS earlier
+     WHERE earlier.anonymous_id = users.anonymous_id
+       AND (earlier.created_at, earlier.id) < (users.created_at, users.id)
+   );
+
+ALTER TABLE users ALTER COLUMN anonymous_id SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_anonymous_id_unique
+  ON users USING btree (anonymous_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_chats_student_alias_unique
+  ON chats USING btree (student_alias)
+  WHERE student_alias IS NOT NULL;
+
+-- Sign-up: generate the anonymous ID on the server
+CREATE OR REPLACE FUNCTION handle_new_auth_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  requested_role text := NEW.raw_user_meta_data->>'role';
+  id_style text := CASE WHEN NEW.raw_user_meta_data->>'anonymous_id_style' = 'handle' THEN 'handle' ELSE 'tag' END;
+BEGIN
+  IF requested_role NOT IN ('student', 'faculty') THEN
+    RAISE EXCEPTION 'Invalid role requested at sign-up';
+  END IF;
+
+  -- The unique index settles races between concurrent sign-ups
+  FOR attempt IN 1..5 LOOP
+    BEGIN
+      INSERT INTO public.users (
+        id, email, role, department, year, anonymous_id, theme, contact_number
+      ) VALUES (
+        NEW.id,
+        lower(NEW.email),
+        requested_role,
+        NEW.raw_user_meta_data->>'department',
+        CASE WHEN requested_role = 'student' THEN NEW.raw_user_meta_data->>'year' END,
+        unused_anonymous_id(requested_role, id_style),
+        COALESCE(NEW.raw_user_meta_data->>'theme', 'blue_neon'),
+        NEW.raw_user_meta_data->>'contact_number'
+      );
+
+      RETURN NEW;
+    EXCEPTION
+      WHEN unique_violation THEN
+        IF attempt = 5 THEN
+          RAISE;
+        END IF;
+    END;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- New chats of opted-in students get their own alias; aliases never change
+CREATE OR REPLACE FUNCTION assign_student_alias()
+RETURNS TRIGGER AS $$
+DECLARE
+  student users;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.student_alias := OLD.student_alias;
+    RETURN NEW;
+  END IF;
+
+  NEW.student_alias := NULL;
+
+  SELECT * INTO student FROM users WHERE id = NEW.student_id;
+
+  IF student.per_chat_aliases THEN
+    NEW.student_alias := unused_anonymous_id(
+      'student',
+      CASE WHEN student.anonymous_id LIKE 'Student#%' THEN 'tag' ELSE 'handle' END
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS assign_student_alias ON chats;
+CREATE TRIGGER assign_student_alias
+  BEFORE INSERT OR UPDATE OF student_alias ON chats
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_student_alias();
+
+CREATE OR REPLACE FUNCTION set_per_chat_aliases(p_enabled boolean)
+RETURNS users AS $$
+DECLARE
+  updated users;
+BEGIN
+  UPDATE users
+  SET per_chat_aliases = p_enabled
+  WHERE id = auth.uid() AND role = 'student'
+  RETURNING * INTO updated;
+
+  IF updated.id IS NULL THEN
+    RAISE EXCEPTION 'Only students can use per-chat pseudonyms';
+  END IF;
+
+  RETURN updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Internal helpers: only callable from the functions above
+REVOKE EXECUTE ON FUNCTION generate_anonymous_id(text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION unused_anonymous_id(text, text) FROM PUBLIC, anon, authenticated;
+
+-- Faculty don't see who is behind an alias
+DROP POLICY IF EXISTS "Users can read chat counterparts" ON users;
+
+CREATE POLICY "Users can read chat counterparts"
+ON users FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM chats
+    WHERE (chats.student_id = auth.uid() AND chats.faculty_id = users.id)
+       OR (chats.faculty_id = auth.uid() AND chats.student_id = users.id AND chats.student_alias IS NULL)
+  )
+);
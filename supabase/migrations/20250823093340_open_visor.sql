@@ -0,0 +1,227 @@
+/*
+  # Consent-based identity reveal
+
+  1. New Tables
+    - `identity_reveals` - one row per chat with the current state of the
+      student's identity in that chat
+      - `status`: 'requested' (faculty asked), 'revealed', 'declined' or
+        'revoked'
+      - `fields`: what the student chose to share, any of 'name' and
+        'department'
+    - `identity_reveal_events` - log of every request, reveal, decline and
+      revoke
+
+  2. Functions
+    - `request_identity_reveal(p_chat_id, p_note)` - faculty ask the student;
+      this never reveals anything by itself
+    - `reveal_identity(p_chat_id, p_fields)` - the student shares the chosen
+      fields with this chat's faculty member only; the only way to reach
+      'revealed'
+    - `decline_identity_reveal(p_chat_id)` and
+      `revoke_identity_reveal(p_chat_id)` - student only
+    - `get_revealed_identity(p_chat_id)` - the shared fields while the reveal
+      stands, otherwise NULL. Names come from the local part of the university
+      email, since profiles store no other name.
+
+  3. Realtime
+    - Add `identity_reveals` to the `supabase_realtime` publication so both
+      sides see requests, reveals and revokes as they happen
+
+  4. Security
+    - Participants read their chat's reveal state and events; admins read all
+    - All changes go through the functions above
+*/
+
+CREATE TABLE IF NOT EXISTS identity_reveals (
+  chat_id uuid PRIMARY KEY REFERENCES chats(id) ON DELETE CASCADE,
+  status text NOT NULL CHECK (status IN ('requested', 'revealed', 'declined', 'revoked')),
+  fields text[] NOT NULL DEFAULT '{}' CHECK (fields <@ ARRAY['name', 'department']),
+  request_note text,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS identity_reveal_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  chat_id uuid NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  actor_role text NOT NULL CHECK (actor_role IN ('student', 'faculty')),
+  event text NOT NULL CHECK (event IN ('requested', 'revealed', 'declined', 'revoked')),
+  fields text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_identity_reveal_events_chat_id
+  ON identity_reveal_events USING btree (chat_id, created_at);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'identity_reveals'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE identity_reveals;
+  END IF;
+END $$;
+
+-- Set the chat's reveal state and log the change
+CREATE OR REPLACE FUNCTION record_identity_reveal(
+  p_chat_id uuid,
+  p_actor_role text,
+  p_status text,
+  p_fields text[] DEFAULT '{}',
+  p_note text DEFAULT NULL
+)
+RETURNS identity_reveals AS $$
+DECLARE
+  saved identity_reveals;
+BEGIN
+  INSERT INTO identity_reveals (chat_id, status, fields, request_note, updated_at)
+  VALUES (p_chat_id, p_status, p_fields, p_note, now())
+  ON CONFLICT (chat_id) DO UPDATE
+  SET status = EXCLUDED.status,
+      fields = EXCLUDED.fields,
+      request_note = EXCLUDED.request_note,
+      updated_at = EXCLUDED.updated_at
+  RETURNING * INTO saved;
+
+  INSERT INTO identity_reveal_events (chat_id, actor_role, event, fields)
+  VALUES (p_chat_id, p_actor_role, p_status, p_fields);
+
+  RETURN saved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION request_identity_reveal(p_chat_id uuid, p_note text DEFAULT NULL)
+RETURNS identity_reveals AS $$
+DECLARE
+  existing identity_reveals;
+BEGIN
+  IF chat_participant_role(p_chat_id) <> 'faculty' THEN
+    RAISE EXCEPTION 'Only the faculty member can request a reveal'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO existing FROM identity_reveals WHERE chat_id = p_chat_id;
+
+  IF existing.status = 'revealed' THEN
+    RAISE EXCEPTION 'The student has already shared their identity in this chat';
+  ELSIF existing.status = 'requested' THEN
+    RAISE EXCEPTION 'A reveal has already been requested in this chat';
+  END IF;
+
+  RETURN record_identity_reveal(p_chat_id, 'faculty', 'requested', '{}', NULLIF(btrim(p_note), ''));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION reveal_identity(p_chat_id uuid, p_fields text[])
+RETURNS identity_reveals AS $$
+BEGIN
+  IF chat_participant_role(p_chat_id) <> 'student' THEN
+    RAISE EXCEPTION 'Only the student can reveal their identity'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF COALESCE(cardinality(p_fields), 0) = 0 OR NOT p_fields <@ ARRAY['name', 'department'] THEN
+    RAISE EXCEPTION 'Choose what to share: name, department or both';
+  END IF;
+
+  RETURN record_identity_reveal(p_chat_id, 'student', 'revealed', ARRAY(SELECT DISTINCT unnest(p_fields)));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION decline_identity_reveal(p_chat_id uuid)
+RETURNS identity_reveals AS $$
+BEGIN
+  IF chat_participant_role(p_chat_id) <> 'student' THEN
+    RAISE EXCEPTION 'Only the student can decline a reveal'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM identity_reveals WHERE chat_id = p_chat_id AND status = 'requested') THEN
+    RAISE EXCEPTION 'There is no reveal request to decline';
+  END IF;
+
+  RETURN record_identity_reveal(p_chat_id, 'student', 'declined');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION revoke_identity_reveal(p_chat_id uuid)
+RETURNS identity_reveals AS $$
+BEGIN
+  IF chat_participant_role(p_chat_id) <> 'student' THEN
+    RAISE EXCEPTION 'Only the student can revoke a reveal'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM identity_reveals WHERE chat_id = p_chat_id AND status = 'revealed') THEN
+    RAISE EXCEPTION 'Your identity is not shared in this chat';
+  END IF;
+
+  RETURN record_identity_reveal(p_chat_id, 'student', 'revoked');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The student's shared details, e.g. {"name": "Asha Rao", "department": "CSE", "year": "3"}
+CREATE OR REPLACE FUNCTION get_revealed_identity(p_chat_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  reveal identity_reveals;
+  student users;
+  shared jsonb := '{}'::jsonb;
+BEGIN
+  PERFORM chat_participant_role(p_chat_id);
+
+  SELECT * INTO reveal FROM identity_reveals WHERE chat_id = p_chat_id AND status = 'revealed';
+
+  IF reveal.chat_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT users.* INTO student
+  FROM users
+  JOIN chats ON chats.student_id = users.id
+  WHERE chats.id = p_chat_id;
+
+  IF 'name' = ANY (reveal.fields) THEN
+    -- "asha.rao2@learner.manipal.edu" -> "Asha Rao"
+    shared := shared || jsonb_build_object(
+      'name',
+      initcap(btrim(regexp_replace(split_part(student.email, '@', 1), '[^a-zA-Z]+', ' ', 'g')))
+    );
+  END IF;
+
+  IF 'department' = ANY (reveal.fields) THEN
+    shared := shared || jsonb_build_object('department', student.department, 'year', student.year);
+  END IF;
+
+  RETURN shared;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Internal helper: only callable from the functions above
+REVOKE EXECUTE ON FUNCTION record_identity_reveal(uuid, text, text, text[], text) FROM PUBLIC, anon, authenticated;
+
+-- Row level security
+ALTER TABLE identity_reveals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE identity_reveal_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can read their chat's identity reveal"
+ON identity_reveals FOR SELECT
+TO authenticated
+USING (
+  is_admin() OR EXISTS (
+    SELECT 1 FROM chats
+    WHERE chats.id = identity_reveals.chat_id
+      AND (chats.student_id = auth.uid() OR chats.faculty_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Participants can read their chat's identity reveal events"
+ON identity_reveal_events FOR SELECT
+TO authenticated
+USING (
+  is_admin() OR EXISTS (
+    SELECT 1 FROM chats
+    WHERE chats.id = identity_reveal_events.chat_id
+      AND (chats.student_id = auth.uid() OR chats.faculty_id = auth.uid())
+  )
+);
@@ -0,0 +1,126 @@
+/*
+  # Admin unmasking with a justification and an append-only audit log
+
+  1. Schema Changes
+    - `users.is_super_admin` - admins who can read the unmask audit log.
+      Granted by an operator, never from the app:
+        UPDATE users SET is_super_admin = true WHERE email = 'someone@manipal.edu';
+
+  2. New Tables
+    - `unmask_audit_log` - one row per unmasking: who unmasked whom, when and
+      why. Anonymous IDs are copied in and there are no foreign keys, so
+      entries outlive deleted accounts. Rows can't be updated or deleted.
+
+  3. Functions
+    - `is_super_admin()` - role check for policies, like `is_admin()`
+    - `unmask_user(p_user_id, p_justification)` - returns the user's email to
+      an admin and logs it; the justification must be at least 10 characters
+
+  4. Security
+    - Only super-admins can read the audit log; nobody can write to it except
+      through `unmask_user`
+    - The admin UI no longer loads emails, so identities are hidden unless
+      unmasked. RLS still lets admins read `users.email` directly; this is
+      a UI safeguard and an accountability record, not a hard barrier.
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS is_super_admin boolean NOT NULL DEFAULT false;
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_super_admin_check;
+ALTER TABLE users ADD CONSTRAINT users_super_admin_check
+  CHECK (NOT is_super_admin OR role = 'admin');
+
+CREATE OR REPLACE FUNCTION is_super_admin()
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin' AND is_super_admin
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Only the service role (an operator) may grant or remove super-admin access
+CREATE OR REPLACE FUNCTION prevent_super_admin_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_super_admin IS DISTINCT FROM OLD.is_super_admin
+     AND auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'Super-admin access can only be changed by an operator';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_users_super_admin_change ON users;
+CREATE TRIGGER prevent_users_super_admin_change
+  BEFORE UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_super_admin_change();
+
+CREATE TABLE IF NOT EXISTS unmask_audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  admin_id uuid NOT NULL,
+  admin_anonymous_id text NOT NULL,
+  target_user_id uuid NOT NULL,
+  target_anonymous_id text NOT NULL,
+  target_role text NOT NULL,
+  justification text NOT NULL CHECK (char_length(btrim(justification)) >= 10),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_unmask_audit_log_created_at
+  ON unmask_audit_log USING btree (created_at DESC);
+
+-- Append-only, even for the table owner
+CREATE OR REPLACE FUNCTION prevent_unmask_audit_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'The unmask audit log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_unmask_audit_change ON unmask_audit_log;
+CREATE TRIGGER prevent_unmask_audit_change
+  BEFORE UPDATE OR DELETE ON unmask_audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_unmask_audit_change();
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON unmask_audit_log FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION unmask_user(p_user_id uuid, p_justification text)
+RETURNS text AS $$
+DECLARE
+  admin users;
+  target users;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can unmask users'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF char_length(btrim(COALESCE(p_justification, ''))) < 10 THEN
+    RAISE EXCEPTION 'A justification of at least 10 characters is required to unmask a user';
+  END IF;
+
+  SELECT * INTO admin FROM users WHERE id = auth.uid();
+  SELECT * INTO target FROM users WHERE id = p_user_id;
+
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  INSERT INTO unmask_audit_log (
+    admin_id, admin_anonymous_id, target_user_id, target_anonymous_id, target_role, justification
+  ) VALUES (
+    admin.id, admin.anonymous_id, target.id, target.anonymous_id, target.role, btrim(p_justification)
+  );
+
+  RETURN target.email;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Row level security
+ALTER TABLE unmask_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super-admins can read the unmask audit log"
+ON unmask_audit_log FOR SELECT
+TO authenticated
+USING (is_super_admin());
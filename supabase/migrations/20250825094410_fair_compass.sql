@@ -0,0 +1,178 @@
+/*
+  # Faculty routing for new chats
+
+  1. Schema Changes
+    - `users.subject_tags` - subjects a faculty member takes questions on
+      (lowercase, e.g. 'data structures'), set through
+      `set_subject_tags(p_tags)`
+    - `chats.course_id` - the course a chat is about, if the student chose one
+
+  2. New Tables
+    - `courses` - courses students can ask about, with their instructor and
+      subject tags. Managed by admins (SQL or the Supabase dashboard).
+
+  3. Functions
+    - `route_new_chat(p_department, p_subject, p_course_id)` picks the faculty
+      member for a new chat and returns `{ faculty_id, anonymous_id,
+      department, reason, open_chats }`:
+      - a requested course goes to its instructor (`reason` 'course')
+      - otherwise faculty are ranked by subject tag match (counts double),
+        then department match, then fewest open ('active' or 'waiting')
+        chats; ties are broken at random. `reason` is 'subject',
+        'department' or 'load'.
+      - suspended and banned faculty are never picked
+
+  4. Security
+    - Signed-in users can read courses; only admins can change them
+    - `route_new_chat` runs as SECURITY DEFINER to count other faculty
+      members' open chats; it only returns the chosen faculty member
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS subject_tags text[] NOT NULL DEFAULT '{}';
+
+CREATE TABLE IF NOT EXISTS courses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE,
+  name text NOT NULL,
+  department text,
+  instructor_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  tags text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_courses_department
+  ON courses USING btree (department);
+
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS course_id uuid REFERENCES courses(id) ON DELETE SET NULL;
+
+-- Faculty-only, normalised to distinct lowercase tags
+CREATE OR REPLACE FUNCTION set_subject_tags(p_tags text[])
+RETURNS users AS $$
+DECLARE
+  updated users;
+BEGIN
+  UPDATE users
+  SET subject_tags = ARRAY(
+    SELECT DISTINCT lower(btrim(tag))
+    FROM unnest(COALESCE(p_tags, '{}')) AS tag
+    WHERE btrim(tag) <> ''
+    ORDER BY 1
+  )
+  WHERE id = auth.uid() AND role = 'faculty'
+  RETURNING * INTO updated;
+
+  IF updated.id IS NULL THEN
+    RAISE EXCEPTION 'Only faculty members have subject tags';
+  END IF;
+
+  RETURN updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION route_new_chat(
+  p_department text DEFAULT NULL,
+  p_subject text DEFAULT NULL,
+  p_course_id uuid DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  course courses;
+  subject_text text := lower(COALESCE(p_subject, ''));
+  routed jsonb;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to start a chat'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_course_id IS NOT NULL THEN
+    SELECT * INTO course FROM courses WHERE id = p_course_id;
+
+    IF course.id IS NULL THEN
+      RAISE EXCEPTION 'Course not found';
+    END IF;
+
+    SELECT jsonb_build_object(
+      'faculty_id', users.id,
+      'anonymous_id', users.anonymous_id,
+      'department', users.department,
+      'reason', 'course',
+      'open_chats', (SELECT count(*) FROM chats WHERE chats.faculty_id = users.id AND chats.status IN ('active', 'waiting'))
+    )
+    INTO routed
+    FROM users
+    WHERE users.id = course.instructor_id
+      AND users.role = 'faculty'
+      AND COALESCE(effective_account_status(users.id), 'active') NOT IN ('suspended', 'banned');
+
+    IF routed IS NOT NULL THEN
+      RETURN routed;
+    END IF;
+
+    -- No instructor available: route on the course's department and topics
+    p_department := COALESCE(course.department, p_department);
+    subject_text := lower(concat_ws(' ', p_subject, course.name, array_to_string(course.tags, ' ')));
+  END IF;
+
+  SELECT jsonb_build_object(
+    'faculty_id', ranked.id,
+    'anonymous_id', ranked.anonymous_id,
+    'department', ranked.department,
+    'reason', CASE WHEN ranked.subject_match THEN 'subject' WHEN ranked.department_match THEN 'department' ELSE 'load' END,
+    'open_chats', ranked.open_chats
+  )
+  INTO routed
+  FROM (
+    SELECT
+      users.id,
+      users.anonymous_id,
+      users.department,
+      EXISTS (
+        SELECT 1 FROM unnest(users.subject_tags) AS tag
+        WHERE subject_text LIKE '%' || tag || '%'
+      ) AS subject_match,
+      COALESCE(users.department = p_department, false) AS department_match,
+      (SELECT count(*) FROM chats WHERE chats.faculty_id = users.id AND chats.status IN ('active', 'waiting')) AS open_chats
+    FROM users
+    WHERE users.role = 'faculty'
+      AND COALESCE(effective_account_status(users.id), 'active') NOT IN ('suspended', 'banned')
+  ) AS ranked
+  ORDER BY
+    ranked.subject_match::int * 2 + ranked.department_match::int DESC,
+    ranked.open_chats ASC,
+    random()
+  LIMIT 1;
+
+  IF routed IS NULL THEN
+    RAISE EXCEPTION 'No faculty members are available right now';
+  END IF;
+
+  RETURN routed;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION route_new_chat(text, text, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION route_new_chat(text, text, uuid) TO authenticated;
+
+-- Row level security
+ALTER TABLE courses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read courses"
+ON courses FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can create courses"
+ON courses FOR INSERT
+TO authenticated
+WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update courses"
+ON courses FOR UPDATE
+TO authenticated
+USING (is_admin());
+
+CREATE POLICY "Admins can delete courses"
+ON courses FOR DELETE
+TO authenticated
+USING (is_admin());
@@ -0,0 +1,16 @@
+/*
+  # Category and urgency for new chats
+
+  1. Schema Changes
+    - `chats.category` - what kind of question the chat is (e.g. 'Assignment
+      Help'), chosen by the student when starting it
+    - `chats.urgency` - 'low', 'normal', 'high' or 'urgent', chosen by the
+      student; faculty see it as the chat's initial priority
+*/
+
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS category text;
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS urgency text NOT NULL DEFAULT 'normal';
+
+ALTER TABLE chats DROP CONSTRAINT IF EXISTS chats_urgency_check;
+ALTER TABLE chats ADD CONSTRAINT chats_urgency_check
+  CHECK (urgency IN ('low', 'normal', 'high', 'urgent'));
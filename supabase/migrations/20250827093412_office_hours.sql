@@ -0,0 +1,302 @@
+/*
+  # Faculty availability, office hours and auto-replies
+
+  1. Schema Changes
+    - `users.availability_status` - 'available', 'busy', 'away' or
+      'out_of_office'
+    - `users.office_hours` - weekly schedule, `[{ "day": 1, "start": "10:00",
+      "end": "12:00" }, ...]` with `day` 0 (Sunday) to 6 and times in
+      `users.office_hours_timezone`
+    - `users.auto_reply` - sent to students who write while the faculty member
+      isn't available
+    - `messages.is_auto_reply` - marks those replies
+    - All set through `set_availability(p_status, p_office_hours, p_timezone,
+      p_auto_reply)`
+
+  2. Functions
+    - `availability(users)` - computed field with `{ status, in_office_hours,
+      next_office_hours, expected_response, auto_reply }`. `expected_response`
+      is 'within_hours', 'within_day', 'next_office_hours', 'within_days' or
+      'out_of_office'.
+    - `route_new_chat` never picks faculty who are out of office, and prefers
+      faculty who can reply within hours before matching on subject and
+      department; its result includes the chosen member's `availability`
+    - A student message gets the faculty member's auto-reply when they can't
+      reply within hours, once until the faculty member next writes
+
+  3. Security
+    - Only faculty can set their availability
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS availability_status text NOT NULL DEFAULT 'available';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS office_hours jsonb NOT NULL DEFAULT '[]';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS office_hours_timezone text NOT NULL DEFAULT 'UTC';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS auto_reply text;
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_availability_status_check;
+ALTER TABLE users ADD CONSTRAINT users_availability_status_check
+  CHECK (availability_status IN ('available', 'busy', 'away', 'out_of_office'));
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS is_auto_reply boolean NOT NULL DEFAULT false;
+
+-- Faculty-only; the schedule is validated and sorted by day and start time
+CREATE OR REPLACE FUNCTION set_availability(
+  p_status text,
+  p_office_hours jsonb DEFAULT '[]',
+  p_timezone text DEFAULT 'UTC',
+  p_auto_reply text DEFAULT NULL
+)
+RETURNS users AS $$
+DECLARE
+  slot jsonb;
+  schedule jsonb;
+  updated users;
+BEGIN
+  IF p_status NOT IN ('available', 'busy', 'away', 'out_of_office') THEN
+    RAISE EXCEPTION 'Unknown availability status: %', p_status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', p_timezone;
+  END IF;
+
+  IF jsonb_typeof(COALESCE(p_office_hours, '[]')) <> 'array' THEN
+    RAISE EXCEPTION 'Office hours must be a list of time slots';
+  END IF;
+
+  FOR slot IN SELECT jsonb_array_elements(COALESCE(p_office_hours, '[]')) LOOP
+    IF NOT (slot->>'day' ~ '^[0-6]$'
+      AND slot->>'start' ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'
+      AND slot->>'end' ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'
+      AND slot->>'start' < slot->>'end')
+    THEN
+      RAISE EXCEPTION 'Invalid office hours slot: %', slot;
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object('day', (slot->>'day')::int, 'start', slot->>'start', 'end', slot->>'end')
+    ORDER BY (slot->>'day')::int, slot->>'start'
+  ), '[]')
+  INTO schedule
+  FROM jsonb_array_elements(COALESCE(p_office_hours, '[]')) AS slot;
+
+  IF length(p_auto_reply) > 500 THEN
+    RAISE EXCEPTION 'Auto-reply must be 500 characters or fewer';
+  END IF;
+
+  UPDATE users
+  SET
+    availability_status = p_status,
+    office_hours = schedule,
+    office_hours_timezone = p_timezone,
+    auto_reply = NULLIF(btrim(p_auto_reply), '')
+  WHERE id = auth.uid() AND role = 'faculty'
+  RETURNING * INTO updated;
+
+  IF updated.id IS NULL THEN
+    RAISE EXCEPTION 'Only faculty members have office hours';
+  END IF;
+
+  RETURN updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Whether `p_at` falls inside one of the faculty member's office hours slots
+CREATE OR REPLACE FUNCTION in_office_hours(faculty users, p_at timestamptz DEFAULT now())
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(faculty.office_hours) AS slot
+    CROSS JOIN LATERAL (SELECT p_at AT TIME ZONE faculty.office_hours_timezone AS local_time) AS here
+    WHERE (slot->>'day')::int = extract(dow FROM here.local_time)
+      AND here.local_time::time >= (slot->>'start')::time
+      AND here.local_time::time < (slot->>'end')::time
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Start of the next office hours slot after `p_at`, within a week
+CREATE OR REPLACE FUNCTION next_office_hours(faculty users, p_at timestamptz DEFAULT now())
+RETURNS timestamptz AS $$
+  SELECT min((day_start + (slot->>'start')::time) AT TIME ZONE faculty.office_hours_timezone)
+  FROM jsonb_array_elements(faculty.office_hours) AS slot
+  CROSS JOIN LATERAL generate_series(
+    date_trunc('day', p_at AT TIME ZONE faculty.office_hours_timezone),
+    date_trunc('day', p_at AT TIME ZONE faculty.office_hours_timezone) + interval '7 days',
+    interval '1 day'
+  ) AS day_start
+  WHERE (slot->>'day')::int = extract(dow FROM day_start)
+    AND (day_start + (slot->>'start')::time) AT TIME ZONE faculty.office_hours_timezone > p_at;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION availability(faculty users)
+RETURNS jsonb AS $$
+DECLARE
+  in_hours boolean := in_office_hours(faculty);
+  has_schedule boolean := jsonb_array_length(faculty.office_hours) > 0;
+BEGIN
+  IF faculty.role <> 'faculty' THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', faculty.availability_status,
+    'in_office_hours', in_hours,
+    'next_office_hours', next_office_hours(faculty),
+    'auto_reply', faculty.auto_reply,
+    'expected_response', CASE
+      WHEN faculty.availability_status = 'out_of_office' THEN 'out_of_office'
+      WHEN faculty.availability_status = 'available' AND (in_hours OR NOT has_schedule) THEN 'within_hours'
+      WHEN faculty.availability_status = 'busy' OR in_hours THEN 'within_day'
+      WHEN has_schedule THEN 'next_office_hours'
+      ELSE 'within_days'
+    END
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION route_new_chat(
+  p_department text DEFAULT NULL,
+  p_subject text DEFAULT NULL,
+  p_course_id uuid DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  course courses;
+  subject_text text := lower(COALESCE(p_subject, ''));
+  routed jsonb;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to start a chat'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_course_id IS NOT NULL THEN
+    SELECT * INTO course FROM courses WHERE id = p_course_id;
+
+    IF course.id IS NULL THEN
+      RAISE EXCEPTION 'Course not found';
+    END IF;
+
+    SELECT jsonb_build_object(
+      'faculty_id', users.id,
+      'anonymous_id', users.anonymous_id,
+      'department', users.department,
+      'reason', 'course',
+      'open_chats', (SELECT count(*) FROM chats WHERE chats.faculty_id = users.id AND chats.status IN ('active', 'waiting')),
+      'availability', availability(users)
+    )
+    INTO routed
+    FROM users
+    WHERE users.id = course.instructor_id
+      AND users.role = 'faculty'
+      AND users.availability_status <> 'out_of_office'
+      AND COALESCE(effective_account_status(users.id), 'active') NOT IN ('suspended', 'banned');
+
+    IF routed IS NOT NULL THEN
+      RETURN routed;
+    END IF;
+
+    -- No instructor available: route on the course's department and topics
+    p_department := COALESCE(course.department, p_department);
+    subject_text := lower(concat_ws(' ', p_subject, course.name, array_to_string(course.tags, ' ')));
+  END IF;
+
+  SELECT jsonb_build_object(
+    'faculty_id', ranked.id,
+    'anonymous_id', ranked.anonymous_id,
+    'department', ranked.department,
+    'reason', CASE WHEN ranked.subject_match THEN 'subject' WHEN ranked.department_match THEN 'department' ELSE 'load' END,
+    'open_chats', ranked.open_chats,
+    'availability', ranked.availability
+  )
+  INTO routed
+  FROM (
+    SELECT
+      users.id,
+      users.anonymous_id,
+      users.department,
+      EXISTS (
+        SELECT 1 FROM unnest(users.subject_tags) AS tag
+        WHERE subject_text LIKE '%' || tag || '%'
+      ) AS subject_match,
+      COALESCE(users.department = p_department, false) AS department_match,
+      (SELECT count(*) FROM chats WHERE chats.faculty_id = users.id AND chats.status IN ('active', 'waiting')) AS open_chats,
+      availability(users) AS availability
+    FROM users
+    WHERE users.role = 'faculty'
+      AND users.availability_status <> 'out_of_office'
+      AND COALESCE(effective_account_status(users.id), 'active') NOT IN ('suspended', 'banned')
+  ) AS ranked
+  ORDER BY
+    (ranked.availability->>'expected_response' = 'within_hours') DESC,
+    ranked.subject_match::int * 2 + ranked.department_match::int DESC,
+    array_position(
+      ARRAY['within_hours', 'within_day', 'next_office_hours', 'within_days'],
+      ranked.availability->>'expected_response'
+    ) ASC,
+    ranked.open_chats ASC,
+    random()
+  LIMIT 1;
+
+  IF routed IS NULL THEN
+    RAISE EXCEPTION 'No faculty members are available right now';
+  END IF;
+
+  RETURN routed;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- Auto-reply to a student while their faculty member can't reply within hours
+CREATE OR REPLACE FUNCTION send_auto_reply()
+RETURNS TRIGGER AS $$
+DECLARE
+  faculty users;
+  last_was_auto_reply boolean;
+BEGIN
+  IF NEW.sender_role <> 'student' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT users.* INTO faculty
+  FROM chats
+  JOIN users ON users.id = chats.faculty_id
+  WHERE chats.id = NEW.chat_id;
+
+  IF faculty.id IS NULL OR faculty.auto_reply IS NULL
+    OR availability(faculty)->>'expected_response' = 'within_hours'
+  THEN
+    RETURN NEW;
+  END IF;
+
+  -- Once until the faculty member next writes
+  SELECT is_auto_reply INTO last_was_auto_reply
+  FROM messages
+  WHERE chat_id = NEW.chat_id AND sender_role = 'faculty'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF last_was_auto_reply THEN
+    RETURN NEW;
+  END IF;
+
+  BEGIN
+    -- clock_timestamp() keeps the reply after the student's message
+    INSERT INTO messages (chat_id, sender_role, body, is_auto_reply, created_at)
+    VALUES (NEW.chat_id, 'faculty', faculty.auto_reply, true, clock_timestamp());
+  EXCEPTION
+    -- Restricted faculty account, or the reply trips a block rule
+    WHEN insufficient_privilege THEN NULL;
+  END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS send_auto_reply ON messages;
+CREATE TRIGGER send_auto_reply
+  AFTER INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION send_auto_reply();
+
+REVOKE EXECUTE ON FUNCTION send_auto_reply() FROM PUBLIC, anon, authenticated;
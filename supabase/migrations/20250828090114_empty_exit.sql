@@ -0,0 +1,15 @@
+/*
+  # Let students discard a chat whose opening message was refused
+
+  1. Security
+    - Students can delete their own chats while they have no messages.
+      `startNewChat` inserts the chat before its opening message; when the
+      server refuses that message (a block rule, an account restriction),
+      the empty chat is deleted so it doesn't stay assigned to the faculty
+      member or count towards their open chats.
+*/
+
+CREATE POLICY "Students can delete their own empty chats"
+ON chats FOR DELETE
+TO authenticated
+USING (student_id = auth.uid() AND message_count = 0);
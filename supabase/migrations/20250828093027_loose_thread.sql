@@ -0,0 +1,41 @@
+/*
+  # Delete the files of unsent attachments
+
+  1. Functions
+    - `is_unsent_own_attachment(object_name)` - whether the object belonged
+      to a message the caller sent and has since deleted
+
+  2. Security
+    - Senders can delete the stored file of an attachment message they
+      unsent. `deleteMessage` does this straight after `delete_message`, so
+      the file can't be opened any more, even with a link saved earlier.
+    - Admins keep the revision (name, size and type) but not the file; the
+      admin chat view says the sender deleted it
+    - Other attachments still can't be updated or deleted through the API
+*/
+
+CREATE OR REPLACE FUNCTION is_unsent_own_attachment(object_name text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM message_revisions
+    JOIN messages ON messages.id = message_revisions.message_id
+    JOIN chats ON chats.id = messages.chat_id
+    WHERE message_revisions.action = 'delete'
+      AND message_revisions.attachment_path = object_name
+      AND messages.deleted_at IS NOT NULL
+      AND (
+        (chats.student_id = auth.uid() AND messages.sender_role = 'student')
+        OR (chats.faculty_id = auth.uid() AND messages.sender_role = 'faculty')
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Senders can delete unsent attachments" ON storage.objects;
+CREATE POLICY "Senders can delete unsent attachments"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'chat-attachments'
+  AND is_unsent_own_attachment(name)
+);
@@ -0,0 +1,39 @@
+/*
+  # Apply account restrictions and closed chats to edits and deletions
+
+  1. Functions
+    - `lock_own_message` (used by `edit_message` and `delete_message`) now
+      also refuses:
+      - senders whose account is muted, suspended or banned, like
+        `check_sender_account_status` does for new messages
+      - messages in chats a moderator has closed, like
+        `prevent_message_in_closed_chat` does for new messages
+*/
+
+CREATE OR REPLACE FUNCTION lock_own_message(p_message_id uuid)
+RETURNS messages AS $$
+DECLARE
+  target messages;
+  sender_status text;
+BEGIN
+  SELECT * INTO target FROM messages WHERE id = p_message_id FOR UPDATE;
+
+  IF target.id IS NULL OR chat_participant_role(target.chat_id) <> target.sender_role THEN
+    RAISE EXCEPTION 'You can only change your own messages';
+  END IF;
+
+  sender_status := effective_account_status(auth.uid());
+
+  IF sender_status IS NOT NULL AND sender_status <> 'active' THEN
+    RAISE EXCEPTION 'Your account is % and cannot change messages', sender_status
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM chats WHERE id = target.chat_id AND status = 'closed') THEN
+    RAISE EXCEPTION 'This chat has been closed by a moderator'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,15 @@
+/*
+  # Check edited messages against the block rules
+
+  1. Triggers
+    - `enforce_block_rules` now also runs BEFORE UPDATE OF `body` on
+      `messages`, so `edit_message` can't turn a clean message into one a
+      block rule would have refused. Warn and flag rules are applied to edits
+      by the sender's client, as for new messages.
+*/
+
+DROP TRIGGER IF EXISTS enforce_block_rules ON messages;
+CREATE TRIGGER enforce_block_rules
+  BEFORE INSERT OR UPDATE OF body ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_block_rules();
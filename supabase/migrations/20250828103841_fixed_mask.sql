@@ -0,0 +1,30 @@
+/*
+  # Stop users changing their own anonymous ID or email
+
+  1. Functions & Triggers
+    - `prevent_identity_change()` - like `prevent_role_change()`, only admins
+      (or the service role) may change `users.anonymous_id` or
+      `users.email`. The "Users can update own data" policy still lets users
+      update their own row, but these columns are now off limits, so
+      anonymous IDs only ever come from `generate_anonymous_id` and can't be
+      set to a chosen or identifying value.
+*/
+
+CREATE OR REPLACE FUNCTION prevent_identity_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.anonymous_id IS DISTINCT FROM OLD.anonymous_id
+      OR NEW.email IS DISTINCT FROM OLD.email)
+     AND auth.uid() IS NOT NULL
+     AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can change anonymous IDs and emails';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_users_identity_change ON users;
+CREATE TRIGGER prevent_users_identity_change
+  BEFORE UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_identity_change();
@@ -0,0 +1,184 @@
+/*
+  # Move emails out of `users` so unmasking is the only way to read them
+
+  1. New Tables
+    - `user_emails` - one row per user with their (lowercase) email, moved
+      out of `users.email`, which is dropped. Operators promote admins with:
+        UPDATE users SET role = 'admin'
+        WHERE id = (SELECT user_id FROM user_emails WHERE email = 'someone@manipal.edu');
+
+  2. Functions
+    - `handle_new_auth_user()` writes the email to `user_emails`
+    - `find_user_names`, `get_revealed_identity` and `unmask_user` read it
+      from there; they are SECURITY DEFINER, so they still work for callers
+      who can't read the table
+    - `prevent_identity_change()` only guards `anonymous_id` now that the
+      email no longer lives on `users`
+
+  3. Security
+    - Users can read their own email and nothing else in `user_emails`;
+      nobody can write to it through the API. Admins have no read policy, so
+      `unmask_user` (justified and audited) is the only way for them to see
+      someone's email.
+*/
+
+CREATE TABLE IF NOT EXISTS user_emails (
+  user_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  email text NOT NULL UNIQUE
+);
+
+INSERT INTO user_emails (user_id, email)
+SELECT id, lower(email) FROM users
+WHERE email IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION prevent_identity_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.anonymous_id IS DISTINCT FROM OLD.anonymous_id
+     AND auth.uid() IS NOT NULL
+     AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can change anonymous IDs';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE users DROP COLUMN IF EXISTS email;
+
+-- Sign-up: the profile row, then the email beside it
+CREATE OR REPLACE FUNCTION handle_new_auth_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  requested_role text := NEW.raw_user_meta_data->>'role';
+  id_style text := CASE WHEN NEW.raw_user_meta_data->>'anonymous_id_style' = 'handle' THEN 'handle' ELSE 'tag' END;
+BEGIN
+  IF requested_role NOT IN ('student', 'faculty') THEN
+    RAISE EXCEPTION 'Invalid role requested at sign-up';
+  END IF;
+
+  -- The unique index settles races between concurrent sign-ups
+  FOR attempt IN 1..5 LOOP
+    BEGIN
+      INSERT INTO public.users (
+        id, role, department, year, anonymous_id, theme, contact_number
+      ) VALUES (
+        NEW.id,
+        requested_role,
+        NEW.raw_user_meta_data->>'department',
+        CASE WHEN requested_role = 'student' THEN NEW.raw_user_meta_data->>'year' END,
+        unused_anonymous_id(requested_role, id_style),
+        COALESCE(NEW.raw_user_meta_data->>'theme', 'blue_neon'),
+        NEW.raw_user_meta_data->>'contact_number'
+      );
+
+      EXIT;
+    EXCEPTION
+      WHEN unique_violation THEN
+        IF attempt = 5 THEN
+          RAISE;
+        END IF;
+    END;
+  END LOOP;
+
+  INSERT INTO public.user_emails (user_id, email)
+  VALUES (NEW.id, lower(NEW.email));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION find_user_names(p_text text)
+RETURNS SETOF text AS $$
+  SELECT DISTINCT word
+  FROM regexp_split_to_table(lower(COALESCE(p_text, '')), '[^a-z]+') AS word
+  WHERE length(word) >= 3
+    AND EXISTS (
+      SELECT 1 FROM user_emails
+      WHERE word = ANY (regexp_split_to_array(lower(split_part(email, '@', 1)), '[^a-z]+'))
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_revealed_identity(p_chat_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  reveal identity_reveals;
+  student users;
+  student_email text;
+  shared jsonb := '{}'::jsonb;
+BEGIN
+  PERFORM chat_participant_role(p_chat_id);
+
+  SELECT * INTO reveal FROM identity_reveals WHERE chat_id = p_chat_id AND status = 'revealed';
+
+  IF reveal.chat_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT users.* INTO student
+  FROM users
+  JOIN chats ON chats.student_id = users.id
+  WHERE chats.id = p_chat_id;
+
+  IF 'name' = ANY (reveal.fields) THEN
+    SELECT email INTO student_email FROM user_emails WHERE user_id = student.id;
+
+    -- "asha.rao2@learner.manipal.edu" -> "Asha Rao"
+    shared := shared || jsonb_build_object(
+      'name',
+      initcap(btrim(regexp_replace(split_part(student_email, '@', 1), '[^a-zA-Z]+', ' ', 'g')))
+    );
+  END IF;
+
+  IF 'department' = ANY (reveal.fields) THEN
+    shared := shared || jsonb_build_object('department', student.department, 'year', student.year);
+  END IF;
+
+  RETURN shared;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION unmask_user(p_user_id uuid, p_justification text)
+RETURNS text AS $$
+DECLARE
+  admin users;
+  target users;
+  target_email text;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can unmask users'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF char_length(btrim(COALESCE(p_justification, ''))) < 10 THEN
+    RAISE EXCEPTION 'A justification of at least 10 characters is required to unmask a user';
+  END IF;
+
+  SELECT * INTO admin FROM users WHERE id = auth.uid();
+  SELECT * INTO target FROM users WHERE id = p_user_id;
+
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  SELECT email INTO target_email FROM user_emails WHERE user_id = target.id;
+
+  INSERT INTO unmask_audit_log (
+    admin_id, admin_anonymous_id, target_user_id, target_anonymous_id, target_role, justification
+  ) VALUES (
+    admin.id, admin.anonymous_id, target.id, target.anonymous_id, target.role, btrim(p_justification)
+  );
+
+  RETURN target_email;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Row level security
+ALTER TABLE user_emails ENABLE ROW LEVEL SECURITY;
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON user_emails FROM anon, authenticated;
+
+CREATE POLICY "Users can read their own email"
+ON user_emails FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
@@ -0,0 +1,104 @@
+/*
+  # Rank faculty by subject and department match before availability
+
+  1. Functions
+    - `route_new_chat` ranks faculty by subject tag match (counts double)
+      and department match first, as it did before office hours; how soon
+      they can reply only breaks ties, ahead of open chats. Faculty who are
+      out of office are still never picked. Previously anyone who could
+      reply within hours beat a better-matched colleague who was busy.
+    - Subject tags are matched as plain substrings, so a '%' or '_' in a
+      tag no longer acts as a wildcard
+*/
+
+CREATE OR REPLACE FUNCTION route_new_chat(
+  p_department text DEFAULT NULL,
+  p_subject text DEFAULT NULL,
+  p_course_id uuid DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  course courses;
+  subject_text text := lower(COALESCE(p_subject, ''));
+  routed jsonb;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to start a chat'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_course_id IS NOT NULL THEN
+    SELECT * INTO course FROM courses WHERE id = p_course_id;
+
+    IF course.id IS NULL THEN
+      RAISE EXCEPTION 'Course not found';
+    END IF;
+
+    SELECT jsonb_build_object(
+      'faculty_id', users.id,
+      'anonymous_id', users.anonymous_id,
+      'department', users.department,
+      'reason', 'course',
+      'open_chats', (SELECT count(*) FROM chats WHERE chats.faculty_id = users.id AND chats.status IN ('active', 'waiting')),
+      'availability', availability(users)
+    )
+    INTO routed
+    FROM users
+    WHERE users.id = course.instructor_id
+      AND users.role = 'faculty'
+      AND users.availability_status <> 'out_of_office'
+      AND COALESCE(effective_account_status(users.id), 'active') NOT IN ('suspended', 'banned');
+
+    IF routed IS NOT NULL THEN
+      RETURN routed;
+    END IF;
+
+    -- No instructor available: route on the course's department and topics
+    p_department := COALESCE(course.department, p_department);
+    subject_text := lower(concat_ws(' ', p_subject, course.name, array_to_string(course.tags, ' ')));
+  END IF;
+
+  SELECT jsonb_build_object(
+    'faculty_id', ranked.id,
+    'anonymous_id', ranked.anonymous_id,
+    'department', ranked.department,
+    'reason', CASE WHEN ranked.subject_match THEN 'subject' WHEN ranked.department_match THEN 'department' ELSE 'load' END,
+    'open_chats', ranked.open_chats,
+    'availability', ranked.availability
+  )
+  INTO routed
+  FROM (
+    SELECT
+      users.id,
+      users.anonymous_id,
+      users.department,
+      -- strpos, not LIKE, so '%' and '_' in a tag match only themselves
+      EXISTS (
+        SELECT 1 FROM unnest(users.subject_tags) AS tag
+        WHERE strpos(subject_text, tag) > 0
+      ) AS subject_match,
+      COALESCE(users.department = p_department, false) AS department_match,
+      (SELECT count(*) FROM chats WHERE chats.faculty_id = users.id AND chats.status IN ('active', 'waiting')) AS open_chats,
+      availability(users) AS availability
+    FROM users
+    WHERE users.role = 'faculty'
+      AND users.availability_status <> 'out_of_office'
+      AND COALESCE(effective_account_status(users.id), 'active') NOT IN ('suspended', 'banned')
+  ) AS ranked
+  ORDER BY
+    ranked.subject_match::int * 2 + ranked.department_match::int DESC,
+    array_position(
+      ARRAY['within_hours', 'within_day', 'next_office_hours', 'within_days'],
+      ranked.availability->>'expected_response'
+    ) ASC,
+    ranked.open_chats ASC,
+    random()
+  LIMIT 1;
+
+  IF routed IS NULL THEN
+    RAISE EXCEPTION 'No faculty members are available right now';
+  END IF;
+
+  RETURN routed;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
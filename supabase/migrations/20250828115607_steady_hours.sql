@@ -0,0 +1,93 @@
+/*
+  # Validate office hours, time zones and subject tags on every write
+
+  1. Functions
+    - `valid_office_hours(p_office_hours)` - whether a schedule is a list of
+      `{ "day": 0-6, "start": "HH:MM", "end": "HH:MM" }` slots ending after
+      they start, as `set_availability` requires
+    - `normalized_subject_tags(p_tags)` - distinct, trimmed, lowercase, sorted
+      tags without blanks, as `set_subject_tags` stores them
+
+  2. Triggers
+    - `validate_faculty_settings` - BEFORE INSERT or UPDATE of
+      `office_hours`, `office_hours_timezone` or `subject_tags` on `users`.
+      The own-row UPDATE policy let faculty write these columns directly,
+      skipping the checks in `set_availability` and `set_subject_tags`; one
+      bad slot or time zone made `availability()` throw, and with it
+      `route_new_chat` and the faculty list for every student. Bad schedules
+      and time zones are now refused, and schedules and tags are normalised.
+
+  3. Data
+    - Existing invalid time zones are reset to 'UTC', invalid schedules to
+      no office hours, and subject tags are normalised
+*/
+
+CREATE OR REPLACE FUNCTION valid_office_hours(p_office_hours jsonb)
+RETURNS boolean AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(p_office_hours) = 'array' THEN NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(p_office_hours) AS slot
+      WHERE NOT COALESCE(
+        slot->>'day' ~ '^[0-6]$'
+          AND slot->>'start' ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'
+          AND slot->>'end' ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'
+          AND slot->>'start' < slot->>'end',
+        false
+      )
+    )
+    ELSE false
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION normalized_subject_tags(p_tags text[])
+RETURNS text[] AS $$
+  SELECT ARRAY(
+    SELECT DISTINCT lower(btrim(tag))
+    FROM unnest(COALESCE(p_tags, '{}')) AS tag
+    WHERE btrim(tag) <> ''
+    ORDER BY 1
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+UPDATE users
+SET office_hours_timezone = 'UTC'
+WHERE office_hours_timezone NOT IN (SELECT name FROM pg_timezone_names);
+
+UPDATE users
+SET office_hours = '[]'
+WHERE NOT valid_office_hours(office_hours);
+
+UPDATE users
+SET subject_tags = normalized_subject_tags(subject_tags)
+WHERE subject_tags IS DISTINCT FROM normalized_subject_tags(subject_tags);
+
+CREATE OR REPLACE FUNCTION validate_faculty_settings()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.office_hours_timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', NEW.office_hours_timezone;
+  END IF;
+
+  IF NOT valid_office_hours(NEW.office_hours) THEN
+    RAISE EXCEPTION 'Invalid office hours: %', NEW.office_hours;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object('day', (slot->>'day')::int, 'start', slot->>'start', 'end', slot->>'end')
+    ORDER BY (slot->>'day')::int, slot->>'start'
+  ), '[]')
+  INTO NEW.office_hours
+  FROM jsonb_array_elements(NEW.office_hours) AS slot;
+
+  NEW.subject_tags := normalized_subject_tags(NEW.subject_tags);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_faculty_settings ON users;
+CREATE TRIGGER validate_faculty_settings
+  BEFORE INSERT OR UPDATE OF office_hours, office_hours_timezone, subject_tags ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_faculty_settings();
@@ -0,0 +1,123 @@
+/*
+  # Tie a reveal to the student who consented
+
+  1. Schema Changes
+    - `identity_reveals.student_id` - the student who shared their identity,
+      set by `reveal_identity` and backfilled from the chat for existing
+      reveals. Not readable through the API, so faculty can't use it to link
+      chats.
+
+  2. Functions & Triggers
+    - `get_revealed_identity(p_chat_id)` reads the identity of the
+      consenting student from the reveal, not from `chats.student_id`
+    - `prevent_chat_participant_change()` - like `prevent_role_change()`,
+      only admins (or the service role) may change `chats.student_id` or
+      `chats.faculty_id`. The participant UPDATE policies let a faculty
+      member point their chat at another student and be shown that
+      student's identity.
+*/
+
+ALTER TABLE identity_reveals
+  ADD COLUMN IF NOT EXISTS student_id uuid REFERENCES users(id) ON DELETE CASCADE;
+
+UPDATE identity_reveals
+SET student_id = chats.student_id
+FROM chats
+WHERE chats.id = identity_reveals.chat_id
+  AND identity_reveals.status = 'revealed'
+  AND identity_reveals.student_id IS NULL;
+
+REVOKE SELECT ON identity_reveals FROM anon, authenticated;
+GRANT SELECT (chat_id, status, fields, request_note, updated_at) ON identity_reveals TO authenticated;
+
+-- The student is only kept while the reveal stands
+CREATE OR REPLACE FUNCTION record_identity_reveal(
+  p_chat_id uuid,
+  p_actor_role text,
+  p_status text,
+  p_fields text[] DEFAULT '{}',
+  p_note text DEFAULT NULL
+)
+RETURNS identity_reveals AS $$
+DECLARE
+  saved identity_reveals;
+BEGIN
+  INSERT INTO identity_reveals (chat_id, status, fields, request_note, student_id, updated_at)
+  VALUES (
+    p_chat_id, p_status, p_fields, p_note,
+    CASE WHEN p_status = 'revealed' THEN auth.uid() END,
+    now()
+  )
+  ON CONFLICT (chat_id) DO UPDATE
+  SET status = EXCLUDED.status,
+      fields = EXCLUDED.fields,
+      request_note = EXCLUDED.request_note,
+      student_id = EXCLUDED.student_id,
+      updated_at = EXCLUDED.updated_at
+  RETURNING * INTO saved;
+
+  INSERT INTO identity_reveal_events (chat_id, actor_role, event, fields)
+  VALUES (p_chat_id, p_actor_role, p_status, p_fields);
+
+  RETURN saved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_identity_reveal(uuid, text, text, text[], text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_revealed_identity(p_chat_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  reveal identity_reveals;
+  student users;
+  student_email text;
+  shared jsonb := '{}'::jsonb;
+BEGIN
+  PERFORM chat_participant_role(p_chat_id);
+
+  SELECT * INTO reveal FROM identity_reveals WHERE chat_id = p_chat_id AND status = 'revealed';
+
+  IF reveal.student_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO student FROM users WHERE id = reveal.student_id;
+
+  IF 'name' = ANY (reveal.fields) THEN
+    SELECT email INTO student_email FROM user_emails WHERE user_id = student.id;
+
+    -- "asha.rao2@learner.manipal.edu" -> "Asha Rao"
+    shared := shared || jsonb_build_object(
+      'name',
+      initcap(btrim(regexp_replace(split_part(student_email, '@', 1), '[^a-zA-Z]+', ' ', 'g')))
+    );
+  END IF;
+
+  IF 'department' = ANY (reveal.fields) THEN
+    shared := shared || jsonb_build_object('department', student.department, 'year', student.year);
+  END IF;
+
+  RETURN shared;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Only admins (or the service role) may move a chat to other participants
+CREATE OR REPLACE FUNCTION prevent_chat_participant_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.student_id IS DISTINCT FROM OLD.student_id
+      OR NEW.faculty_id IS DISTINCT FROM OLD.faculty_id)
+     AND auth.uid() IS NOT NULL
+     AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can change who takes part in a chat'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_chats_participant_change ON chats;
+CREATE TRIGGER prevent_chats_participant_change
+  BEFORE UPDATE ON chats
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_chat_participant_change();
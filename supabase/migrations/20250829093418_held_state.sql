@@ -0,0 +1,57 @@
+/*
+  # Keep chat status, counters and read markers out of participants' hands
+
+  1. Functions & Triggers
+    - `protect_chat_state()` - BEFORE INSERT or UPDATE on `chats`. The
+      "Students can update own chats" and "Faculty can update assigned chats"
+      policies let participants write any column, so a closed chat could be
+      reopened and `message_count`, `last_message_*` and the read markers
+      rewritten. Now only admins, the service role and SECURITY DEFINER
+      functions (`take_moderation_action`, `mark_messages_read`, the message
+      triggers, ...) may change `status`, `message_count`,
+      `last_message_text`, `last_message_at`, `student_last_read_at` and
+      `faculty_last_read_at`. New chats from clients start active and empty.
+      Participant ids are guarded by `prevent_chat_participant_change()`.
+
+  2. Notes
+    - SECURITY DEFINER functions run as their owner, so `current_user` is
+      only 'authenticated' (or 'anon') for writes made directly through the
+      API
+*/
+
+CREATE OR REPLACE FUNCTION protect_chat_state()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'active';
+    NEW.message_count := 0;
+    NEW.last_message_text := NULL;
+    NEW.last_message_at := NULL;
+    NEW.student_last_read_at := NULL;
+    NEW.faculty_last_read_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.message_count IS DISTINCT FROM OLD.message_count
+     OR NEW.last_message_text IS DISTINCT FROM OLD.last_message_text
+     OR NEW.last_message_at IS DISTINCT FROM OLD.last_message_at
+     OR NEW.student_last_read_at IS DISTINCT FROM OLD.student_last_read_at
+     OR NEW.faculty_last_read_at IS DISTINCT FROM OLD.faculty_last_read_at THEN
+    RAISE EXCEPTION 'Chat status, message counts and read markers can only be changed by the app'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_chat_state ON chats;
+CREATE TRIGGER protect_chat_state
+  BEFORE INSERT OR UPDATE ON chats
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_chat_state();
@@ -0,0 +1,31 @@
+/*
+  # Discard empty chats through a function instead of a DELETE policy
+
+  1. Functions
+    - `discard_empty_chat(p_chat_id)` - the chat's student deletes it while
+      it has no messages, checked against `messages` itself. `startNewChat`
+      calls it when the opening message is refused.
+
+  2. Security
+    - Drop "Students can delete their own empty chats". It trusted
+      `message_count`, which students could rewrite before
+      `protect_chat_state()`; chats can no longer be deleted directly.
+*/
+
+DROP POLICY IF EXISTS "Students can delete their own empty chats" ON chats;
+
+CREATE OR REPLACE FUNCTION discard_empty_chat(p_chat_id uuid)
+RETURNS boolean AS $$
+BEGIN
+  IF chat_participant_role(p_chat_id) <> 'student' THEN
+    RAISE EXCEPTION 'Only the student can discard their chat'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  DELETE FROM chats
+  WHERE id = p_chat_id
+    AND NOT EXISTS (SELECT 1 FROM messages WHERE chat_id = p_chat_id);
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
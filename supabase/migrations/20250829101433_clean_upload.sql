@@ -0,0 +1,13 @@
+/*
+  # Attachments are uploaded through the `upload-attachment` function
+
+  1. Security
+    - Drop "Participants can upload chat attachments". Metadata stripping
+      happened only in the browser, so anyone calling the Storage API
+      directly could upload files with EXIF, XMP or PDF author data. The
+      `upload-attachment` Edge Function checks the caller takes part in the
+      chat, refuses files that still carry metadata, and stores the file
+      with the service role.
+*/
+
+DROP POLICY IF EXISTS "Participants can upload chat attachments" ON storage.objects;
@@ -0,0 +1,11 @@
+/*
+  # Default replica identity for `message_reactions`
+
+  1. Realtime
+    - Back to REPLICA IDENTITY DEFAULT. With RLS on, Realtime only sends the
+      primary key of deleted rows whatever the replica identity, so FULL
+      just made every change log the whole row. DELETE events carry the
+      removed reaction's `id`, and clients remove reactions by id.
+*/
+
+ALTER TABLE message_reactions REPLICA IDENTITY DEFAULT;
@@ -0,0 +1,44 @@
+/*
+  # Keep the files of unsent attachments for moderators only
+
+  1. Functions
+    - `is_unsent_attachment(object_name)` - whether the object belonged to a
+      message its sender has since deleted
+    - Drop `is_unsent_own_attachment`
+
+  2. Security
+    - Drop "Senders can delete unsent attachments": deleting the file left
+      moderators with only its name, size and type. The file now stays in
+      storage.
+    - Participants can no longer read the file of an unsent attachment, even
+      with a link saved earlier; admins still can ("Admins can read chat
+      attachments")
+    - Nobody can update or delete attachments through the API again
+*/
+
+DROP POLICY IF EXISTS "Senders can delete unsent attachments" ON storage.objects;
+DROP FUNCTION IF EXISTS is_unsent_own_attachment(text);
+
+CREATE INDEX IF NOT EXISTS idx_message_revisions_attachment_path
+  ON message_revisions USING btree (attachment_path)
+  WHERE attachment_path IS NOT NULL;
+
+-- SECURITY DEFINER: revisions are only readable by admins
+CREATE OR REPLACE FUNCTION is_unsent_attachment(object_name text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM message_revisions
+    WHERE action = 'delete'
+      AND attachment_path = object_name
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Participants can read chat attachments" ON storage.objects;
+CREATE POLICY "Participants can read chat attachments"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'chat-attachments'
+  AND is_attachment_participant(name)
+  AND NOT is_unsent_attachment(name)
+);
@@ -0,0 +1,116 @@
+/*
+  # Moderation actions never soften an existing restriction
+
+  1. Functions
+    - `account_status_rank(p_status)` - active < muted < suspended < banned
+    - `take_moderation_action` keeps the stronger of the current and the new
+      status, and the later expiry (no expiry counts as permanent). Only
+      bans were protected before: muting a suspended user lifted the
+      suspension, and a short suspension cut a longer one short.
+*/
+
+CREATE OR REPLACE FUNCTION account_status_rank(p_status text)
+RETURNS integer AS $$
+  SELECT CASE p_status
+    WHEN 'muted' THEN 1
+    WHEN 'suspended' THEN 2
+    WHEN 'banned' THEN 3
+    ELSE 0
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION take_moderation_action(
+  p_report_id uuid,
+  p_action text,
+  p_reason text,
+  p_duration interval DEFAULT NULL
+)
+RETURNS moderation_actions AS $$
+DECLARE
+  target reports := lock_report_for_moderation(p_report_id);
+  sender_role text;
+  target_user_id uuid;
+  current_status text;
+  current_expires_at timestamptz;
+  new_status text;
+  expires_at timestamptz;
+  logged moderation_actions;
+BEGIN
+  IF p_action NOT IN ('warn', 'mute', 'suspend', 'close_chat') THEN
+    RAISE EXCEPTION 'Unknown moderation action: %', p_action;
+  END IF;
+
+  IF btrim(COALESCE(p_reason, '')) = '' THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  IF target.chat_id IS NULL THEN
+    RAISE EXCEPTION 'This report is not linked to a chat';
+  END IF;
+
+  sender_role := target.message_snapshot->>'sender_role';
+
+  SELECT CASE sender_role
+    WHEN 'student' THEN student_id
+    WHEN 'faculty' THEN faculty_id
+  END
+  INTO target_user_id
+  FROM chats
+  WHERE id = target.chat_id;
+
+  IF p_action <> 'close_chat' AND target_user_id IS NULL THEN
+    RAISE EXCEPTION 'The sender of the reported message could not be found';
+  END IF;
+
+  IF p_action = 'warn' THEN
+    INSERT INTO user_warnings (user_id, chat_id, report_id, reason)
+    VALUES (target_user_id, target.chat_id, target.id, btrim(p_reason));
+
+  ELSIF p_action IN ('mute', 'suspend') THEN
+    -- Never soften a ban, a stronger restriction or a longer one
+    current_status := effective_account_status(target_user_id);
+
+    IF current_status = 'banned' THEN
+      RAISE EXCEPTION 'This user is already banned';
+    END IF;
+
+    SELECT status_expires_at INTO current_expires_at FROM users WHERE id = target_user_id;
+
+    new_status := CASE p_action WHEN 'mute' THEN 'muted' ELSE 'suspended' END;
+    expires_at := now() + COALESCE(
+      p_duration,
+      CASE p_action WHEN 'mute' THEN interval '24 hours' ELSE interval '7 days' END
+    );
+
+    IF current_status <> 'active' THEN
+      IF account_status_rank(current_status) > account_status_rank(new_status) THEN
+        new_status := current_status;
+      END IF;
+
+      -- No expiry means the current restriction is permanent
+      expires_at := CASE
+        WHEN current_expires_at IS NULL THEN NULL
+        ELSE GREATEST(current_expires_at, expires_at)
+      END;
+    END IF;
+
+    PERFORM apply_account_status(target_user_id, new_status, expires_at, p_reason);
+
+  ELSE
+    UPDATE chats SET status = 'closed', updated_at = now() WHERE id = target.chat_id;
+  END IF;
+
+  INSERT INTO moderation_actions (report_id, moderator_id, action, target_user_id, chat_id, details)
+  VALUES (
+    target.id, auth.uid(), p_action, target_user_id, target.chat_id,
+    jsonb_build_object('reason', btrim(p_reason), 'expires_at', expires_at)
+  )
+  RETURNING * INTO logged;
+
+  IF target.status IN ('open', 'triaged') THEN
+    PERFORM apply_report_status(target, 'actioned', NULL);
+  END IF;
+
+  RETURN logged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
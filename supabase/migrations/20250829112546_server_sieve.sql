@@ -0,0 +1,224 @@
+/*
+  # Run the content filter on the server the way the client runs it
+
+  1. Functions
+    - `normalize_filter_text(p_text)` - lowercase and undo the letter
+      substitutions ("sh1t", "@ss") the client undoes before matching word
+      lists
+    - `hostility_score(p_text)` - the client's local hostility score, so
+      'score' rules give the same result on both sides
+    - `moderation_rule_match(p_rule, p_text)` - what a rule matched, or NULL.
+      Word lists match whole normalised words. Regex rules use their
+      `config.flags` like the client (case-insensitive only with 'i', which
+      is also the default; 'm' and 's' map to newline-sensitive matching),
+      and JavaScript's `\b`/`\B` become `\y`/`\Y`, since `\b` is a backspace
+      in Postgres. Patterns Postgres can't compile don't match.
+    - `enforce_block_rules()` refuses messages any enabled block rule
+      matches, of any kind
+    - `log_moderation_matches()` - AFTER INSERT or UPDATE OF `body` on
+      `messages`: logs every enabled rule a stored message or edit matches
+      (outcome 'sent') and files one automated report if a flag rule
+      matched. This no longer depends on the sender's client.
+    - `log_moderation_decisions(p_chat_id, p_outcome, p_decisions)` replaces
+      the four-argument version: clients only log messages that never
+      reached the database ('blocked' or 'withdrawn'), and it no longer
+      files reports, so participants can't create "automated" reports
+*/
+
+CREATE OR REPLACE FUNCTION normalize_filter_text(p_text text)
+RETURNS text AS $$
+  SELECT translate(lower(COALESCE(p_text, '')), '013457@$', 'oieastas');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION hostility_score(p_text text)
+RETURNS numeric AS $$
+DECLARE
+  normalized text := normalize_filter_text(p_text);
+  letters text := regexp_replace(COALESCE(p_text, ''), '[^a-zA-Z]', '', 'g');
+  hostile_hits integer;
+  aimed_at_reader boolean;
+  caps_ratio numeric := 0;
+  shouting boolean := COALESCE(p_text, '') ~ '[!?]{3,}';
+BEGIN
+  SELECT count(*) INTO hostile_hits
+  FROM unnest(ARRAY['hate', 'stupid', 'idiot', 'dumb', 'useless', 'shut up', 'pathetic', 'worthless', 'moron']) AS term
+  WHERE normalized ~ ('(^|[^a-z0-9])' || term || '($|[^a-z0-9])');
+
+  aimed_at_reader := hostile_hits > 0 AND normalized ~ '(^|[^a-z])(you|your|you''re|u|ur)([^a-z]|$)';
+
+  IF length(letters) >= 8 THEN
+    caps_ratio := length(regexp_replace(letters, '[^A-Z]', '', 'g'))::numeric / length(letters);
+  END IF;
+
+  RETURN round(LEAST(
+    1,
+    hostile_hits * 0.35
+      + CASE WHEN aimed_at_reader THEN 0.25 ELSE 0 END
+      + caps_ratio * 0.3
+      + CASE WHEN shouting THEN 0.1 ELSE 0 END
+  ), 2);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Matched text (or the score, for 'score' rules), NULL when the rule doesn't match
+CREATE OR REPLACE FUNCTION moderation_rule_match(p_rule moderation_rules, p_text text)
+RETURNS text AS $$
+DECLARE
+  normalized text := normalize_filter_text(p_text);
+  word text;
+  flags text;
+  pattern text;
+  score numeric;
+BEGIN
+  IF p_rule.kind = 'word_list' THEN
+    FOR word IN SELECT jsonb_array_elements_text(COALESCE(p_rule.config->'words', '[]'::jsonb)) LOOP
+      CONTINUE WHEN btrim(word) = '';
+
+      IF normalized ~ (
+        '(^|[^a-z0-9])'
+        || regexp_replace(normalize_filter_text(btrim(word)), '([.*+?^${}()|\[\]\\])', '\\\1', 'g')
+        || '($|[^a-z0-9])'
+      ) THEN
+        RETURN word;
+      END IF;
+    END LOOP;
+
+  ELSIF p_rule.kind = 'regex' THEN
+    flags := COALESCE(NULLIF(p_rule.config->>'flags', ''), 'i');
+
+    -- Without 's', '.' skips newlines as in JavaScript; 'm' anchors ^ and $ at lines
+    pattern := '(?'
+      || CASE WHEN strpos(flags, 'i') > 0 THEN 'i' ELSE 'c' END
+      || CASE
+           WHEN strpos(flags, 's') > 0 THEN CASE WHEN strpos(flags, 'm') > 0 THEN 'w' ELSE '' END
+           ELSE CASE WHEN strpos(flags, 'm') > 0 THEN 'n' ELSE 'p' END
+         END
+      || ')'
+      -- Set escaped backslashes aside so "\\b" stays a backslash and a "b"
+      || replace(replace(replace(replace(
+           p_rule.config->>'pattern', '\\', chr(1)), '\b', '\y'), '\B', '\Y'), chr(1), '\\');
+
+    BEGIN
+      RETURN regexp_substr(COALESCE(p_text, ''), pattern);
+    EXCEPTION
+      -- JavaScript-only syntax is checked by the client filter alone
+      WHEN invalid_regular_expression THEN RETURN NULL;
+    END;
+
+  ELSIF p_rule.kind = 'score' THEN
+    score := hostility_score(p_text);
+    IF score >= COALESCE((p_rule.config->>'threshold')::numeric, 0.8) THEN
+      RETURN score::text;
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION enforce_block_rules()
+RETURNS TRIGGER AS $$
+DECLARE
+  rule moderation_rules;
+BEGIN
+  FOR rule IN
+    SELECT * FROM moderation_rules WHERE enabled AND action = 'block'
+  LOOP
+    IF moderation_rule_match(rule, NEW.body) IS NOT NULL THEN
+      RAISE EXCEPTION 'Message blocked by the content filter (%)', rule.name
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION log_moderation_matches()
+RETURNS TRIGGER AS $$
+DECLARE
+  rule moderation_rules;
+  matched text;
+  flagged_rules text[] := ARRAY[]::text[];
+BEGIN
+  IF NEW.deleted_at IS NOT NULL OR btrim(COALESCE(NEW.body, '')) = '' THEN
+    RETURN NULL;
+  END IF;
+
+  FOR rule IN
+    SELECT * FROM moderation_rules WHERE enabled ORDER BY created_at
+  LOOP
+    matched := moderation_rule_match(rule, NEW.body);
+    CONTINUE WHEN matched IS NULL;
+
+    INSERT INTO moderation_decisions (rule_id, rule_name, action, outcome, chat_id, message_id, sender_role, matched, score)
+    VALUES (
+      rule.id, rule.name, rule.action, 'sent', NEW.chat_id, NEW.id, NEW.sender_role,
+      CASE WHEN rule.kind <> 'score' THEN left(matched, 200) END,
+      CASE WHEN rule.kind = 'score' THEN matched::numeric END
+    );
+
+    IF rule.action = 'flag' THEN
+      flagged_rules := flagged_rules || rule.name;
+    END IF;
+  END LOOP;
+
+  -- One automated report per flagged message or edit
+  IF cardinality(flagged_rules) > 0 THEN
+    INSERT INTO reports (message_id, reason, comment, reported_by, chat_id, "timestamp")
+    VALUES (
+      NEW.id::text,
+      'Automated flag',
+      'Matched: ' || array_to_string(flagged_rules, ', '),
+      NULL,
+      NEW.chat_id,
+      now()
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_moderation_matches ON messages;
+CREATE TRIGGER log_moderation_matches
+  AFTER INSERT OR UPDATE OF body ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION log_moderation_matches();
+
+/*
+  p_decisions: [{ "rule_id", "matched", "score" }, ...]
+  p_outcome: 'blocked' or 'withdrawn'
+*/
+DROP FUNCTION IF EXISTS log_moderation_decisions(uuid, uuid, text, jsonb);
+
+CREATE OR REPLACE FUNCTION log_moderation_decisions(
+  p_chat_id uuid,
+  p_outcome text,
+  p_decisions jsonb
+)
+RETURNS void AS $$
+DECLARE
+  caller_role text := chat_participant_role(p_chat_id);
+  decision jsonb;
+  rule moderation_rules;
+BEGIN
+  IF p_outcome NOT IN ('blocked', 'withdrawn') THEN
+    RAISE EXCEPTION 'Only blocked and withdrawn messages are logged by the client';
+  END IF;
+
+  FOR decision IN SELECT jsonb_array_elements(COALESCE(p_decisions, '[]'::jsonb)) LOOP
+    SELECT * INTO rule FROM moderation_rules WHERE id = (decision->>'rule_id')::uuid;
+    CONTINUE WHEN rule.id IS NULL;
+
+    INSERT INTO moderation_decisions (rule_id, rule_name, action, outcome, chat_id, message_id, sender_role, matched, score)
+    VALUES (
+      rule.id, rule.name, rule.action, p_outcome, p_chat_id, NULL, caller_role,
+      left(decision->>'matched', 200), (decision->>'score')::numeric
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Internal helper: only called by the triggers above
+REVOKE EXECUTE ON FUNCTION moderation_rule_match(moderation_rules, text) FROM PUBLIC, anon, authenticated;
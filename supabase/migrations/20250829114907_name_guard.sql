@@ -0,0 +1,114 @@
+/*
+  # Check messages for registered users' names on the server
+
+  1. Schema Changes
+    - `messages.pii_acknowledged` - the sender was told the text may
+      identify someone and chose to send it anyway
+
+  2. Functions & Triggers
+    - `mentions_user_name(p_text)` - whether any word of the text is part of
+      a registered user's name (from the local part of their email), leaving
+      out common words that are also names ("will", "mark", "grace")
+    - `check_message_names()` - BEFORE INSERT or UPDATE OF `body` on
+      `messages`: refuses text that mentions a name unless
+      `pii_acknowledged` is set. The error only says that a name was found,
+      with the hint 'pii_detected'; it never says which word or whose name.
+    - `edit_message(p_message_id, p_body, p_pii_acknowledged)` replaces the
+      two-argument version so edits can be acknowledged too
+    - Drop `find_user_names`: it told any signed-in user which words are
+      registered names, one call at a time
+
+  3. Security
+    - `mentions_user_name` is only called by the trigger
+*/
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS pii_acknowledged boolean NOT NULL DEFAULT false;
+
+DROP FUNCTION IF EXISTS find_user_names(text);
+
+CREATE OR REPLACE FUNCTION mentions_user_name(p_text text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM regexp_split_to_table(lower(COALESCE(p_text, '')), '[^a-z]+') AS word
+    WHERE length(word) >= 3
+      AND word <> ALL (ARRAY[
+        'will', 'mark', 'grace', 'may', 'june', 'april', 'august', 'rose', 'faith',
+        'hope', 'joy', 'bill', 'art', 'ray', 'sue', 'don', 'dawn', 'sky', 'summer',
+        'page', 'hunter', 'amber', 'ruby', 'pearl', 'jack', 'frank', 'glen', 'dean',
+        'rich', 'max', 'sam', 'pat', 'rob', 'guy', 'earl', 'lane', 'cliff', 'wood',
+        'king', 'young', 'white', 'black', 'brown', 'green', 'hall', 'bell', 'cook',
+        'student', 'faculty', 'learner', 'admin', 'test', 'user'
+      ])
+      AND EXISTS (
+        SELECT 1 FROM user_emails
+        WHERE word = ANY (regexp_split_to_array(lower(split_part(email, '@', 1)), '[^a-z]+'))
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION mentions_user_name(text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION check_message_names()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT NEW.pii_acknowledged AND NEW.deleted_at IS NULL AND mentions_user_name(NEW.body) THEN
+    RAISE EXCEPTION 'This message may contain someone''s name, which could identify you or them'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'pii_detected';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_message_names ON messages;
+CREATE TRIGGER check_message_names
+  BEFORE INSERT OR UPDATE OF body ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION check_message_names();
+
+DROP FUNCTION IF EXISTS edit_message(uuid, text);
+
+CREATE OR REPLACE FUNCTION edit_message(
+  p_message_id uuid,
+  p_body text,
+  p_pii_acknowledged boolean DEFAULT false
+)
+RETURNS messages AS $$
+DECLARE
+  target messages := lock_own_message(p_message_id);
+BEGIN
+  IF target.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be edited';
+  END IF;
+
+  IF target.type <> 'text' THEN
+    RAISE EXCEPTION 'Only text messages can be edited';
+  END IF;
+
+  IF now() - target.created_at > interval '15 minutes' THEN
+    RAISE EXCEPTION 'Messages can only be edited within 15 minutes of sending';
+  END IF;
+
+  IF btrim(COALESCE(p_body, '')) = '' THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+
+  IF btrim(p_body) = target.body THEN
+    RETURN target;
+  END IF;
+
+  PERFORM record_message_revision(target, 'edit');
+
+  UPDATE messages
+  SET body = btrim(p_body), edited_at = now(), pii_acknowledged = COALESCE(p_pii_acknowledged, false)
+  WHERE id = p_message_id
+  RETURNING * INTO target;
+
+  UPDATE chats
+  SET last_message_text = target.body
+  WHERE id = target.chat_id AND last_message_at = target.created_at;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,140 @@
+/*
+  # Keep the student behind an aliased chat out of faculty's reach
+
+  1. Security
+    - Drop "Faculty can read assigned chats" and "Faculty can update assigned
+      chats". Reading `chats` directly let faculty select `student_id` and
+      link every chat a student opened under a different alias.
+    - Faculty list their chats through `get_faculty_chats()` instead, which
+      leaves `student_id` out and only includes the student's profile when
+      the chat has no alias
+    - Policies that looked participation up in `chats` (messages, reactions,
+      identity reveals, chat counterparts) ran as the caller and would no
+      longer see faculty chats; they now use the helpers below
+
+  2. Functions
+    - `current_chat_role(p_chat_id)` - 'student', 'faculty' or NULL for the
+      caller; like `chat_participant_role` but doesn't raise, for policies
+    - `is_chat_counterpart(p_user_id)` - whether the user is on the other side
+      of one of the caller's chats (for faculty, only chats without an alias)
+    - `get_faculty_chats()` - the calling faculty member's chats, with
+      `unread_count`, `faculty` and `student` (NULL for aliased chats)
+*/
+
+CREATE OR REPLACE FUNCTION current_chat_role(p_chat_id uuid)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN student_id = auth.uid() THEN 'student'
+    WHEN faculty_id = auth.uid() THEN 'faculty'
+  END
+  FROM chats
+  WHERE id = p_chat_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_chat_counterpart(p_user_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM chats
+    WHERE (chats.student_id = auth.uid() AND chats.faculty_id = p_user_id)
+       OR (chats.faculty_id = auth.uid() AND chats.student_id = p_user_id AND chats.student_alias IS NULL)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_faculty_chats()
+RETURNS TABLE (
+  id uuid,
+  faculty_id uuid,
+  student_alias text,
+  subject text,
+  course_id uuid,
+  category text,
+  urgency text,
+  department text,
+  status text,
+  last_message_text text,
+  last_message_at timestamptz,
+  message_count integer,
+  faculty_last_read_at timestamptz,
+  unread_count integer,
+  faculty jsonb,
+  student jsonb,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+  SELECT
+    c.id, c.faculty_id, c.student_alias, c.subject, c.course_id, c.category, c.urgency,
+    c.department, c.status, c.last_message_text, c.last_message_at, c.message_count,
+    c.faculty_last_read_at, unread_count(c),
+    jsonb_build_object('id', f.id, 'anonymous_id', f.anonymous_id, 'department', f.department),
+    CASE WHEN c.student_alias IS NULL THEN
+      jsonb_build_object('id', s.id, 'anonymous_id', s.anonymous_id, 'department', s.department, 'year', s.year)
+    END,
+    c.created_at, c.updated_at
+  FROM chats c
+  JOIN users f ON f.id = c.faculty_id
+  LEFT JOIN users s ON s.id = c.student_id
+  WHERE c.faculty_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Chats: faculty go through get_faculty_chats
+DROP POLICY IF EXISTS "Faculty can read assigned chats" ON chats;
+DROP POLICY IF EXISTS "Faculty can update assigned chats" ON chats;
+
+-- Users
+DROP POLICY IF EXISTS "Users can read chat counterparts" ON users;
+CREATE POLICY "Users can read chat counterparts"
+ON users FOR SELECT
+TO authenticated
+USING (is_chat_counterpart(users.id));
+
+-- Messages
+DROP POLICY IF EXISTS "Participants can read chat messages" ON messages;
+CREATE POLICY "Participants can read chat messages"
+ON messages FOR SELECT
+TO authenticated
+USING (current_chat_role(messages.chat_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Participants can send as their own role" ON messages;
+CREATE POLICY "Participants can send as their own role"
+ON messages FOR INSERT
+TO authenticated
+WITH CHECK (current_chat_role(messages.chat_id) = messages.sender_role);
+
+-- Reactions
+DROP POLICY IF EXISTS "Participants can read chat reactions" ON message_reactions;
+CREATE POLICY "Participants can read chat reactions"
+ON message_reactions FOR SELECT
+TO authenticated
+USING (current_chat_role(message_reactions.chat_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Participants can react as their own role" ON message_reactions;
+CREATE POLICY "Participants can react as their own role"
+ON message_reactions FOR INSERT
+TO authenticated
+WITH CHECK (
+  current_chat_role(message_reactions.chat_id) = message_reactions.reactor_role
+  AND EXISTS (
+    SELECT 1 FROM messages
+    WHERE messages.id = message_reactions.message_id
+      AND messages.chat_id = message_reactions.chat_id
+  )
+);
+
+DROP POLICY IF EXISTS "Participants can remove their own reactions" ON message_reactions;
+CREATE POLICY "Participants can remove their own reactions"
+ON message_reactions FOR DELETE
+TO authenticated
+USING (current_chat_role(message_reactions.chat_id) = message_reactions.reactor_role);
+
+-- Identity reveals
+DROP POLICY IF EXISTS "Participants can read their chat's identity reveal" ON identity_reveals;
+CREATE POLICY "Participants can read their chat's identity reveal"
+ON identity_reveals FOR SELECT
+TO authenticated
+USING (is_admin() OR current_chat_role(identity_reveals.chat_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Participants can read their chat's identity reveal events" ON identity_reveal_events;
+CREATE POLICY "Participants can read their chat's identity reveal events"
+ON identity_reveal_events FOR SELECT
+TO authenticated
+USING (is_admin() OR current_chat_role(identity_reveal_events.chat_id) IS NOT NULL);
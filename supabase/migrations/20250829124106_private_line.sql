@@ -0,0 +1,106 @@
+/*
+  # Move contact numbers beside emails so unmasking is the only way to read them
+
+  1. Schema Changes
+    - `user_emails.contact_number` - moved out of `users.contact_number`,
+      which is dropped. Admins could read it with every profile row, so
+      "Admins can read all users" exposed the phone number behind any
+      anonymous account without an unmasking.
+
+  2. Functions
+    - `handle_new_auth_user()` writes the contact number to `user_emails`
+    - `unmask_user(p_user_id, p_justification)` returns
+      `{ "email", "contact_number" }` instead of just the email
+
+  3. Security
+    - Unchanged: owners read their own `user_emails` row, admins go through
+      `unmask_user`, which checks the justification and writes the audit log
+*/
+
+ALTER TABLE user_emails ADD COLUMN IF NOT EXISTS contact_number text;
+
+UPDATE user_emails
+SET contact_number = users.contact_number
+FROM users
+WHERE users.id = user_emails.user_id AND users.contact_number IS NOT NULL;
+
+ALTER TABLE users DROP COLUMN IF EXISTS contact_number;
+
+-- Sign-up: the profile row, then the email and contact number beside it
+CREATE OR REPLACE FUNCTION handle_new_auth_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  requested_role text := NEW.raw_user_meta_data->>'role';
+  id_style text := CASE WHEN NEW.raw_user_meta_data->>'anonymous_id_style' = 'handle' THEN 'handle' ELSE 'tag' END;
+BEGIN
+  IF requested_role NOT IN ('student', 'faculty') THEN
+    RAISE EXCEPTION 'Invalid role requested at sign-up';
+  END IF;
+
+  -- The unique index settles races between concurrent sign-ups
+  FOR attempt IN 1..5 LOOP
+    BEGIN
+      INSERT INTO public.users (
+        id, role, department, year, anonymous_id, theme
+      ) VALUES (
+        NEW.id,
+        requested_role,
+        NEW.raw_user_meta_data->>'department',
+        CASE WHEN requested_role = 'student' THEN NEW.raw_user_meta_data->>'year' END,
+        unused_anonymous_id(requested_role, id_style),
+        COALESCE(NEW.raw_user_meta_data->>'theme', 'blue_neon')
+      );
+
+      EXIT;
+    EXCEPTION
+      WHEN unique_violation THEN
+        IF attempt = 5 THEN
+          RAISE;
+        END IF;
+    END;
+  END LOOP;
+
+  INSERT INTO public.user_emails (user_id, email, contact_number)
+  VALUES (NEW.id, lower(NEW.email), NEW.raw_user_meta_data->>'contact_number');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The return type changes, so the old version has to go first
+DROP FUNCTION IF EXISTS unmask_user(uuid, text);
+
+CREATE OR REPLACE FUNCTION unmask_user(p_user_id uuid, p_justification text)
+RETURNS jsonb AS $$
+DECLARE
+  admin users;
+  target users;
+  target_identity user_emails;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can unmask users'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF char_length(btrim(COALESCE(p_justification, ''))) < 10 THEN
+    RAISE EXCEPTION 'A justification of at least 10 characters is required to unmask a user';
+  END IF;
+
+  SELECT * INTO admin FROM users WHERE id = auth.uid();
+  SELECT * INTO target FROM users WHERE id = p_user_id;
+
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  SELECT * INTO target_identity FROM user_emails WHERE user_id = target.id;
+
+  INSERT INTO unmask_audit_log (
+    admin_id, admin_anonymous_id, target_user_id, target_anonymous_id, target_role, justification
+  ) VALUES (
+    admin.id, admin.anonymous_id, target.id, target.anonymous_id, target.role, btrim(p_justification)
+  );
+
+  RETURN jsonb_build_object('email', target_identity.email, 'contact_number', target_identity.contact_number);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
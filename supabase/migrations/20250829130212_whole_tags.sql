@@ -0,0 +1,115 @@
+/*
+  # Match subject tags as whole words when routing
+
+  1. Functions
+    - `subject_words(p_text)` - lowercase words of a subject or tag, joined
+      by single spaces with a space at either end, so one can be found in
+      another only at word boundaries. '+' and '#' count as letters, so
+      "c++" and "c#" stay distinct from "c".
+    - `route_new_chat` matched tags anywhere in the subject, so the tag 'ai'
+      matched "maintain" and 'java' matched "javascript". A tag now matches
+      only as a whole word or phrase of the subject ("machine learning" still
+      matches "Intro to Machine Learning!").
+    - Availability stays a tie-breaker: faculty are ranked by subject and
+      department match first, then by how soon they can reply, then by open
+      chats, so a better-matched colleague who is busy still beats one who
+      can reply within hours.
+*/
+
+CREATE OR REPLACE FUNCTION subject_words(p_text text)
+RETURNS text AS $$
+  SELECT ' ' || btrim(regexp_replace(lower(COALESCE(p_text, '')), '[^a-z0-9+#]+', ' ', 'g')) || ' ';
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION route_new_chat(
+  p_department text DEFAULT NULL,
+  p_subject text DEFAULT NULL,
+  p_course_id uuid DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  course courses;
+  subject_text text := lower(COALESCE(p_subject, ''));
+  routed jsonb;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to start a chat'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_course_id IS NOT NULL THEN
+    SELECT * INTO course FROM courses WHERE id = p_course_id;
+
+    IF course.id IS NULL THEN
+      RAISE EXCEPTION 'Course not found';
+    END IF;
+
+    SELECT jsonb_build_object(
+      'faculty_id', users.id,
+      'anonymous_id', users.anonymous_id,
+      'department', users.department,
+      'reason', 'course',
+      'open_chats', (SELECT count(*) FROM chats WHERE chats.faculty_id = users.id AND chats.status IN ('active', 'waiting')),
+      'availability', availability(users)
+    )
+    INTO routed
+    FROM users
+    WHERE users.id = course.instructor_id
+      AND users.role = 'faculty'
+      AND users.availability_status <> 'out_of_office'
+      AND COALESCE(effective_account_status(users.id), 'active') NOT IN ('suspended', 'banned');
+
+    IF routed IS NOT NULL THEN
+      RETURN routed;
+    END IF;
+
+    -- No instructor available: route on the course's department and topics
+    p_department := COALESCE(course.department, p_department);
+    subject_text := lower(concat_ws(' ', p_subject, course.name, array_to_string(course.tags, ' ')));
+  END IF;
+
+  SELECT jsonb_build_object(
+    'faculty_id', ranked.id,
+    'anonymous_id', ranked.anonymous_id,
+    'department', ranked.department,
+    'reason', CASE WHEN ranked.subject_match THEN 'subject' WHEN ranked.department_match THEN 'department' ELSE 'load' END,
+    'open_chats', ranked.open_chats,
+    'availability', ranked.availability
+  )
+  INTO routed
+  FROM (
+    SELECT
+      users.id,
+      users.anonymous_id,
+      users.department,
+      -- Whole words only: 'ai' doesn't match "maintain"
+      EXISTS (
+        SELECT 1 FROM unnest(users.subject_tags) AS tag
+        WHERE btrim(subject_words(tag)) <> ''
+          AND strpos(subject_words(subject_text), subject_words(tag)) > 0
+      ) AS subject_match,
+      COALESCE(users.department = p_department, false) AS department_match,
+      (SELECT count(*) FROM chats WHERE chats.faculty_id = users.id AND chats.status IN ('active', 'waiting')) AS open_chats,
+      availability(users) AS availability
+    FROM users
+    WHERE users.role = 'faculty'
+      AND users.availability_status <> 'out_of_office'
+      AND COALESCE(effective_account_status(users.id), 'active') NOT IN ('suspended', 'banned')
+  ) AS ranked
+  ORDER BY
+    ranked.subject_match::int * 2 + ranked.department_match::int DESC,
+    array_position(
+      ARRAY['within_hours', 'within_day', 'next_office_hours', 'within_days'],
+      ranked.availability->>'expected_response'
+    ) ASC,
+    ranked.open_chats ASC,
+    random()
+  LIMIT 1;
+
+  IF routed IS NULL THEN
+    RAISE EXCEPTION 'No faculty members are available right now';
+  END IF;
+
+  RETURN routed;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;